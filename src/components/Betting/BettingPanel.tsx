@@ -0,0 +1,145 @@
+import { memo, useMemo, useState } from 'react'
+import { analyzeBet } from '../../lib/poker-engine/src/poker-engine'
+import { formatPotOdds } from '../../lib/poker-engine/src/betting'
+import type { BettingAnalysis, BettingState } from '../../types/game'
+import { ERROR_MESSAGES } from '../../utils/errorHandler'
+
+interface BettingPanelProps {
+  betting: BettingState
+  onChange: (betting: BettingState) => void
+  calculatedEquity?: number // Equity percentage (0-100) against the opponents, when one was calculated
+  className?: string
+}
+
+type EquitySource = 'calculated' | 'manual'
+
+const CHIP_FIELDS: { key: keyof BettingState, label: string }[] = [
+  { key: 'potSize', label: 'Pot' },
+  { key: 'betToCall', label: 'To call' },
+  { key: 'effectiveStack', label: 'Effective stack' }
+]
+
+function formatChips(chips: number): string {
+  return Number(chips.toFixed(2)).toString()
+}
+
+function formatSignedChips(chips: number): string {
+  return `${chips > 0 ? '+' : ''}${formatChips(chips)}`
+}
+
+export const BettingPanel = memo(function BettingPanel({
+  betting,
+  onChange,
+  calculatedEquity,
+  className = ''
+}: BettingPanelProps) {
+  const [equitySource, setEquitySource] = useState<EquitySource>('calculated')
+  const [manualEquity, setManualEquity] = useState('50')
+
+  const isCalculated = equitySource === 'calculated' && calculatedEquity !== undefined
+  const equity = isCalculated ? calculatedEquity : Number(manualEquity)
+
+  const outcome = useMemo((): { analysis: BettingAnalysis } | { error: string } => {
+    try {
+      return { analysis: analyzeBet(betting, equity) }
+    } catch (error) {
+      const code = error instanceof Error ? error.message : 'INVALID_BETTING_STATE'
+      return { error: (ERROR_MESSAGES[code] ?? ERROR_MESSAGES.INVALID_BETTING_STATE).message }
+    }
+  }, [betting, equity])
+
+  return (
+    <div className={`text-left text-sm text-slate-200 space-y-4 ${className}`} data-testid="betting-panel">
+      {/* Chip inputs */}
+      <div className="grid grid-cols-3 gap-4">
+        {CHIP_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex flex-col gap-1">
+            <span className="text-slate-400">{label}</span>
+            <input
+              type="number"
+              min={0}
+              value={betting[key]}
+              onChange={(event) => onChange({ ...betting, [key]: Number(event.target.value) })}
+              className="bg-slate-900 text-yellow-100 rounded-lg px-3 py-2 border border-yellow-500/30 font-mono"
+            />
+          </label>
+        ))}
+      </div>
+
+      {/* Equity source */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-slate-400">Equity</span>
+        {calculatedEquity !== undefined && (
+          <>
+            <button
+              type="button"
+              aria-pressed={isCalculated}
+              onClick={() => setEquitySource('calculated')}
+              className={`px-2 py-1 rounded font-bold ${isCalculated ? 'bg-yellow-500 text-yellow-900' : 'bg-slate-700 text-slate-200'}`}
+            >
+              Calculated ({calculatedEquity.toFixed(1)}%)
+            </button>
+            <button
+              type="button"
+              aria-pressed={!isCalculated}
+              onClick={() => setEquitySource('manual')}
+              className={`px-2 py-1 rounded font-bold ${!isCalculated ? 'bg-yellow-500 text-yellow-900' : 'bg-slate-700 text-slate-200'}`}
+            >
+              Manual
+            </button>
+          </>
+        )}
+        {!isCalculated && (
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={manualEquity}
+            onChange={(event) => setManualEquity(event.target.value)}
+            aria-label="Equity percentage"
+            className="w-24 bg-slate-900 text-yellow-100 rounded-lg px-3 py-2 border border-yellow-500/30 font-mono"
+          />
+        )}
+      </div>
+
+      {/* Decision */}
+      {'error' in outcome ? (
+        <p className="text-red-300">{outcome.error}</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2" data-testid="betting-analysis">
+          <p>
+            <span className="text-slate-400">Pot odds: </span>
+            {formatPotOdds(outcome.analysis.potOdds)}
+          </p>
+          <p>
+            <span className="text-slate-400">Required equity: </span>
+            {outcome.analysis.requiredEquity.toFixed(1)}%
+          </p>
+          <p>
+            <span className="text-slate-400">EV of call: </span>
+            <span className={outcome.analysis.isProfitableCall ? 'text-green-400' : 'text-red-400'}>
+              {formatSignedChips(outcome.analysis.callEV)} chips
+            </span>
+          </p>
+          <p>
+            <span className="text-slate-400">EV of fold: </span>
+            {formatChips(outcome.analysis.foldEV)} chips
+          </p>
+          <p className="col-span-2">
+            <span className="text-slate-400">Implied odds: </span>
+            {outcome.analysis.isProfitableCall
+              ? 'not needed, calling is already profitable'
+              : outcome.analysis.isImpliedOddsReachable
+                ? `win ${formatChips(outcome.analysis.impliedOddsBreakeven)} more chips later to break even`
+                : `breakeven needs more than the ${formatChips(outcome.analysis.remainingStack)} chips left behind`}
+          </p>
+          <p className="col-span-2 font-bold text-yellow-300">
+            {outcome.analysis.isProfitableCall ? 'Call' : 'Fold'} is the better play at {outcome.analysis.equity.toFixed(1)}% equity
+          </p>
+        </div>
+      )}
+    </div>
+  )
+})
+
+export default BettingPanel
\ No newline at end of file
@@ -1,47 +1,108 @@
 import { useState, useCallback, useEffect } from 'react'
 import { HandDisplay } from '../Cards/HandDisplay'
 import { CommunityCards } from '../Cards/CommunityCards'
+import { BoardTexturePanel } from '../Cards/BoardTexturePanel'
+import { DeadCardTray } from '../Cards/DeadCardTray'
 import { ResultsDisplay } from '../Results/ResultsDisplay'
 import { Card } from '../Cards/Card'
+import { RangeGrid } from '../Range/RangeGrid'
+import { BettingPanel } from '../Betting/BettingPanel'
+import { StudTable, getStudCardLabel } from '../Table/StudTable'
 import { createDeck } from '../../lib/card-utils/src/card-utils'
+import { getStudStreet } from '../../lib/card-utils/src/validation'
 import { calculateProbabilities } from '../../lib/poker-engine/src/poker-engine'
+import { isStudVariant } from '../../lib/poker-engine/src/variants'
 import type { Card as CardType } from '../../types/card'
-import { GameStage } from '../../types/game'
+import { DECK_RANKS } from '../../types/card'
+import {
+  GameStage,
+  DEFAULT_BETTING_STATE,
+  GAME_VARIANTS,
+  DEFAULT_GAME_VARIANT,
+  STUD_STREETS,
+  type BettingState,
+  type GameVariant,
+  type StudOpponent,
+  type StudStreet
+} from '../../types/game'
 import type { CalculationResults } from '../../types/poker'
+import { MAX_OPPONENTS } from '../../types/poker'
 
 interface CalculatorState {
   playerHand: (CardType | undefined)[]
   communityCards: (CardType | undefined)[]
-  stage: GameStage
-  selectedSlot: { type: 'player' | 'community', index: number } | null
+  studOpponents: StudOpponent[] // Stud opponents' up-cards
+  deadCards: CardType[] // Cards out of play, e.g. mucked, exposed or folded stud up-cards
+  stage: GameStage | StudStreet
+  variant: GameVariant
+  selectedSlot: { type: 'player' | 'community' | 'dead' | 'opponent', index: number, seat?: number } | null
   showCardSelector: boolean
   usedCards: Set<string>
+  randomOpponents: number
+  opponentRange: string
+  showRangeEditor: boolean
+  betting: BettingState
   isCalculating: boolean
   results: CalculationResults | null
   error: string | null
 }
 
+// Empty hole card slots for a game variant
+function createEmptyHand(variant: GameVariant): (CardType | undefined)[] {
+  return Array.from({ length: GAME_VARIANTS[variant].holeCards }, () => undefined)
+}
+
+// Empty board slots for a game variant (none in stud)
+function createEmptyBoard(variant: GameVariant): (CardType | undefined)[] {
+  return Array.from({ length: GAME_VARIANTS[variant].boardCards }, () => undefined)
+}
+
+// Ids of every card on the table
+function collectUsedCards(state: Pick<CalculatorState, 'playerHand' | 'communityCards' | 'studOpponents' | 'deadCards'>): Set<string> {
+  const cards = [...state.playerHand, ...state.communityCards, ...state.studOpponents.flatMap(opponent => opponent.upCards), ...state.deadCards]
+  return new Set(cards.flatMap(card => (card ? [card.id] : [])))
+}
+
+// Up-cards a stud opponent shows on a street
+function getShownUpCards(opponent: StudOpponent, street: StudStreet): CardType[] {
+  return opponent.upCards.slice(0, STUD_STREETS[street].upCards).filter((card): card is CardType => card !== undefined)
+}
+
 export function Calculator() {
   const [state, setState] = useState<CalculatorState>({
-    playerHand: [undefined, undefined],
-    communityCards: [undefined, undefined, undefined, undefined, undefined],
+    playerHand: createEmptyHand(DEFAULT_GAME_VARIANT),
+    communityCards: createEmptyBoard(DEFAULT_GAME_VARIANT),
+    studOpponents: [],
+    deadCards: [],
     stage: GameStage.PRE_FLOP,
+    variant: DEFAULT_GAME_VARIANT,
     selectedSlot: null,
     showCardSelector: false,
     usedCards: new Set(),
+    randomOpponents: 0,
+    opponentRange: '',
+    showRangeEditor: false,
+    betting: DEFAULT_BETTING_STATE,
     isCalculating: false,
     results: null,
     error: null
   })
 
-  const deck = createDeck()
+  const deck = createDeck(GAME_VARIANTS[state.variant].deck)
+  const isStud = isStudVariant(state.variant)
+  const studStreet = isStud ? getStudStreet(state.playerHand.filter(card => card !== undefined).length) : undefined
 
-  // Calculate stage based on cards
-  const calculateStage = useCallback((playerHand: (CardType | undefined)[], communityCards: (CardType | undefined)[]): GameStage => {
+  // Calculate stage based on cards (the street in stud, from the player's card count)
+  const calculateStage = useCallback((
+    playerHand: (CardType | undefined)[],
+    communityCards: (CardType | undefined)[],
+    variant: GameVariant
+  ): GameStage | StudStreet => {
     const playerCount = playerHand.filter(card => card !== undefined).length
     const communityCount = communityCards.filter(card => card !== undefined).length
 
-    if (playerCount < 2) return GameStage.PRE_FLOP
+    if (isStudVariant(variant)) return getStudStreet(playerCount) ?? STUD_STREETS.third.street
+    if (playerCount < playerHand.length) return GameStage.PRE_FLOP
     if (communityCount === 0) return GameStage.PRE_FLOP
     if (communityCount <= 3) return GameStage.FLOP
     if (communityCount === 4) return GameStage.TURN
@@ -50,20 +111,33 @@ export function Calculator() {
 
   // Update used cards and stage when cards change - moved to handleCardSelect for immediate update
 
-  // Auto-calculate probabilities when player hand is complete
+  // Auto-calculate probabilities when player hand is complete (in stud, from third street once every opponent's up-cards are in)
   useEffect(() => {
     const validPlayerCards = state.playerHand.filter(card => card !== undefined) as CardType[]
     const validCommunityCards = state.communityCards.filter(card => card !== undefined) as CardType[]
 
-    if (validPlayerCards.length === 2) {
-      calculateProbabilitiesAsync(validPlayerCards, validCommunityCards, state.stage)
+    if (isStudVariant(state.variant)) {
+      const street = getStudStreet(validPlayerCards.length)
+      if (!street) return
+
+      const opponentHands = state.studOpponents.map(opponent => getShownUpCards(opponent, street))
+      if (opponentHands.every(upCards => upCards.length === STUD_STREETS[street].upCards)) {
+        calculateProbabilitiesAsync(validPlayerCards, [], state.deadCards, street, state.variant, 0, '', opponentHands)
+      }
+    } else if (validPlayerCards.length === GAME_VARIANTS[state.variant].holeCards) {
+      calculateProbabilitiesAsync(validPlayerCards, validCommunityCards, state.deadCards, state.stage, state.variant, state.randomOpponents, state.opponentRange)
     }
-  }, [state.playerHand, state.communityCards, state.stage])
+  }, [state.playerHand, state.communityCards, state.studOpponents, state.deadCards, state.stage, state.variant, state.randomOpponents, state.opponentRange])
 
   const calculateProbabilitiesAsync = useCallback(async (
     playerHand: CardType[],
     communityCards: CardType[],
-    stage: GameStage
+    deadCards: CardType[],
+    stage: GameStage | StudStreet,
+    variant: GameVariant,
+    randomOpponents: number,
+    opponentRange: string,
+    opponentHands: CardType[][] = []
   ) => {
     setState(prev => ({ ...prev, isCalculating: true, error: null }))
 
@@ -71,8 +145,14 @@ export function Calculator() {
       const results = await calculateProbabilities({
         playerHand,
         communityCards,
+        deadCards,
         stage,
-        preferredMethod: 'auto'
+        variant,
+        preferredMethod: 'auto',
+        opponentHands,
+        randomOpponents,
+        opponentRanges: opponentRange ? [opponentRange] : [],
+        includeHandPotential: true
       })
 
       setState(prev => ({
@@ -89,10 +169,10 @@ export function Calculator() {
     }
   }, [])
 
-  const handleCardSlotClick = useCallback((type: 'player' | 'community', index: number) => {
+  const handleCardSlotClick = useCallback((type: 'player' | 'community' | 'dead' | 'opponent', index: number, seat?: number) => {
     setState(prev => ({
       ...prev,
-      selectedSlot: { type, index },
+      selectedSlot: { type, index, seat },
       showCardSelector: true,
       error: null
     }))
@@ -120,15 +200,20 @@ export function Calculator() {
       if (selectedSlot.type === 'player') {
         newState.playerHand = [...prev.playerHand]
         newState.playerHand[selectedSlot.index] = card
+      } else if (selectedSlot.type === 'dead') {
+        newState.deadCards = [...prev.deadCards, card]
+      } else if (selectedSlot.type === 'opponent') {
+        newState.studOpponents = prev.studOpponents.map((opponent, seat) => (seat === selectedSlot.seat
+          ? { upCards: opponent.upCards.map((upCard, index) => (index === selectedSlot.index ? card : upCard)) }
+          : opponent))
       } else {
         newState.communityCards = [...prev.communityCards]
         newState.communityCards[selectedSlot.index] = card
       }
 
       // Update used cards immediately
-      const allCards = [...newState.playerHand, ...newState.communityCards].filter(card => card !== undefined) as CardType[]
-      newState.usedCards = new Set(allCards.map(card => card.id))
-      newState.stage = calculateStage(newState.playerHand, newState.communityCards)
+      newState.usedCards = collectUsedCards(newState)
+      newState.stage = calculateStage(newState.playerHand, newState.communityCards, newState.variant)
 
       newState.showCardSelector = false
       newState.selectedSlot = null
@@ -138,19 +223,96 @@ export function Calculator() {
     })
   }, [state, calculateStage])
 
+  const handleDeadCardRemove = useCallback((index: number) => {
+    setState(prev => {
+      const deadCards = prev.deadCards.filter((_, i) => i !== index)
+
+      return { ...prev, deadCards, usedCards: collectUsedCards({ ...prev, deadCards }) }
+    })
+  }, [])
+
+  const handleAddStudOpponent = useCallback(() => {
+    setState(prev => ({
+      ...prev,
+      studOpponents: [...prev.studOpponents, { upCards: Array.from({ length: STUD_STREETS.seventh.upCards }, () => undefined) }]
+    }))
+  }, [])
+
+  // A folded stud opponent leaves the hand; their up-cards stay out of play as dead cards
+  const handleFoldStudOpponent = useCallback((seat: number) => {
+    setState(prev => {
+      const folded = prev.studOpponents[seat]
+      const studOpponents = prev.studOpponents.filter((_, i) => i !== seat)
+      const deadCards = [...prev.deadCards, ...folded.upCards.filter((card): card is CardType => card !== undefined)]
+
+      return { ...prev, studOpponents, deadCards, usedCards: collectUsedCards({ ...prev, studOpponents, deadCards }) }
+    })
+  }, [])
+
+  // Switching games deals a new hand; ranges are Hold'em notation, so the opponent range is dropped too.
+  // Cards missing from the new game's deck (2s-5s in short deck) leave the board and the dead cards.
+  // Stud has no board and seats its opponents by their up-cards instead of at random.
+  const handleVariantChange = useCallback((variant: GameVariant) => {
+    setState(prev => {
+      const deckRanks = DECK_RANKS[GAME_VARIANTS[variant].deck]
+      const isInDeck = (card: CardType | undefined): card is CardType => card !== undefined && deckRanks.includes(card.rank)
+      const communityCards = createEmptyBoard(variant).map((_, index) => (isInDeck(prev.communityCards[index]) ? prev.communityCards[index] : undefined))
+      const deadCards = prev.deadCards.filter(isInDeck)
+      const playerHand = createEmptyHand(variant)
+
+      return {
+        ...prev,
+        variant,
+        playerHand,
+        communityCards,
+        studOpponents: [],
+        deadCards,
+        usedCards: collectUsedCards({ playerHand, communityCards, studOpponents: [], deadCards }),
+        stage: calculateStage(playerHand, communityCards, variant),
+        randomOpponents: isStudVariant(variant) ? 0 : prev.randomOpponents,
+        opponentRange: '',
+        results: null,
+        error: null
+      }
+    })
+  }, [calculateStage])
+
+  const handleOpponentCountChange = useCallback((randomOpponents: number) => {
+    setState(prev => ({ ...prev, randomOpponents }))
+  }, [])
+
+  const handleOpponentRangeChange = useCallback((opponentRange: string) => {
+    setState(prev => ({ ...prev, opponentRange }))
+  }, [])
+
+  const handleRangeEditorToggle = useCallback((showRangeEditor: boolean) => {
+    setState(prev => ({ ...prev, showRangeEditor }))
+  }, [])
+
+  const handleBettingChange = useCallback((betting: BettingState) => {
+    setState(prev => ({ ...prev, betting }))
+  }, [])
+
   const handleReset = useCallback(() => {
-    setState({
-      playerHand: [undefined, undefined],
-      communityCards: [undefined, undefined, undefined, undefined, undefined],
-      stage: GameStage.PRE_FLOP,
+    setState(prev => ({
+      playerHand: createEmptyHand(prev.variant),
+      communityCards: createEmptyBoard(prev.variant),
+      studOpponents: [],
+      deadCards: [],
+      stage: calculateStage([], [], prev.variant),
+      variant: prev.variant,
       selectedSlot: null,
       showCardSelector: false,
       usedCards: new Set(),
+      randomOpponents: 0,
+      opponentRange: '',
+      showRangeEditor: false,
+      betting: DEFAULT_BETTING_STATE,
       isCalculating: false,
       results: null,
       error: null
-    })
-  }, [])
+    }))
+  }, [calculateStage])
 
   const handleClosePicker = useCallback(() => {
     setState(prev => ({
@@ -187,7 +349,7 @@ export function Calculator() {
         {/* Game Stage Display */}
         <div className="text-center mb-8">
           <div className="inline-block px-6 py-3 bg-gradient-to-r from-yellow-500 to-yellow-400 text-yellow-900 rounded-full text-lg font-bold shadow-xl transform hover:scale-105 transition-transform duration-200">
-            <span className="text-shadow">Stage: {state.stage.replace('_', '-').replace(/^./, (match) => match.toUpperCase())}</span>
+            <span className="text-shadow">{isStud ? 'Street' : 'Stage'}: {state.stage.replace('_', '-').replace(/^./, (match) => match.toUpperCase())}</span>
           </div>
         </div>
 
@@ -204,38 +366,118 @@ export function Calculator() {
             <div className="absolute inset-2 rounded-[2.25rem] border-2 border-yellow-500/30" />
             
             <div className="relative z-10 space-y-8">
-              {/* Player Hand Section */}
+              {/* Game Selection */}
               <div className="text-center">
-                <div className="inline-block bg-black/40 backdrop-blur-sm rounded-2xl p-6 border border-yellow-500/30">
-                  <h3 className="text-yellow-400 text-xl font-bold mb-4 text-shadow">Your Hole Cards</h3>
-                  <HandDisplay
-                    cards={state.playerHand}
-                    onCardClick={(index) => handleCardSlotClick('player', index)}
-                    placeholders={['Hole Card 1', 'Hole Card 2']}
-                    selectedIndex={
-                      state.selectedSlot?.type === 'player' ? state.selectedSlot.index : undefined
-                    }
-                    size="large"
-                  />
-                </div>
+                <label htmlFor="game-variant" className="sr-only">Game</label>
+                <select
+                  id="game-variant"
+                  value={state.variant}
+                  onChange={(event) => handleVariantChange(event.target.value as GameVariant)}
+                  className="bg-slate-900 text-yellow-100 rounded-lg px-3 py-1 border border-yellow-500/30"
+                >
+                  {Object.values(GAME_VARIANTS).map(rules => (
+                    <option key={rules.variant} value={rules.variant}>{rules.name}</option>
+                  ))}
+                </select>
               </div>
 
+              {/* Stud Table: up and down cards per street, no board */}
+              {isStud && (
+                <StudTable
+                  playerCards={state.playerHand}
+                  opponents={state.studOpponents}
+                  street={studStreet}
+                  onPlayerCardClick={(index) => handleCardSlotClick('player', index)}
+                  onOpponentCardClick={(seat, index) => handleCardSlotClick('opponent', index, seat)}
+                  onAddOpponent={handleAddStudOpponent}
+                  onFoldOpponent={handleFoldStudOpponent}
+                  selectedSlot={state.selectedSlot}
+                />
+              )}
+
+              {/* Player Hand Section */}
+              {!isStud && (
+                <div className="text-center">
+                  <div className="inline-block bg-black/40 backdrop-blur-sm rounded-2xl p-6 border border-yellow-500/30">
+                    <h3 className="text-yellow-400 text-xl font-bold mb-4 text-shadow">Your Hole Cards</h3>
+                    <HandDisplay
+                      cards={state.playerHand}
+                      onCardClick={(index) => handleCardSlotClick('player', index)}
+                      placeholders={state.playerHand.map((_, index) => `Hole Card ${index + 1}`)}
+                      selectedIndex={
+                        state.selectedSlot?.type === 'player' ? state.selectedSlot.index : undefined
+                      }
+                      size="large"
+                    />
+                  </div>
+                </div>
+              )}
+
               {/* Community Cards Section */}
+              {!isStud && (
+                <div className="text-center">
+                  <div className="inline-block bg-black/30 backdrop-blur-sm rounded-3xl p-6 border border-yellow-400/20">
+                    <h3 className="text-yellow-300 text-lg font-bold mb-6 text-shadow">Community Cards</h3>
+                    <CommunityCards
+                      cards={state.communityCards}
+                      onCardClick={(index) => handleCardSlotClick('community', index)}
+                      selectedIndex={
+                        state.selectedSlot?.type === 'community' ? state.selectedSlot.index : undefined
+                      }
+                      stage={state.stage as GameStage}
+                      disabled={state.playerHand.some(card => card === undefined)}
+                    />
+                    <BoardTexturePanel cards={state.communityCards} className="mt-4" />
+                  </div>
+                </div>
+              )}
+
+              {/* Dead Cards Section */}
               <div className="text-center">
-                <div className="inline-block bg-black/30 backdrop-blur-sm rounded-3xl p-6 border border-yellow-400/20">
-                  <h3 className="text-yellow-300 text-lg font-bold mb-6 text-shadow">Community Cards</h3>
-                  <CommunityCards
-                    cards={state.communityCards}
-                    onCardClick={(index) => handleCardSlotClick('community', index)}
-                    selectedIndex={
-                      state.selectedSlot?.type === 'community' ? state.selectedSlot.index : undefined
-                    }
-                    stage={state.stage}
-                    disabled={state.playerHand.some(card => card === undefined)}
+                <div className="inline-block bg-black/30 backdrop-blur-sm rounded-2xl p-4 border border-yellow-400/20">
+                  <h3 className="text-yellow-300 text-lg font-bold mb-1 text-shadow">Dead Cards</h3>
+                  <p className="text-yellow-100/70 text-xs mb-3">Mucked or exposed cards, left out of every calculation</p>
+                  <DeadCardTray
+                    cards={state.deadCards}
+                    onAddClick={() => handleCardSlotClick('dead', state.deadCards.length)}
+                    onRemove={handleDeadCardRemove}
                   />
                 </div>
               </div>
 
+              {/* Opponents Section */}
+              {!isStud && (
+                <div className="text-center">
+                  <div className="inline-flex items-center gap-4 bg-black/30 backdrop-blur-sm rounded-2xl px-6 py-4 border border-yellow-400/20">
+                    <label htmlFor="random-opponents" className="text-yellow-300 text-lg font-bold text-shadow">
+                      Opponents
+                    </label>
+                    <select
+                      id="random-opponents"
+                      value={state.randomOpponents}
+                      onChange={(event) => handleOpponentCountChange(parseInt(event.target.value))}
+                      className="bg-slate-900 text-yellow-100 rounded-lg px-3 py-2 border border-yellow-500/30"
+                    >
+                      <option value={0}>None</option>
+                      {Array.from({ length: MAX_OPPONENTS }, (_, i) => i + 1).map(count => (
+                        <option key={count} value={count}>{count} random</option>
+                      ))}
+                    </select>
+                    <span className="text-yellow-100 font-mono text-sm" data-testid="opponent-range">
+                      {state.opponentRange ? `vs ${state.opponentRange}` : 'No range'}
+                    </span>
+                    <button
+                      onClick={() => handleRangeEditorToggle(true)}
+                      disabled={state.variant !== 'holdem'}
+                      title={state.variant !== 'holdem' ? "Ranges are only available for Texas Hold'em" : undefined}
+                      className="px-4 py-2 bg-gradient-to-r from-yellow-500 to-yellow-400 text-yellow-900 rounded-lg font-bold shadow-lg disabled:opacity-50"
+                    >
+                      Edit Opponent Range
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="text-center pt-4">
                 <button
@@ -306,9 +548,46 @@ export function Calculator() {
               </div>
             )}
           </div>
+
+          {/* Pot Odds and EV */}
+          <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 rounded-3xl p-6 shadow-2xl border border-slate-600">
+            <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-yellow-300 text-center mb-6">
+              💰 Pot Odds & EV
+            </h2>
+            <BettingPanel
+              betting={state.betting}
+              onChange={handleBettingChange}
+              calculatedEquity={state.results?.equity?.[0].equity}
+            />
+          </div>
         </div>
       </div>
 
+      {/* Opponent Range Modal */}
+      {state.showRangeEditor && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 rounded-3xl p-8 max-w-3xl w-full max-h-[90vh] overflow-y-auto border-2 border-yellow-500/30 shadow-2xl">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-yellow-300">
+                🎯 Opponent Range
+              </h3>
+              <button
+                onClick={() => handleRangeEditorToggle(false)}
+                className="px-6 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-full text-white font-bold transition-all duration-200 shadow-lg"
+              >
+                Done
+              </button>
+            </div>
+
+            <RangeGrid value={state.opponentRange} onChange={handleOpponentRangeChange} />
+
+            <p className="mt-4 text-slate-400 text-sm text-center">
+              Click or drag across hands to add them • Combos blocked by your cards are removed when calculating
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Enhanced Card Selection Modal */}
       {state.showCardSelector && (
         <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -320,7 +599,9 @@ export function Calculator() {
                   <h3 className="text-xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-yellow-300">
                     🎴 Select Card for {
                       state.selectedSlot?.type === 'player'
-                        ? `Hole Card ${(state.selectedSlot.index + 1)}`
+                        ? isStud ? getStudCardLabel(state.selectedSlot.index) : `Hole Card ${(state.selectedSlot.index + 1)}`
+                        : state.selectedSlot?.type === 'opponent' ? `Opponent ${(state.selectedSlot.seat ?? 0) + 1} Up Card ${state.selectedSlot.index + 1}`
+                        : state.selectedSlot?.type === 'dead' ? 'Dead Card'
                         : state.selectedSlot?.index === 0 ? 'Flop Card 1'
                         : state.selectedSlot?.index === 1 ? 'Flop Card 2'  
                         : state.selectedSlot?.index === 2 ? 'Flop Card 3'
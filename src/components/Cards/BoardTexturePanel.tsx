@@ -0,0 +1,85 @@
+import { memo, useMemo } from 'react'
+import { analyzeBoard } from '../../lib/poker-engine/src/poker-engine'
+import type { Card as CardType } from '../../types/card'
+import { SUIT_SYMBOLS } from '../../types/card'
+
+interface BoardTexturePanelProps {
+  cards: (CardType | undefined)[]
+  className?: string
+}
+
+const PAIRING_LABELS: Record<string, string> = {
+  'unpaired': 'Unpaired',
+  'paired': 'Paired',
+  'two-pair': 'Double paired',
+  'trips': 'Trips on board',
+  'full-house': 'Full house on board',
+  'quads': 'Quads on board'
+}
+
+// Nut combos listed before summarising the rest
+const MAX_NUT_COMBOS = 4
+
+function capitalize(text: string): string {
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)}`
+}
+
+export const BoardTexturePanel = memo(function BoardTexturePanel({
+  cards,
+  className = ''
+}: BoardTexturePanelProps) {
+  const texture = useMemo(() => {
+    const boardCards = cards.filter((card): card is CardType => card !== undefined)
+    return boardCards.length >= 3 ? analyzeBoard(boardCards) : null
+  }, [cards])
+
+  if (!texture) {
+    return null
+  }
+
+  const tags = [
+    capitalize(texture.height),
+    PAIRING_LABELS[texture.pairing],
+    capitalize(texture.suitedness),
+    capitalize(texture.connectedness)
+  ]
+
+  const nutCombos = texture.nuts.combos
+    .slice(0, MAX_NUT_COMBOS)
+    .map(combo => combo.map(card => card.display).join(''))
+    .join(', ')
+  const hiddenCombos = texture.nuts.combos.length - MAX_NUT_COMBOS
+
+  return (
+    <div className={`text-left text-sm text-yellow-100 space-y-2 ${className}`} data-testid="board-texture">
+      <div className="flex flex-wrap gap-2">
+        {tags.map(tag => (
+          <span key={tag} className="px-2 py-0.5 rounded-full bg-yellow-500/20 border border-yellow-500/30">
+            {tag}
+          </span>
+        ))}
+      </div>
+      <p>
+        <span className="text-yellow-300 font-bold">Flushes: </span>
+        {texture.isFlushPossible && texture.flushSuit
+          ? `possible (${SUIT_SYMBOLS[texture.flushSuit]})`
+          : texture.isFlushDrawPossible ? 'draw possible' : 'none'}
+      </p>
+      <p>
+        <span className="text-yellow-300 font-bold">Straights: </span>
+        {texture.possibleStraights.length > 0
+          ? texture.possibleStraights.map(straight => `${straight.highCard}-high`).join(', ')
+          : 'none'}
+      </p>
+      <p>
+        <span className="text-yellow-300 font-bold">Nuts: </span>
+        {texture.nuts.description}
+        <span className="ml-2 text-yellow-100/70 font-mono">
+          {nutCombos}{hiddenCombos > 0 ? ` +${hiddenCombos} more` : ''}
+        </span>
+      </p>
+    </div>
+  )
+})
+
+export default BoardTexturePanel
\ No newline at end of file
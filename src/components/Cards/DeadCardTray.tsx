@@ -0,0 +1,46 @@
+import { memo } from 'react'
+import { Card } from './Card'
+import type { Card as CardType } from '../../types/card'
+
+interface DeadCardTrayProps {
+  cards: CardType[]
+  onAddClick: () => void
+  onRemove: (index: number) => void
+  maxCards?: number
+  disabled?: boolean
+  className?: string
+}
+
+export const DeadCardTray = memo(function DeadCardTray({
+  cards,
+  onAddClick,
+  onRemove,
+  maxCards = 8,
+  disabled = false,
+  className = ''
+}: DeadCardTrayProps) {
+  return (
+    <div className={`flex flex-wrap items-center justify-center gap-3 ${className}`} data-testid="dead-card-tray">
+      {cards.map((card, index) => (
+        <div key={card.id} className="relative" title="Click to return this card to the deck">
+          <Card
+            card={card}
+            onClick={() => onRemove(index)}
+            size="small"
+            className="opacity-70 grayscale"
+          />
+        </div>
+      ))}
+      {cards.length < maxCards && (
+        <Card
+          onClick={onAddClick}
+          disabled={disabled}
+          placeholder="Mark Dead Card"
+          size="small"
+        />
+      )}
+    </div>
+  )
+})
+
+export default DeadCardTray
\ No newline at end of file
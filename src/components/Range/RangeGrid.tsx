@@ -0,0 +1,196 @@
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { HAND_CLASS_RANKS } from '../../lib/card-utils/src/starting-hands'
+import {
+  parseRange,
+  formatRange,
+  getHandClassWeights,
+  setHandClassWeight,
+  createHandRange,
+  TOTAL_HOLE_CARD_COMBOS
+} from '../../lib/range-utils/src/range-utils'
+import type { HandRange } from '../../types/range'
+import { ERROR_MESSAGES } from '../../utils/errorHandler'
+
+interface RangeGridProps {
+  value: string // Range notation (e.g. "QQ+, AKs")
+  onChange: (value: string) => void
+  className?: string
+}
+
+const WEIGHT_OPTIONS = [1, 0.75, 0.5, 0.25]
+
+/**
+ * Gets the hand class shown in a grid cell: pairs on the diagonal, suited above it, offsuit below
+ */
+function getCellHandClass(row: number, column: number): string {
+  if (row === column) return `${HAND_CLASS_RANKS[row]}${HAND_CLASS_RANKS[column]}`
+  if (row < column) return `${HAND_CLASS_RANKS[row]}${HAND_CLASS_RANKS[column]}s`
+  return `${HAND_CLASS_RANKS[column]}${HAND_CLASS_RANKS[row]}o`
+}
+
+function parseRangeOrEmpty(notation: string): HandRange {
+  try {
+    return parseRange(notation)
+  } catch {
+    return createHandRange([])
+  }
+}
+
+export const RangeGrid = memo(function RangeGrid({
+  value,
+  onChange,
+  className = ''
+}: RangeGridProps) {
+  const [brushWeight, setBrushWeight] = useState(1)
+  const [paintWeight, setPaintWeight] = useState<number | null>(null)
+  const [draft, setDraft] = useState(value)
+  const [inputError, setInputError] = useState<string | null>(null)
+
+  const range = useMemo(() => parseRangeOrEmpty(value), [value])
+  const classWeights = useMemo(() => getHandClassWeights(range), [range])
+
+  // Latest range, so cells painted during one drag build on each other before the parent re-renders
+  const rangeRef = useRef(range)
+  useEffect(() => {
+    rangeRef.current = range
+  }, [range])
+
+  useEffect(() => {
+    setDraft(value)
+    setInputError(null)
+  }, [value])
+
+  // Stop painting wherever the mouse is released
+  useEffect(() => {
+    if (paintWeight === null) return
+
+    const stopPainting = () => setPaintWeight(null)
+    window.addEventListener('mouseup', stopPainting)
+    return () => window.removeEventListener('mouseup', stopPainting)
+  }, [paintWeight])
+
+  const paintCell = useCallback((handClass: string, weight: number) => {
+    const current = getHandClassWeights(rangeRef.current)[handClass] ?? 0
+    if (current === weight) return
+
+    const updated = setHandClassWeight(rangeRef.current, handClass, weight)
+    rangeRef.current = updated
+    onChange(formatRange(updated))
+  }, [onChange])
+
+  const getToggledWeight = useCallback((handClass: string): number => {
+    return (classWeights[handClass] ?? 0) === brushWeight ? 0 : brushWeight
+  }, [classWeights, brushWeight])
+
+  const handleCellMouseDown = useCallback((handClass: string) => {
+    const weight = getToggledWeight(handClass)
+    setPaintWeight(weight)
+    paintCell(handClass, weight)
+  }, [getToggledWeight, paintCell])
+
+  const handleCellMouseEnter = useCallback((handClass: string) => {
+    if (paintWeight !== null) {
+      paintCell(handClass, paintWeight)
+    }
+  }, [paintWeight, paintCell])
+
+  const applyDraft = useCallback(() => {
+    try {
+      onChange(formatRange(parseRange(draft)))
+      setInputError(null)
+    } catch (error) {
+      const code = error instanceof Error ? error.message : 'INVALID_RANGE'
+      setInputError((ERROR_MESSAGES[code] ?? ERROR_MESSAGES.INVALID_RANGE).message)
+    }
+  }, [draft, onChange])
+
+  const comboCount = Number(range.weightedCombos.toFixed(2))
+  const handPercentage = (range.weightedCombos / TOTAL_HOLE_CARD_COMBOS) * 100
+
+  return (
+    <div className={`space-y-4 ${className}`} data-testid="range-grid">
+      {/* Range notation input */}
+      <div>
+        <input
+          type="text"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={applyDraft}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') applyDraft()
+          }}
+          placeholder="e.g. QQ+, AKs, A5s-A2s"
+          aria-label="Range notation"
+          className="w-full bg-slate-900 text-yellow-100 rounded-lg px-3 py-2 border border-yellow-500/30 font-mono"
+        />
+        {inputError && (
+          <p className="mt-1 text-sm text-red-300">{inputError}</p>
+        )}
+      </div>
+
+      {/* 13x13 hand class grid */}
+      <div
+        className="grid grid-cols-13 gap-0.5 select-none"
+        onMouseLeave={() => setPaintWeight(null)}
+      >
+        {HAND_CLASS_RANKS.map((_, row) => HAND_CLASS_RANKS.map((_, column) => {
+          const handClass = getCellHandClass(row, column)
+          const weight = classWeights[handClass] ?? 0
+          const baseColor = row === column ? 'bg-slate-600' : row < column ? 'bg-slate-700' : 'bg-slate-800'
+
+          return (
+            <button
+              key={handClass}
+              type="button"
+              aria-label={handClass}
+              aria-pressed={weight > 0}
+              data-testid={`range-cell-${handClass}`}
+              onMouseDown={() => handleCellMouseDown(handClass)}
+              onMouseEnter={() => handleCellMouseEnter(handClass)}
+              onClick={(event) => {
+                // Mouse clicks are handled on mouse down; keyboard activation toggles here
+                if (event.detail === 0) paintCell(handClass, getToggledWeight(handClass))
+              }}
+              className={`${baseColor} h-8 rounded text-xs font-bold text-slate-100 hover:ring-1 hover:ring-yellow-400`}
+              style={weight > 0 ? {
+                background: `linear-gradient(to top, #eab308 ${weight * 100}%, transparent ${weight * 100}%)`
+              } : undefined}
+            >
+              {handClass}
+            </button>
+          )
+        }))}
+      </div>
+
+      {/* Brush weight and summary */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <span className="text-slate-300 text-sm">Weight</span>
+          {WEIGHT_OPTIONS.map(weight => (
+            <button
+              key={weight}
+              type="button"
+              aria-pressed={brushWeight === weight}
+              onClick={() => setBrushWeight(weight)}
+              className={`px-2 py-1 rounded text-sm font-bold ${brushWeight === weight ? 'bg-yellow-500 text-yellow-900' : 'bg-slate-700 text-slate-200'}`}
+            >
+              {weight * 100}%
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange('')}
+            className="px-2 py-1 rounded text-sm font-bold bg-red-700 text-white"
+          >
+            Clear
+          </button>
+        </div>
+        <p className="text-slate-200 text-sm" data-testid="range-summary">
+          {comboCount} combos ({handPercentage.toFixed(2)}% of hands)
+        </p>
+      </div>
+    </div>
+  )
+})
+
+export default RangeGrid
\ No newline at end of file
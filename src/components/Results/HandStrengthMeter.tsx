@@ -1,34 +1,20 @@
-import { memo, useMemo } from 'react'
-import type { HandProbability } from '../../types/poker'
+import { memo } from 'react'
+import type { HandPotential, RelativeHandStrength } from '../../types/poker'
 
 interface HandStrengthMeterProps {
-  probabilities: HandProbability[]
+  potential: HandPotential // Strength and potential against a random opponent hand
+  relativeStrength?: RelativeHandStrength // How the hand ranks against every possible holding
   className?: string
 }
 
 export const HandStrengthMeter = memo(function HandStrengthMeter({
-  probabilities,
+  potential,
+  relativeStrength,
   className = ''
 }: HandStrengthMeterProps) {
-  const handStrength = useMemo(() => {
-    // Calculate overall hand strength as weighted average
-    // Higher hand types get more weight
-    let weightedSum = 0
-    let totalWeight = 0
-    
-    probabilities.forEach(prob => {
-      const weight = prob.percentage / 100
-      const strength = prob.handType
-      weightedSum += strength * weight
-      totalWeight += weight
-    })
-    
-    const averageStrength = totalWeight > 0 ? weightedSum / totalWeight : 0
-    
-    // Convert to 0-100 scale (Royal Flush = 9, so scale by 9)
-    return Math.min(100, (averageStrength / 9) * 100)
-  }, [probabilities])
-  
+  // Effective hand strength credits draws for their chance to improve and discounts made hands that can be outdrawn
+  const handStrength = potential.effectiveHandStrength * 100
+
   const getStrengthLabel = (strength: number): string => {
     if (strength >= 90) return 'Excellent'
     if (strength >= 75) return 'Very Strong'
@@ -37,49 +23,30 @@ export const HandStrengthMeter = memo(function HandStrengthMeter({
     if (strength >= 25) return 'Weak'
     return 'Very Weak'
   }
-  
+
   const getStrengthColor = (strength: number): string => {
     if (strength >= 75) return '#10B981' // green-500
-    if (strength >= 50) return '#F59E0B' // amber-500  
+    if (strength >= 50) return '#F59E0B' // amber-500
     if (strength >= 25) return '#F97316' // orange-500
     return '#EF4444' // red-500
   }
-  
+
   const strengthLabel = getStrengthLabel(handStrength)
   const strengthColor = getStrengthColor(handStrength)
-  
-  // Find the best possible hand
-  const bestHand = probabilities.reduce((best, current) => 
-    current.handType > best.handType ? current : best, 
-    probabilities[0]
-  )
-  
-  const handNames: Record<number, string> = {
-    0: 'High Card',
-    1: 'Pair',
-    2: 'Two Pair',
-    3: 'Three of a Kind',
-    4: 'Straight', 
-    5: 'Flush',
-    6: 'Full House',
-    7: 'Four of a Kind',
-    8: 'Straight Flush',
-    9: 'Royal Flush'
-  }
-  
+
   return (
     <div className={`bg-white p-6 rounded-lg border border-gray-200 ${className}`}>
       <h3 className="text-lg font-medium text-gray-900 mb-4">Hand Strength</h3>
-      
+
       {/* Strength Meter */}
       <div className="mb-6">
         <div className="flex justify-between items-center mb-2">
-          <span className="text-sm text-gray-600">Overall Strength</span>
+          <span className="text-sm text-gray-600">Effective Strength</span>
           <span className="text-sm font-medium" style={{ color: strengthColor }}>
             {strengthLabel}
           </span>
         </div>
-        
+
         <div className="w-full bg-gray-200 rounded-full h-4">
           <div
             className="h-4 rounded-full transition-all duration-1000 ease-out flex items-center justify-end pr-2"
@@ -93,40 +60,35 @@ export const HandStrengthMeter = memo(function HandStrengthMeter({
             </span>
           </div>
         </div>
+        {relativeStrength && (
+          <p className="mt-2 text-xs text-gray-500">
+            {relativeStrength.description} beats {relativeStrength.percentile.toFixed(1)}% of the {relativeStrength.totalCombos} possible hands
+          </p>
+        )}
       </div>
-      
-      {/* Best Possible Hand */}
-      <div className="mb-4 p-3 bg-gray-50 rounded-lg">
-        <div className="flex justify-between items-center">
-          <span className="text-sm text-gray-600">Best Possible Hand:</span>
-          <span className="text-sm font-medium text-gray-900">
-            {handNames[bestHand.handType]} ({bestHand.percentage.toFixed(2)}%)
-          </span>
-        </div>
-      </div>
-      
+
       {/* Strength Indicators */}
-      <div className="grid grid-cols-2 gap-4 text-sm">
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <span className="text-gray-600">Strength Now:</span>
+          <div className="font-medium text-gray-900">
+            {(potential.handStrength * 100).toFixed(1)}%
+          </div>
+        </div>
         <div>
-          <span className="text-gray-600">Made Hand:</span>
+          <span className="text-gray-600">Improves:</span>
           <div className="font-medium text-gray-900">
-            {probabilities
-              .filter(p => p.handType >= 1) // Pair or better
-              .reduce((sum, p) => sum + p.percentage, 0)
-              .toFixed(1)}%
+            {(potential.positivePotential * 100).toFixed(1)}%
           </div>
         </div>
         <div>
-          <span className="text-gray-600">Premium Hand:</span>
+          <span className="text-gray-600">Outdrawn:</span>
           <div className="font-medium text-gray-900">
-            {probabilities
-              .filter(p => p.handType >= 6) // Full House or better
-              .reduce((sum, p) => sum + p.percentage, 0)
-              .toFixed(1)}%
+            {(potential.negativePotential * 100).toFixed(1)}%
           </div>
         </div>
       </div>
-      
+
       {/* Strength Scale Legend */}
       <div className="mt-4 pt-4 border-t border-gray-200">
         <div className="text-xs text-gray-500 mb-2">Strength Scale:</div>
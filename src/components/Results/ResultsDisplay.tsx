@@ -1,5 +1,7 @@
 import { useState, memo } from 'react'
 import type { CalculationResults } from '../../types/poker'
+import { GAME_VARIANTS } from '../../types/game'
+import { HandStrengthMeter } from './HandStrengthMeter'
 
 interface ResultsDisplayProps {
   results: CalculationResults
@@ -27,6 +29,9 @@ export const ResultsDisplay = memo(function ResultsDisplay({
 }: ResultsDisplayProps) {
   const [displayFormat, setDisplayFormat] = useState<DisplayFormat>('percentage')
 
+  // Hi/lo games split the pot between a high and a low half
+  const hasSplitPot = results.equity?.some(player => player.splitPot) ?? false
+
   const formatProbability = (prob: { probability: number, percentage: number, odds: string }) => {
     switch (displayFormat) {
       case 'percentage':
@@ -100,6 +105,12 @@ export const ResultsDisplay = memo(function ResultsDisplay({
             <span className="text-slate-400">⚡ Speed:</span>
             <span className="text-green-400 font-medium">{results.calculationTime.toFixed(2)}ms</span>
           </div>
+          {results.variant && results.variant !== 'holdem' && (
+            <div className="flex items-center gap-2" data-testid="game-variant">
+              <span className="text-slate-400">🎲 Game:</span>
+              <span className="text-slate-200 font-medium">{GAME_VARIANTS[results.variant].name}</span>
+            </div>
+          )}
         </div>
         {results.communityCards.length > 0 && (
           <div className="mt-3 pt-3 border-t border-slate-500/30">
@@ -107,10 +118,125 @@ export const ResultsDisplay = memo(function ResultsDisplay({
               <span className="text-slate-400">🌟 Community:</span>
               <span className="text-slate-200 font-medium">{results.communityCards.map(card => card.display).join(' ')}</span>
             </div>
+            {results.relativeStrength && (
+              <div className="flex items-center gap-2 mt-2" data-testid="relative-strength">
+                <span className="text-slate-400">📈 Relative Strength:</span>
+                <span className="text-slate-200 font-medium">
+                  {results.relativeStrength.description} beats {results.relativeStrength.percentile.toFixed(1)}% of possible hands
+                  {results.relativeStrength.position === 1 ? ' (the nuts)' : ` (#${results.relativeStrength.position} holding)`}
+                </span>
+              </div>
+            )}
           </div>
         )}
       </div>
 
+      {/* Hand Strength and Potential */}
+      {results.handPotential && (
+        <HandStrengthMeter
+          potential={results.handPotential}
+          relativeStrength={results.relativeStrength}
+          className="mb-6"
+        />
+      )}
+
+      {/* Equity Against Opponents */}
+      {results.equity && (
+        <div className="mb-6 overflow-hidden rounded-xl border border-emerald-500/30 bg-gradient-to-br from-emerald-900/40 to-slate-800/50" data-testid="equity-table">
+          <table className="w-full">
+            <thead>
+              <tr className="bg-gradient-to-r from-emerald-800/60 to-slate-700">
+                <th className="text-left py-3 px-6 font-bold text-slate-200">🏁 Player</th>
+                <th className="text-right py-3 px-6 font-bold text-slate-200">Win</th>
+                <th className="text-right py-3 px-6 font-bold text-slate-200">Tie</th>
+                <th className="text-right py-3 px-6 font-bold text-slate-200">Lose</th>
+                {hasSplitPot && (
+                  <>
+                    <th className="text-right py-3 px-6 font-bold text-slate-200">High</th>
+                    <th className="text-right py-3 px-6 font-bold text-slate-200">Low</th>
+                    <th className="text-right py-3 px-6 font-bold text-slate-200">Scoop</th>
+                    <th className="text-right py-3 px-6 font-bold text-slate-200">Quartered</th>
+                  </>
+                )}
+                <th className="text-right py-3 px-6 font-bold text-slate-200">Equity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.equity.map((player, index) => (
+                <tr key={index} className="border-b border-slate-600/30">
+                  <td className="py-3 px-6 font-medium text-slate-200">
+                    {index === 0 ? 'You' : `Opponent ${index}`}
+                    <span className="ml-2 text-slate-400">
+                      {player.holeCards.length > 0 ? player.holeCards.map(card => card.display).join(' ') : player.range ?? 'Random'}
+                    </span>
+                  </td>
+                  <td className="text-right py-3 px-6 text-green-400 font-medium">{player.winPercentage.toFixed(2)}%</td>
+                  <td className="text-right py-3 px-6 text-slate-300 font-medium">{player.tiePercentage.toFixed(2)}%</td>
+                  <td className="text-right py-3 px-6 text-red-400 font-medium">{player.losePercentage.toFixed(2)}%</td>
+                  {player.splitPot && (
+                    <>
+                      <td className="text-right py-3 px-6 text-slate-300 font-medium">{player.splitPot.highEquity.toFixed(2)}%</td>
+                      <td className="text-right py-3 px-6 text-slate-300 font-medium">{player.splitPot.lowEquity.toFixed(2)}%</td>
+                      <td className="text-right py-3 px-6 text-green-400 font-medium">{player.splitPot.scoopPercentage.toFixed(2)}%</td>
+                      <td className="text-right py-3 px-6 text-amber-400 font-medium">{player.splitPot.quarteredPercentage.toFixed(2)}%</td>
+                    </>
+                  )}
+                  <td className="text-right py-3 px-6 text-slate-100 font-bold">
+                    {player.equity.toFixed(2)}%
+                    {/* Sampled equity carries a 95% margin of error */}
+                    {player.standardError > 0 && (
+                      <div className="text-xs font-normal text-slate-400" title="95% confidence interval">
+                        ±{(((player.confidenceInterval.upper - player.confidenceInterval.lower) / 2) * 100).toFixed(2)}%
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Outs on the flop and turn */}
+      {results.outs && (
+        <div className="mb-6 rounded-xl border border-amber-500/30 bg-gradient-to-br from-amber-900/30 to-slate-800/50 p-5" data-testid="outs-panel">
+          <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+            <h3 className="text-lg font-bold text-amber-200">🎯 Outs: {results.outs.totalOuts}</h3>
+            <span className="text-sm text-slate-300">
+              {results.outs.cleanOuts} clean, {results.outs.dirtyOuts} dirty
+            </span>
+          </div>
+          {results.draws && results.draws.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3" data-testid="draws">
+              {results.draws.map(draw => (
+                <span key={draw.type} className="px-2 py-0.5 rounded-full bg-amber-600/30 text-amber-100 text-sm">
+                  {draw.description}{draw.outCount > 0 ? ` · ${draw.outCount} outs` : ''}
+                </span>
+              ))}
+            </div>
+          )}
+          {results.outs.groups.map(group => (
+            <div key={group.handType} className="flex flex-wrap items-center gap-2 py-1">
+              <span className="w-36 text-slate-200 font-medium">{HAND_NAMES[group.handType]} ({group.outs.length})</span>
+              {group.outs.map(out => (
+                <span
+                  key={out.card.id}
+                  title={out.isDirty ? `Dirty: ${out.dirtyReasons.join(', ')}` : 'Clean'}
+                  className={`px-1.5 rounded font-mono text-sm ${out.isDirty ? 'bg-red-900/40 text-red-200' : 'bg-amber-500/20 text-amber-100'}`}
+                >
+                  {out.card.display}
+                </span>
+              ))}
+            </div>
+          ))}
+          <div className="mt-3 grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm text-slate-300">
+            <span>Rule of {results.outs.cardsToCome === 2 ? 4 : 2}: {results.outs.ruleOfThumb.toFixed(1)}%</span>
+            <span>Exact: {results.outs.exactPercentage.toFixed(1)}%</span>
+            <span>Clean only: {results.outs.cleanExactPercentage.toFixed(1)}%</span>
+          </div>
+        </div>
+      )}
+
       {/* Enhanced Probability Table */}
       <div className="overflow-hidden rounded-xl border border-slate-600/50 bg-gradient-to-br from-slate-800/50 to-slate-700/50">
         <div className="overflow-x-auto">
@@ -158,6 +284,12 @@ export const ResultsDisplay = memo(function ResultsDisplay({
                     </td>
                     <td className="text-right py-4 px-6 text-slate-300 font-medium">
                       {prob.occurrences.toLocaleString()}
+                      {/* Sampled results carry a 95% margin of error */}
+                      {prob.standardError > 0 && (
+                        <div className="text-xs text-slate-400" title="95% confidence interval">
+                          ±{(((prob.confidenceInterval.upper - prob.confidenceInterval.lower) / 2) * 100).toFixed(2)}%
+                        </div>
+                      )}
                     </td>
                   </tr>
                 )
@@ -0,0 +1,116 @@
+import { memo } from 'react'
+import { Card } from '../Cards/Card'
+import type { Card as CardType } from '../../types/card'
+import { STUD_STREETS, STUD_DOWN_CARD_POSITIONS, MAX_STUD_PLAYERS, type StudOpponent, type StudStreet } from '../../types/game'
+
+interface StudTableProps {
+  playerCards: (CardType | undefined)[] // Seven slots in deal order
+  opponents: StudOpponent[]
+  street?: StudStreet // Street the player is on, once they hold three cards
+  onPlayerCardClick: (index: number) => void
+  onOpponentCardClick: (seat: number, index: number) => void
+  onAddOpponent: () => void
+  onFoldOpponent: (seat: number) => void
+  selectedSlot?: { type: string, index: number, seat?: number } | null
+  className?: string
+}
+
+const STREET_LABELS = ['3rd', '3rd', '3rd', '4th', '5th', '6th', '7th']
+
+/**
+ * Labels a stud card slot by deal order, e.g. "Down Card 1" or "Up Card 2"
+ */
+export function getStudCardLabel(position: number): string {
+  const downIndex = STUD_DOWN_CARD_POSITIONS.indexOf(position)
+  if (downIndex >= 0) return `Down Card ${downIndex + 1}`
+
+  return `Up Card ${position - STUD_DOWN_CARD_POSITIONS.filter(down => down < position).length + 1}`
+}
+
+export const StudTable = memo(function StudTable({
+  playerCards,
+  opponents,
+  street,
+  onPlayerCardClick,
+  onOpponentCardClick,
+  onAddOpponent,
+  onFoldOpponent,
+  selectedSlot,
+  className = ''
+}: StudTableProps) {
+  // Opponents show as many up-cards as the street has dealt
+  const upCardCount = STUD_STREETS[street ?? STUD_STREETS.third.street].upCards
+
+  return (
+    <div className={`space-y-8 ${className}`} data-testid="stud-table">
+      {/* Opponents' up-cards */}
+      <div className="text-center">
+        <div className="inline-block bg-black/30 backdrop-blur-sm rounded-3xl p-6 border border-yellow-400/20">
+          <h3 className="text-yellow-300 text-lg font-bold mb-1 text-shadow">Opponents</h3>
+          <p className="text-yellow-100/70 text-xs mb-4">Up-cards showing; folding an opponent makes their up-cards dead</p>
+          <div className="flex flex-wrap justify-center gap-6">
+            {opponents.map((opponent, seat) => (
+              <div key={seat} className="bg-black/30 rounded-2xl p-4 border border-yellow-500/20" data-testid="stud-opponent">
+                <div className="flex items-center justify-between gap-4 mb-3">
+                  <span className="text-yellow-100 font-bold">Opponent {seat + 1}</span>
+                  <button
+                    onClick={() => onFoldOpponent(seat)}
+                    className="px-3 py-1 bg-red-700 hover:bg-red-800 rounded-lg text-white text-sm font-bold"
+                  >
+                    Fold Opponent {seat + 1}
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  {opponent.upCards.slice(0, upCardCount).map((card, index) => (
+                    <Card
+                      key={index}
+                      card={card}
+                      onClick={() => onOpponentCardClick(seat, index)}
+                      selected={selectedSlot?.type === 'opponent' && selectedSlot.seat === seat && selectedSlot.index === index}
+                      placeholder={`Opponent ${seat + 1} Up Card ${index + 1}`}
+                      size="small"
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          {opponents.length < MAX_STUD_PLAYERS - 1 && (
+            <button
+              onClick={onAddOpponent}
+              className="mt-4 px-4 py-2 bg-gradient-to-r from-yellow-500 to-yellow-400 text-yellow-900 rounded-lg font-bold shadow-lg"
+            >
+              Add Opponent
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Player's cards in deal order */}
+      <div className="text-center">
+        <div className="inline-block bg-black/40 backdrop-blur-sm rounded-2xl p-6 border border-yellow-500/30">
+          <h3 className="text-yellow-400 text-xl font-bold mb-4 text-shadow">Your Cards</h3>
+          <div className="flex flex-wrap justify-center gap-2">
+            {playerCards.map((card, index) => (
+              <div key={index} className="flex flex-col items-center gap-1">
+                <Card
+                  card={card}
+                  onClick={() => onPlayerCardClick(index)}
+                  selected={selectedSlot?.type === 'player' && selectedSlot.index === index}
+                  placeholder={getStudCardLabel(index)}
+                  size="medium"
+                  className={STUD_DOWN_CARD_POSITIONS.includes(index) ? 'ring-2 ring-slate-500/60' : ''}
+                />
+                <span className="text-yellow-100/70 text-xs">
+                  {STREET_LABELS[index]} · {STUD_DOWN_CARD_POSITIONS.includes(index) ? 'down' : 'up'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+})
+
+export default StudTable
\ No newline at end of file
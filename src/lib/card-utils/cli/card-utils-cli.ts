@@ -6,7 +6,8 @@
  */
 
 import { Command } from 'commander'
-import { createCard, createDeck, validateCards, parseCard, compareCards, getConstants } from '../src/card-utils'
+import { createCard, createDeck, shuffleDeck, validateCards, parseCard, compareCards, getConstants } from '../src/card-utils'
+import { createRng, createSeed } from '../src/random'
 
 const program = new Command()
 
@@ -43,14 +44,16 @@ program
   .description('Create a deck of cards')
   .option('-c, --count', 'Show card count only')
   .option('-s, --shuffle', 'Shuffle the deck')
+  .option('--seed <n>', 'Seed for a reproducible shuffle (32-bit integer)')
+  .option('--short', 'Build a 36-card short deck (6 through A)')
   .action((options) => {
     try {
-      let deck = createDeck()
+      let deck = createDeck(options.short ? 'short' : 'standard')
       
       if (options.shuffle) {
-        // Import shuffle function
-        const { shuffleDeck } = require('../src/deck')
-        deck = shuffleDeck(deck)
+        const seed = options.seed !== undefined ? Number(options.seed) : createSeed()
+        deck = shuffleDeck(deck, createRng(seed))
+        console.error(`Seed: ${seed}`)
       }
       
       if (options.count) {
@@ -172,6 +175,8 @@ Create a deck:
   card-utils deck
   card-utils deck --count
   card-utils deck --shuffle
+  card-utils deck --shuffle --seed 42
+  card-utils deck --short --count
 
 Validate cards:
   card-utils validate --cards "AS,KH,QD"
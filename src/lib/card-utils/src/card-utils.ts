@@ -6,6 +6,7 @@
 import type { 
   Card, 
   Deck, 
+  DeckType,
   Suit, 
   Rank, 
   ValidationResult, 
@@ -18,8 +19,13 @@ import {
   SUIT_SYMBOLS, 
   SUIT_ABBREVIATIONS, 
   CARD_VALUES, 
-  CARD_VALUES_ACE_LOW 
+  CARD_VALUES_ACE_LOW,
+  DECK_RANKS
 } from '../../../types/card'
+import { MAX_OPPONENTS } from '../../../types/poker'
+import type { GameVariant } from '../../../types/game'
+import { GAME_VARIANTS, DEFAULT_GAME_VARIANT } from '../../../types/game'
+import type { RandomGenerator } from './random'
 
 /**
  * Creates a playing card with all required properties
@@ -46,13 +52,13 @@ export function createCard(suit: Suit, rank: Rank): Card {
 }
 
 /**
- * Creates a complete deck of 52 playing cards
+ * Creates a complete deck: 52 playing cards, or 36 (6 through A) for a short deck
  */
-export function createDeck(): Deck {
+export function createDeck(deck: DeckType = 'standard'): Deck {
   const availableCards: Card[] = []
 
   for (const suit of SUITS) {
-    for (const rank of RANKS) {
+    for (const rank of DECK_RANKS[deck]) {
       availableCards.push(createCard(suit, rank))
     }
   }
@@ -60,18 +66,19 @@ export function createDeck(): Deck {
   return {
     availableCards,
     usedCards: [],
-    totalCards: 52
+    totalCards: availableCards.length
   }
 }
 
 /**
  * Shuffles the available cards in a deck using Fisher-Yates algorithm
+ * (pass a seeded generator from createRng for a reproducible order)
  */
-export function shuffleDeck(deck: Deck): Deck {
+export function shuffleDeck(deck: Deck, random: RandomGenerator = Math.random): Deck {
   const shuffledCards = [...deck.availableCards]
   
   for (let i = shuffledCards.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
+    const j = Math.floor(random() * (i + 1))
     ;[shuffledCards[i], shuffledCards[j]] = [shuffledCards[j], shuffledCards[i]]
   }
 
@@ -98,15 +105,15 @@ export function dealCards(deck: Deck, count: number): { dealtCards: Card[], rema
     remainingDeck: {
       availableCards: remainingAvailable,
       usedCards: newUsedCards,
-      totalCards: 52
+      totalCards: deck.totalCards
     }
   }
 }
 
 /**
- * Validates array of cards for duplicates and correctness
+ * Validates array of cards for duplicates and correctness, and that each card is in the deck being played
  */
-export function validateCards(cards: Card[]): ValidationResult {
+export function validateCards(cards: Card[], deck: DeckType = 'standard'): ValidationResult {
   const errors: ValidationError[] = []
   const seenIds = new Set<string>()
 
@@ -136,6 +143,12 @@ export function validateCards(cards: Card[]): ValidationResult {
         message: `Invalid rank: ${card.rank}`,
         field: card.id
       })
+    } else if (!DECK_RANKS[deck].includes(card.rank)) {
+      errors.push({
+        code: 'CARD_NOT_IN_DECK',
+        message: `${card.display} is not in a ${deck} deck`,
+        field: card.id
+      })
     }
 
     // Validate derived properties
@@ -173,27 +186,29 @@ export function validateCards(cards: Card[]): ValidationResult {
 }
 
 /**
- * Validates poker hand configuration for specific game stage
+ * Validates poker hand configuration for specific game stage (and the variant's hole card count)
  */
 export function validatePokerHand(
   playerHand: Card[], 
   communityCards: Card[], 
-  stage: string
+  stage: string,
+  variant: GameVariant = DEFAULT_GAME_VARIANT
 ): ValidationResult {
   const errors: ValidationError[] = []
   const allCards = [...playerHand, ...communityCards]
 
-  // First validate all cards individually
-  const cardValidation = validateCards(allCards)
+  // First validate all cards individually, against the variant's deck
+  const cardValidation = validateCards(allCards, GAME_VARIANTS[variant]?.deck)
   if (!cardValidation.isValid) {
     errors.push(...cardValidation.errors)
   }
 
   // Validate player hand size
-  if (stage !== 'pre-flop' && playerHand.length !== 2) {
+  const holeCards = GAME_VARIANTS[variant]?.holeCards ?? 2
+  if (stage !== 'pre-flop' && playerHand.length !== holeCards) {
     errors.push({
       code: 'INVALID_PLAYER_HAND_SIZE',
-      message: `Player hand must have exactly 2 cards, got ${playerHand.length}`
+      message: `Player hand must have exactly ${holeCards} cards, got ${playerHand.length}`
     })
   }
 
@@ -219,6 +234,55 @@ export function validatePokerHand(
   }
 }
 
+/**
+ * Validates opponent hole cards against each other and the known cards
+ */
+export function validateOpponentHands(
+  opponentHands: Card[][],
+  knownCards: Card[],
+  randomOpponents: number = 0,
+  rangeOpponents: number = 0,
+  holeCards: number = 2,
+  deck: DeckType = 'standard'
+): ValidationResult {
+  const errors: ValidationError[] = []
+
+  if (!Number.isInteger(randomOpponents) || randomOpponents < 0) {
+    errors.push({
+      code: 'INVALID_OPPONENT_COUNT',
+      message: `Random opponent count must be a non-negative integer, got ${randomOpponents}`
+    })
+  }
+
+  const totalOpponents = opponentHands.length + randomOpponents + rangeOpponents
+  if (totalOpponents > MAX_OPPONENTS) {
+    errors.push({
+      code: 'TOO_MANY_PLAYERS',
+      message: `A table allows at most ${MAX_OPPONENTS} opponents, got ${totalOpponents}`
+    })
+  }
+
+  opponentHands.forEach((hand, index) => {
+    if (hand.length !== holeCards) {
+      errors.push({
+        code: 'INVALID_OPPONENT_HAND_SIZE',
+        message: `Opponent ${index + 1} must have exactly ${holeCards} cards, got ${hand.length}`
+      })
+    }
+  })
+
+  // Opponent cards must not collide with each other or with the known cards
+  const cardValidation = validateCards([...knownCards, ...opponentHands.flat()], deck)
+  if (!cardValidation.isValid) {
+    errors.push(...cardValidation.errors)
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  }
+}
+
 /**
  * Parses card from string representation (e.g., "AS", "KH", "10D")
  */
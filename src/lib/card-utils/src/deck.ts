@@ -3,15 +3,23 @@
  * Advanced deck operations and management functions
  */
 
-import type { Card, Deck } from '../../../types/card'
+import type { Card, Deck, DeckType } from '../../../types/card'
+import { DECK_SIZES } from '../../../types/card'
 import { createDeck, dealCards, shuffleDeck } from './card-utils'
+import type { RandomGenerator } from './random'
+
+export interface SimulatedTable {
+  seats: Card[][] // Hole cards for every seat, in seat order
+  board: Card[] // Complete 5-card board
+  weight?: number // Tables this one stands for when suit-isomorphic run-outs are enumerated once (1 when omitted)
+}
 
 /**
  * Creates a shuffled deck ready for dealing
  */
-export function createShuffledDeck(): Deck {
-  const deck = createDeck()
-  return shuffleDeck(deck)
+export function createShuffledDeck(random: RandomGenerator = Math.random, deckType: DeckType = 'standard'): Deck {
+  const deck = createDeck(deckType)
+  return shuffleDeck(deck, random)
 }
 
 /**
@@ -26,15 +34,15 @@ export function removeCardsFromDeck(deck: Deck, cardsToRemove: Card[]): Deck {
   return {
     availableCards,
     usedCards,
-    totalCards: 52
+    totalCards: deck.totalCards
   }
 }
 
 /**
- * Gets remaining cards after removing known cards
+ * Gets remaining cards of a deck after removing known cards
  */
-export function getRemainingCards(knownCards: Card[]): Card[] {
-  const fullDeck = createDeck()
+export function getRemainingCards(knownCards: Card[], deck: DeckType = 'standard'): Card[] {
+  const fullDeck = createDeck(deck)
   const knownIds = new Set(knownCards.map(card => card.id))
   
   return fullDeck.availableCards.filter(card => !knownIds.has(card.id))
@@ -63,26 +71,32 @@ export function dealHands(deck: Deck, numHands: number, cardsPerHand: number): {
 }
 
 /**
- * Simulates dealing cards for Monte Carlo calculations
+ * Simulates dealing cards for Monte Carlo calculations, topping the known cards up to the hand size
+ * (7 for Hold'em hole cards plus board). Dead cards are out of play: never dealt and not part of the hand.
  */
 export function simulateDeal(
   knownCards: Card[], 
-  numSimulations: number = 1000
+  numSimulations: number = 1000,
+  random: RandomGenerator = Math.random,
+  deadCards: Card[] = [],
+  handSize: number = 7,
+  deck: DeckType = 'standard'
 ): Card[][] {
   const simulations: Card[][] = []
-  const availableCards = getRemainingCards(knownCards)
+  const availableCards = getRemainingCards([...knownCards, ...deadCards], deck)
+  const totalCards = DECK_SIZES[deck]
 
   for (let i = 0; i < numSimulations; i++) {
     // Create a deck with only unknown cards
     const simulationDeck: Deck = {
       availableCards: [...availableCards],
-      usedCards: [...knownCards],
-      totalCards: 52
+      usedCards: [...knownCards, ...deadCards],
+      totalCards
     }
 
     // Shuffle and deal
-    const shuffled = shuffleDeck(simulationDeck)
-    const neededCards = 7 - knownCards.length // Total cards needed for full hand
+    const shuffled = shuffleDeck(simulationDeck, random)
+    const neededCards = handSize - knownCards.length // Total cards needed for full hand
     
     if (neededCards > 0) {
       const dealt = dealCards(shuffled, Math.min(neededCards, shuffled.availableCards.length))
@@ -95,6 +109,118 @@ export function simulateDeal(
   return simulations
 }
 
+/**
+ * Simulates dealing a full table (every seat plus the board) for Monte Carlo equity calculations.
+ * Seats keep their known cards and are topped up to the seat size with random cards from the remaining deck
+ * (an empty seat is dealt a whole hand, a stud seat the cards it has not shown). Dead cards are never dealt.
+ */
+export function simulateTableDeal(
+  seats: Card[][],
+  communityCards: Card[],
+  numSimulations: number = 1000,
+  cardsPerSeat: number = 2,
+  random: RandomGenerator = Math.random,
+  deadCards: Card[] = [],
+  deck: DeckType = 'standard',
+  boardSize: number = 5
+): SimulatedTable[] {
+  const simulations: SimulatedTable[] = []
+  const knownCards = [...seats.flat(), ...communityCards, ...deadCards]
+  const availableCards = getRemainingCards(knownCards, deck)
+  const totalCards = DECK_SIZES[deck]
+  const seatCardsNeeded = seats.reduce((total, seat) => total + cardsPerSeat - seat.length, 0)
+  const boardCardsNeeded = boardSize - communityCards.length
+
+  if (seatCardsNeeded + boardCardsNeeded > availableCards.length) {
+    throw new Error('INSUFFICIENT_CARDS')
+  }
+
+  for (let i = 0; i < numSimulations; i++) {
+    const simulationDeck: Deck = {
+      availableCards: [...availableCards],
+      usedCards: [...knownCards],
+      totalCards
+    }
+
+    let currentDeck = shuffleDeck(simulationDeck, random)
+
+    // Complete the seats first, then the board
+    const dealtSeats = seats.map(seat => {
+      if (seat.length >= cardsPerSeat) return seat
+
+      const dealt = dealCards(currentDeck, cardsPerSeat - seat.length)
+      currentDeck = dealt.remainingDeck
+      return [...seat, ...dealt.dealtCards]
+    })
+
+    const board = boardCardsNeeded > 0
+      ? [...communityCards, ...dealCards(currentDeck, boardCardsNeeded).dealtCards]
+      : [...communityCards]
+
+    simulations.push({ seats: dealtSeats, board })
+  }
+
+  return simulations
+}
+
+/**
+ * Enumerates every way to complete the board from the remaining cards (for exact calculations).
+ * Known cards are every card that cannot come on the board: hole cards and dead cards.
+ */
+export function* enumerateBoards(
+  knownCards: Card[],
+  communityCards: Card[],
+  deck: DeckType = 'standard',
+  boardSize: number = 5
+): Generator<Card[]> {
+  const availableCards = getRemainingCards([...knownCards, ...communityCards], deck)
+  const neededCards = boardSize - communityCards.length
+
+  for (const combination of enumerateCombinations(availableCards, neededCards)) {
+    yield [...communityCards, ...combination]
+  }
+}
+
+/**
+ * Enumerates all k-card combinations of the given cards in lexicographic order
+ */
+export function* enumerateCombinations<T = Card>(cards: T[], k: number): Generator<T[]> {
+  if (k < 0 || k > cards.length) return
+
+  const indexes = Array.from({ length: k }, (_, i) => i)
+
+  while (true) {
+    yield indexes.map(index => cards[index])
+
+    // Find the rightmost index that can still move forward
+    let position = k - 1
+    while (position >= 0 && indexes[position] === cards.length - k + position) {
+      position--
+    }
+
+    if (position < 0) return
+
+    indexes[position]++
+    for (let i = position + 1; i < k; i++) {
+      indexes[i] = indexes[i - 1] + 1
+    }
+  }
+}
+
+/**
+ * Counts k-card combinations from n cards (n choose k)
+ */
+export function countCombinations(n: number, k: number): number {
+  if (k < 0 || k > n) return 0
+
+  let result = 1
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i
+  }
+
+  return result
+}
+
 /**
  * Calculates deck statistics
  */
@@ -126,7 +252,7 @@ export function getDeckStats(deck: Deck): {
   return {
     availableCount: deck.availableCards.length,
     usedCount: deck.usedCards.length,
-    availablePercentage: (deck.availableCards.length / 52) * 100,
+    availablePercentage: (deck.availableCards.length / deck.totalCards) * 100,
     suitCounts,
     rankCounts
   }
@@ -140,8 +266,8 @@ export function canDealCards(deck: Deck, count: number): boolean {
 }
 
 /**
- * Resets deck to full 52 cards
+ * Resets deck to a full deck (52 cards, or 36 for a short deck)
  */
-export function resetDeck(): Deck {
-  return createDeck()
+export function resetDeck(deck: DeckType = 'standard'): Deck {
+  return createDeck(deck)
 }
\ No newline at end of file
@@ -0,0 +1,140 @@
+/**
+ * Suit Isomorphism
+ * Outcomes depend on which cards share a suit, never on the suit names: pre-flop AhKh and AsKs are the same problem.
+ * Functions for relabeling suits to a canonical representative and for enumerating only one board per suit family.
+ */
+
+import type { Card, DeckType, Suit } from '../../../types/card'
+import { SUITS } from '../../../types/card'
+import { createCard } from './card-utils'
+import { enumerateBoards } from './deck'
+
+export interface CanonicalCards {
+  groups: Card[][] // The input groups with suits relabeled, cards in input order
+  suitMap: Record<Suit, Suit> // Original suit -> canonical suit
+  key: string // Identical for every suit-isomorphic input
+}
+
+export interface WeightedBoard {
+  board: Card[]
+  weight: number // Boards in the suit family this board stands for
+}
+
+// Every relabeling of the four suits, as the index of the suit each suit index maps to
+const SUIT_PERMUTATIONS = createSuitPermutations([0, 1, 2, 3])
+
+/**
+ * Maps groups of cards (e.g. hole cards, board, dead cards) to their suit-isomorphic representative.
+ * Groups keep their roles and order; cards within a group are treated as unordered.
+ */
+export function canonicalizeSuits(groups: Card[][]): CanonicalCards {
+  let bestKey: string | null = null
+  let bestPermutation = SUIT_PERMUTATIONS[0]
+
+  for (const permutation of SUIT_PERMUTATIONS) {
+    const key = groups
+      .map(group => group.map(card => encodeCard(card, permutation)).sort((a, b) => a - b).join(','))
+      .join('|')
+
+    if (bestKey === null || key < bestKey) {
+      bestKey = key
+      bestPermutation = permutation
+    }
+  }
+
+  const suitMap = Object.fromEntries(SUITS.map((suit, index) => [suit, SUITS[bestPermutation[index]]])) as Record<Suit, Suit>
+
+  return {
+    groups: groups.map(group => relabelSuits(group, suitMap)),
+    suitMap,
+    key: bestKey ?? ''
+  }
+}
+
+/**
+ * Relabels the suits of cards through a suit map
+ */
+export function relabelSuits(cards: Card[], suitMap: Record<Suit, Suit>): Card[] {
+  return cards.map(card => createCard(suitMap[card.suit], card.rank))
+}
+
+/**
+ * Enumerates board run-outs with the known cards fixed, yielding one board per suit family weighted by the
+ * family's size. Weights sum to the number of boards enumerateBoards would yield.
+ */
+export function* enumerateIsomorphicBoards(
+  fixedGroups: Card[][],
+  communityCards: Card[],
+  deck: DeckType = 'standard',
+  boardSize: number = 5
+): Generator<WeightedBoard> {
+  const symmetries = findSuitSymmetries([...fixedGroups, communityCards])
+
+  for (const board of enumerateBoards(fixedGroups.flat(), communityCards, deck, boardSize)) {
+    const weight = symmetries.length === 1 ? 1 : weighBoard(board, symmetries)
+    if (weight > 0) {
+      yield { board, weight }
+    }
+  }
+}
+
+/**
+ * Finds the suit relabelings that leave every group unchanged (always including the identity)
+ */
+function findSuitSymmetries(groups: Card[][]): number[][] {
+  const getGroupKeys = (permutation: number[]) => groups.map(group =>
+    group.map(card => encodeCard(card, permutation)).sort((a, b) => a - b).join(',')
+  )
+  const identityKeys = getGroupKeys(SUIT_PERMUTATIONS[0]).join('|')
+
+  return SUIT_PERMUTATIONS.filter(permutation => getGroupKeys(permutation).join('|') === identityKeys)
+}
+
+/**
+ * Weighs a board against the symmetries of the known cards: 0 unless it is the smallest board of its suit family,
+ * otherwise the family's size (symmetries over those that map the board to itself)
+ */
+function weighBoard(board: Card[], symmetries: number[][]): number {
+  const codes = board.map(card => encodeCard(card, SUIT_PERMUTATIONS[0])).sort((a, b) => a - b)
+  let fixingSymmetries = 0
+
+  for (const permutation of symmetries) {
+    const mapped = codes.map(code => relabelCode(code, permutation)).sort((a, b) => a - b)
+    const order = compareCodes(mapped, codes)
+
+    if (order < 0) return 0
+    if (order === 0) fixingSymmetries++
+  }
+
+  return symmetries.length / fixingSymmetries
+}
+
+/**
+ * Encodes a card as value * 4 + suit index, with the suit relabeled
+ */
+function encodeCard(card: Card, permutation: number[]): number {
+  return card.value * 4 + permutation[SUITS.indexOf(card.suit)]
+}
+
+function relabelCode(code: number, permutation: number[]): number {
+  return code - (code & 3) + permutation[code & 3]
+}
+
+function compareCodes(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i]
+  }
+
+  return 0
+}
+
+/**
+ * Lists every ordering of the given items, the input order first
+ */
+function createSuitPermutations(items: number[]): number[][] {
+  if (items.length <= 1) return [items]
+
+  return items.flatMap((item, index) =>
+    createSuitPermutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  )
+}
\ No newline at end of file
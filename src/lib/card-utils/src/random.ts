@@ -0,0 +1,65 @@
+/**
+ * Random Number Generation
+ * Seedable pseudo-random generators so simulations can be replayed exactly
+ */
+
+// Returns a float in [0, 1), like Math.random
+export type RandomGenerator = () => number
+
+const UINT32_RANGE = 0x100000000
+
+/**
+ * Creates a xoshiro128** generator from a 32-bit integer seed; the same seed always yields the same sequence
+ */
+export function createRng(seed: number): RandomGenerator {
+  if (!isValidSeed(seed)) {
+    throw new Error('INVALID_SEED')
+  }
+
+  // Expand the seed into the 128-bit state with splitmix32
+  let splitMixState = seed >>> 0
+  const nextSplitMix = (): number => {
+    splitMixState = (splitMixState + 0x9e3779b9) >>> 0
+    let z = splitMixState
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b)
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35)
+    return (z ^ (z >>> 16)) >>> 0
+  }
+
+  let a = nextSplitMix()
+  let b = nextSplitMix()
+  let c = nextSplitMix()
+  let d = nextSplitMix()
+
+  return () => {
+    const result = Math.imul(rotateLeft(Math.imul(b, 5), 7), 9) >>> 0
+    const shifted = b << 9
+
+    c ^= a
+    d ^= b
+    b ^= c
+    a ^= d
+    c ^= shifted
+    d = rotateLeft(d, 11)
+
+    return result / UINT32_RANGE
+  }
+}
+
+/**
+ * Checks that a seed is an unsigned 32-bit integer, so distinct seeds never wrap onto the same sequence
+ */
+export function isValidSeed(seed: number): boolean {
+  return Number.isInteger(seed) && seed >= 0 && seed < UINT32_RANGE
+}
+
+/**
+ * Picks a fresh 32-bit seed for runs that did not ask for one
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * UINT32_RANGE)
+}
+
+function rotateLeft(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits))
+}
\ No newline at end of file
@@ -0,0 +1,101 @@
+/**
+ * Starting Hand Utilities
+ * Functions for grouping hole cards into the 169 starting-hand classes (e.g. "AA", "AKs", "T9o")
+ */
+
+import type { Card, Rank } from '../../../types/card'
+import { SUITS } from '../../../types/card'
+import { createCard } from './card-utils'
+
+// Ranks from highest to lowest, using "T" for ten as in standard hand notation
+export const HAND_CLASS_RANKS = ['A', 'K', 'Q', 'J', 'T', '9', '8', '7', '6', '5', '4', '3', '2'] as const
+
+export type HandClassRank = typeof HAND_CLASS_RANKS[number]
+
+/**
+ * Converts a card rank to its single-character hand notation
+ */
+export function toHandClassRank(rank: Rank): HandClassRank {
+  return (rank === '10' ? 'T' : rank) as HandClassRank
+}
+
+/**
+ * Converts a single-character hand notation rank back to a card rank
+ */
+export function fromHandClassRank(rank: HandClassRank): Rank {
+  return rank === 'T' ? '10' : rank
+}
+
+/**
+ * Gets the starting-hand class of two hole cards (e.g. "AKs", "QJo", "77")
+ */
+export function getStartingHandClass(holeCards: Card[]): string {
+  if (holeCards.length !== 2) {
+    throw new Error('INVALID_PLAYER_HAND_SIZE')
+  }
+
+  const [high, low] = [...holeCards].sort((a, b) => b.value - a.value)
+  const highRank = toHandClassRank(high.rank)
+  const lowRank = toHandClassRank(low.rank)
+
+  if (highRank === lowRank) {
+    return `${highRank}${lowRank}`
+  }
+
+  return `${highRank}${lowRank}${high.suit === low.suit ? 's' : 'o'}`
+}
+
+/**
+ * Lists all 169 starting-hand classes, highest ranks first
+ */
+export function getStartingHandClasses(): string[] {
+  const classes: string[] = []
+
+  HAND_CLASS_RANKS.forEach((highRank, i) => {
+    HAND_CLASS_RANKS.forEach((lowRank, j) => {
+      if (i === j) {
+        classes.push(`${highRank}${lowRank}`)
+      } else if (i < j) {
+        classes.push(`${highRank}${lowRank}s`, `${highRank}${lowRank}o`)
+      }
+    })
+  })
+
+  return classes
+}
+
+/**
+ * Lists every concrete hole-card combination of a starting-hand class
+ * (6 for pairs, 4 for suited hands, 12 for offsuit hands)
+ */
+export function getStartingHandCombos(handClass: string): Card[][] {
+  const highRank = handClass.charAt(0) as HandClassRank
+  const lowRank = handClass.charAt(1) as HandClassRank
+  const suitedness = handClass.charAt(2)
+
+  if (!HAND_CLASS_RANKS.includes(highRank) || !HAND_CLASS_RANKS.includes(lowRank)) {
+    throw new Error('INVALID_HAND_CLASS')
+  }
+
+  const isPair = highRank === lowRank
+  if ((isPair && suitedness !== '') || (!isPair && suitedness !== 's' && suitedness !== 'o')) {
+    throw new Error('INVALID_HAND_CLASS')
+  }
+
+  const combos: Card[][] = []
+
+  SUITS.forEach((firstSuit, i) => {
+    SUITS.forEach((secondSuit, j) => {
+      if (isPair && j <= i) return
+      if (suitedness === 's' && i !== j) return
+      if (suitedness === 'o' && i === j) return
+
+      combos.push([
+        createCard(firstSuit, fromHandClassRank(highRank)),
+        createCard(secondSuit, fromHandClassRank(lowRank))
+      ])
+    })
+  })
+
+  return combos
+}
\ No newline at end of file
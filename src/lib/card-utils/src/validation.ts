@@ -4,31 +4,41 @@
  */
 
 import type { Card, ValidationResult, ValidationError } from '../../../types/card'
-import { GameStage } from '../../../types/game'
+import {
+  GameStage,
+  GAME_VARIANTS,
+  DEFAULT_GAME_VARIANT,
+  STUD_STREETS,
+  MAX_STUD_PLAYERS,
+  type GameVariant,
+  type StudStreet
+} from '../../../types/game'
 import { validateCards } from './card-utils'
 
 /**
- * Validates that cards are suitable for Texas Hold'em poker
+ * Validates that cards are suitable for Texas Hold'em poker, or another community-card variant such as Omaha
  */
 export function validateTexasHoldemCards(
   playerHand: Card[],
   communityCards: Card[],
-  stage: GameStage
+  stage: GameStage,
+  variant: GameVariant = DEFAULT_GAME_VARIANT
 ): ValidationResult {
+  const { holeCards, deck } = GAME_VARIANTS[variant]
   const errors: ValidationError[] = []
 
   // Basic card validation first
   const allCards = [...playerHand, ...communityCards]
-  const basicValidation = validateCards(allCards)
+  const basicValidation = validateCards(allCards, deck)
   if (!basicValidation.isValid) {
     return basicValidation
   }
 
   // Player hand validation
-  if (playerHand.length > 2) {
+  if (playerHand.length > holeCards) {
     errors.push({
       code: 'TOO_MANY_HOLE_CARDS',
-      message: `Player can only have 2 hole cards, got ${playerHand.length}`
+      message: `Player can only have ${holeCards} hole cards, got ${playerHand.length}`
     })
   }
 
@@ -59,10 +69,10 @@ export function validateTexasHoldemCards(
   // Total card count validation
   const totalCards = playerHand.length + communityCards.length
   const maxCardsForStage: Record<GameStage, number> = {
-    'pre-flop': 2,
-    'flop': 5,
-    'turn': 6,
-    'river': 7
+    'pre-flop': holeCards,
+    'flop': holeCards + 3,
+    'turn': holeCards + 4,
+    'river': holeCards + 5
   }
 
   if (totalCards > maxCardsForStage[stage]) {
@@ -78,6 +88,83 @@ export function validateTexasHoldemCards(
   }
 }
 
+/**
+ * Gets the stud street a player holding this many cards is on, or undefined before third street
+ */
+export function getStudStreet(cardCount: number): StudStreet | undefined {
+  return Object.values(STUD_STREETS).find(rules => rules.cards === cardCount)?.street
+}
+
+/**
+ * Validates a seven-card stud table: the player's cards for the street, no board,
+ * and the up-cards each known opponent shows on that street
+ */
+export function validateStudHand(
+  playerCards: Card[],
+  communityCards: Card[],
+  opponentUpCards: Card[][],
+  street: string,
+  randomOpponents: number = 0
+): ValidationResult {
+  const errors: ValidationError[] = []
+  const streetRules = STUD_STREETS[street as StudStreet]
+
+  if (!streetRules) {
+    return {
+      isValid: false,
+      errors: [{ code: 'INVALID_STUD_STREET', message: `Unknown stud street: ${street}` }]
+    }
+  }
+
+  const cardValidation = validateCards([...playerCards, ...communityCards, ...opponentUpCards.flat()])
+  if (!cardValidation.isValid) {
+    errors.push(...cardValidation.errors)
+  }
+
+  if (playerCards.length !== streetRules.cards) {
+    errors.push({
+      code: 'INVALID_PLAYER_HAND_SIZE',
+      message: `Player must have exactly ${streetRules.cards} cards on ${street} street, got ${playerCards.length}`
+    })
+  }
+
+  if (communityCards.length > 0) {
+    errors.push({
+      code: 'INVALID_COMMUNITY_CARDS',
+      message: `Stud has no community cards, got ${communityCards.length}`
+    })
+  }
+
+  if (!Number.isInteger(randomOpponents) || randomOpponents < 0) {
+    errors.push({
+      code: 'INVALID_OPPONENT_COUNT',
+      message: `Random opponent count must be a non-negative integer, got ${randomOpponents}`
+    })
+  }
+
+  const totalPlayers = 1 + opponentUpCards.length + randomOpponents
+  if (totalPlayers > MAX_STUD_PLAYERS) {
+    errors.push({
+      code: 'TOO_MANY_STUD_PLAYERS',
+      message: `A stud table seats at most ${MAX_STUD_PLAYERS} players, got ${totalPlayers}`
+    })
+  }
+
+  opponentUpCards.forEach((upCards, index) => {
+    if (upCards.length !== streetRules.upCards) {
+      errors.push({
+        code: 'INVALID_STUD_UP_CARDS',
+        message: `Opponent ${index + 1} must show exactly ${streetRules.upCards} up-cards on ${street} street, got ${upCards.length}`
+      })
+    }
+  })
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  }
+}
+
 /**
  * Validates game progression rules
  */
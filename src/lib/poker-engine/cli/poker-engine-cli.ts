@@ -6,11 +6,35 @@
  */
 
 import { Command } from 'commander'
-import { calculateProbabilities, evaluateHand, checkHealth } from '../src/poker-engine'
+import { readFile, writeFile } from 'node:fs/promises'
+import { calculateProbabilities, evaluateHand, evaluateVariantHand, evaluateVariantLowHand, evaluateLowballHand, showdown, analyzeOuts, analyzeDraws, analyzeBoard, rankHoldings, getRelativeStrength, analyzeBet, checkHealth } from '../src/poker-engine'
+import { formatPotOdds } from '../src/betting'
+import { isStudVariant } from '../src/variants'
 import { parseCard } from '../../card-utils/src/card-utils'
+import { getStudStreet } from '../../card-utils/src/validation'
+import { isValidSeed } from '../../card-utils/src/random'
+import { GAME_VARIANTS, GameStage, LOWBALL_GAMES, type LowballGame } from '../../../types/game'
+import type { CachedCalculation } from '../../../types/poker'
+import { calculationCache, type CalculationCacheStorage } from '../../../utils/performance'
 
 const program = new Command()
 
+/**
+ * Keeps the calculation cache in a JSON file between runs (a missing or unreadable file starts empty)
+ */
+function createFileCacheStorage(path: string): CalculationCacheStorage<CachedCalculation> {
+  return {
+    load: async () => {
+      try {
+        return JSON.parse(await readFile(path, 'utf8'))
+      } catch {
+        return []
+      }
+    },
+    save: entries => writeFile(path, JSON.stringify(entries))
+  }
+}
+
 program
   .name('poker-engine')
   .description('Texas Hold\'em probability calculation engine')
@@ -20,16 +44,34 @@ program
 program
   .command('calculate')
   .description('Calculate hand probabilities')
-  .requiredOption('-p, --player <cards>', 'Player hole cards (e.g., "AS,AH")')
+  .option('-p, --player <cards>', 'Player hole cards (e.g., "AS,AH")', '')
+  .option('--range <range>', 'Player range instead of hole cards (e.g., "QQ+, AKs")')
   .option('-c, --community <cards>', 'Community cards (e.g., "KS,QH,JD")', '')
-  .option('-s, --stage <stage>', 'Game stage', 'pre-flop')
+  .option('-s, --stage <stage>', 'Game stage (third to seventh street in stud, where it defaults to the player\'s street)', 'pre-flop')
+  .option('-o, --opponents <hands>', 'Opponent hole cards, hands separated by ";" (e.g., "KS,KH;QD,QC"); up-cards showing in stud', '')
+  .option('-R, --opponent-ranges <ranges>', 'Opponent ranges, ranges separated by ";" (e.g., "QQ+, AK;22-99")', '')
+  .option('-r, --random-opponents <n>', 'Number of opponents with unknown cards (1-9)', '0')
+  .option('-d, --dead <cards>', 'Dead cards out of play, e.g. mucked or exposed (e.g., "7S,2D")', '')
+  .option('-g, --game <variant>', 'Game variant (holdem, shortdeck, plo4, plo5, plo8, stud, stud8)', 'holdem')
+  .option('--combos', 'Show the per-combo breakdown for ranges')
+  .option('--seed <n>', 'Seed for reproducible simulations (32-bit integer)')
+  .option('--precision <tolerance>', 'Simulate until every 95% interval (hand types and equity) is within ± this probability (e.g., 0.002)')
+  .option('--time-budget <ms>', 'Time allowed for --precision sampling in milliseconds')
   .option('-m, --method <method>', 'Calculation method (auto, lookup, simulation, exact)', 'auto')
+  .option('--cache-file <path>', 'Reuse results cached in this file and save new ones to it')
   .option('-f, --format <format>', 'Output format (json, table)', 'table')
   .action(async (options) => {
     try {
+      if (!options.player && options.range === undefined) {
+        throw new Error('Either --player or --range is required')
+      }
+
       // Parse player cards
-      const playerCardStrings = options.player.split(',')
-      const playerHand = playerCardStrings.map(cardStr => parseCard(cardStr.trim()))
+      let playerHand = []
+      if (options.player) {
+        const playerCardStrings = options.player.split(',')
+        playerHand = playerCardStrings.map(cardStr => parseCard(cardStr.trim()))
+      }
 
       // Parse community cards
       let communityCards = []
@@ -38,42 +80,157 @@ program
         communityCards = communityCardStrings.map(cardStr => parseCard(cardStr.trim()))
       }
 
+      // Parse opponent hands
+      let opponentHands = []
+      if (options.opponents) {
+        const handStrings = options.opponents.split(';')
+        opponentHands = handStrings.map(handStr => handStr.split(',').map(cardStr => parseCard(cardStr.trim())))
+      }
+
+      // Parse dead cards
+      const deadCards = options.dead
+        ? options.dead.split(',').map(cardStr => parseCard(cardStr.trim()))
+        : []
+
+      // A stud hand's street follows from the player's card count unless given
+      const isStud = options.game in GAME_VARIANTS && isStudVariant(options.game)
+      const stage = isStud && options.stage === 'pre-flop'
+        ? getStudStreet(playerHand.length) ?? options.stage
+        : options.stage
+
+      const cacheStorage = options.cacheFile ? createFileCacheStorage(options.cacheFile) : null
+      if (cacheStorage) {
+        calculationCache.load(await cacheStorage.load())
+      }
+
       // Calculate probabilities
       const results = await calculateProbabilities({
         playerHand,
         communityCards,
-        stage: options.stage,
-        preferredMethod: options.method
+        stage,
+        preferredMethod: options.method,
+        opponentHands,
+        deadCards,
+        variant: options.game,
+        randomOpponents: parseInt(options.randomOpponents),
+        playerRange: options.range,
+        opponentRanges: options.opponentRanges ? options.opponentRanges.split(';') : [],
+        seed: parseSeed(options.seed),
+        targetPrecision: options.precision !== undefined ? Number(options.precision) : undefined,
+        timeBudget: options.timeBudget !== undefined ? Number(options.timeBudget) : undefined
       })
 
+      if (cacheStorage) {
+        await cacheStorage.save(calculationCache.entries())
+      }
+
       if (options.format === 'json') {
         console.log(JSON.stringify(results, null, 2))
       } else {
         // Table format
         console.log(`\nPoker Probability Calculation Results`)
         console.log(`=====================================`)
-        console.log(`Stage: ${results.stage}`)
-        console.log(`Player Hand: ${playerHand.map(c => c.display).join(' ')}`)
+        console.log(`${isStud ? 'Street' : 'Stage'}: ${results.stage}`)
+        if (options.game !== 'holdem') {
+          console.log(`Game: ${options.game}`)
+        }
+        if (options.range !== undefined) {
+          console.log(`Player Range: ${results.equity?.[0].range ?? options.range}`)
+        } else {
+          console.log(`Player Hand: ${playerHand.map(c => c.display).join(' ')}`)
+        }
         if (communityCards.length > 0) {
           console.log(`Community: ${communityCards.map(c => c.display).join(' ')}`)
         }
+        if (deadCards.length > 0) {
+          console.log(`Dead Cards: ${deadCards.map(c => c.display).join(' ')}`)
+        }
         console.log(`Method: ${results.method}`)
+        console.log(`Seed: ${results.seed}`)
+        if (results.converged !== undefined) {
+          const samples = results.probabilities[0]?.totalOutcomes ?? 0
+          console.log(`Precision: ${results.converged ? 'reached' : 'not reached'} after ${samples} samples`)
+        }
         console.log(`Calculation Time: ${results.calculationTime.toFixed(2)}ms`)
         console.log()
 
         // Probability table
-        console.log('Hand Type              Probability  Percentage   Odds     Occurrences')
-        console.log('─────────────────────────────────────────────────────────────────────')
+        console.log('Hand Type              Probability  Percentage   ±95%     Odds     Occurrences')
+        console.log('──────────────────────────────────────────────────────────────────────────────')
         
         results.probabilities.forEach(prob => {
           const handName = getHandName(prob.handType).padEnd(20)
           const probability = prob.probability.toFixed(6).padStart(10)
           const percentage = `${prob.percentage.toFixed(2)}%`.padStart(10)
+          const margin = `${(((prob.confidenceInterval.upper - prob.confidenceInterval.lower) / 2) * 100).toFixed(2)}%`.padStart(8)
           const odds = prob.odds.padStart(8)
           const occurrences = prob.occurrences.toString().padStart(10)
           
-          console.log(`${handName} ${probability}  ${percentage} ${odds}  ${occurrences}`)
+          console.log(`${handName} ${probability}  ${percentage} ${margin} ${odds}  ${occurrences}`)
         })
+
+        // Equity table
+        if (results.equity) {
+          console.log()
+          console.log('Player      Hand       Win        Tie        Lose       Equity     ±95%')
+          console.log('──────────────────────────────────────────────────────────────────────────────')
+
+          results.equity.forEach((player, index) => {
+            const name = (index === 0 ? 'You' : `Opponent ${index}`).padEnd(11)
+            const hand = (player.holeCards.length > 0
+              ? player.holeCards.map(c => c.display).join(' ')
+              : player.range ? 'Range' : 'Random').padEnd(10)
+            const win = `${player.winPercentage.toFixed(2)}%`.padStart(8)
+            const tie = `${player.tiePercentage.toFixed(2)}%`.padStart(10)
+            const lose = `${player.losePercentage.toFixed(2)}%`.padStart(10)
+            const equity = `${player.equity.toFixed(2)}%`.padStart(10)
+            const margin = `${(((player.confidenceInterval.upper - player.confidenceInterval.lower) / 2) * 100).toFixed(2)}%`.padStart(8)
+
+            console.log(`${name} ${hand} ${win} ${tie} ${lose} ${equity} ${margin}`)
+          })
+
+          // Hi/lo games: how each half of the pot splits (a win above is a scoop)
+          if (results.equity.some(player => player.splitPot)) {
+            console.log()
+            console.log('Player      High       Low        Makes Low  Scoop      Quartered')
+            console.log('─────────────────────────────────────────────────────────────────────')
+
+            results.equity.forEach((player, index) => {
+              if (!player.splitPot) return
+
+              const name = (index === 0 ? 'You' : `Opponent ${index}`).padEnd(11)
+              const high = `${player.splitPot.highEquity.toFixed(2)}%`.padStart(8)
+              const low = `${player.splitPot.lowEquity.toFixed(2)}%`.padStart(10)
+              const makesLow = `${player.splitPot.lowPercentage.toFixed(2)}%`.padStart(10)
+              const scoop = `${player.splitPot.scoopPercentage.toFixed(2)}%`.padStart(10)
+              const quartered = `${player.splitPot.quarteredPercentage.toFixed(2)}%`.padStart(10)
+
+              console.log(`${name} ${high} ${low} ${makesLow} ${scoop} ${quartered}`)
+            })
+          }
+
+          // Per-combo breakdown: how each combo of a range fares and how the player does against it
+          if (options.combos) {
+            results.equity.forEach((player, index) => {
+              if (!player.combos) return
+
+              console.log()
+              console.log(`${index === 0 ? 'Your' : `Opponent ${index}`} range: ${player.range}`)
+              console.log('Combo      Weight     Equity     Your Equity  Outcomes')
+              console.log('─────────────────────────────────────────────────────────────────────')
+
+              player.combos.forEach(combo => {
+                const cards = combo.cards.map(c => c.display).join(' ').padEnd(10)
+                const weight = combo.weight.toFixed(2).padStart(6)
+                const comboEquity = `${combo.equity.toFixed(2)}%`.padStart(10)
+                const playerEquity = `${combo.playerEquity.toFixed(2)}%`.padStart(12)
+                const outcomes = Number(combo.totalOutcomes.toFixed(2)).toString().padStart(9)
+
+                console.log(`${cards} ${weight} ${comboEquity} ${playerEquity} ${outcomes}`)
+              })
+            })
+          }
+        }
       }
     } catch (error) {
       console.error('Error:', error.message)
@@ -85,21 +242,40 @@ program
 program
   .command('evaluate')
   .description('Evaluate best 5-card hand from given cards')
-  .requiredOption('-c, --cards <cards>', 'Cards to evaluate (5-7 cards, e.g., "AS,AH,KS,QH,JD")')
+  .requiredOption('-c, --cards <cards>', 'Cards to evaluate (5-7 cards, e.g., "AS,AH,KS,QH,JD"), or the board with --hole')
+  .option('--hole <cards>', 'Hole cards, evaluated against --cards as the board under the game rules')
+  .option('-g, --game <variant>', 'Game variant (holdem, shortdeck, plo4, plo5, plo8, stud, stud8), or lowball ranking (27, a5)', 'holdem')
   .option('-f, --format <format>', 'Output format (json, text)', 'text')
   .action((options) => {
     try {
       const cardStrings = options.cards.split(',')
-      const cards = cardStrings.map(cardStr => parseCard(cardStr.trim()))
+      const board = cardStrings.map(cardStr => parseCard(cardStr.trim()))
+      const holeCards = options.hole
+        ? options.hole.split(',').map(cardStr => parseCard(cardStr.trim()))
+        : []
+      const cards = [...holeCards, ...board]
 
-      const evaluation = evaluateHand({ cards })
+      // Lowball rankings play the lowest hand from every card given
+      const lowball = LOWBALL_GAMES[options.game as LowballGame]
+      const evaluation = lowball
+        ? evaluateLowballHand({ cards, game: lowball.game })
+        : options.hole
+          ? evaluateVariantHand(holeCards, board, options.game)
+          : evaluateHand({ cards })
+
+      // Hi/lo games also play for the best eight-or-better low
+      const isHiLo = options.hole && GAME_VARIANTS[options.game]?.hiLo
+      const low = isHiLo ? evaluateVariantLowHand(holeCards, board, options.game) : undefined
 
       if (options.format === 'json') {
-        console.log(JSON.stringify(evaluation, null, 2))
+        console.log(JSON.stringify(isHiLo ? { ...evaluation, low } : evaluation, null, 2))
       } else {
         console.log(`\nHand Evaluation Results`)
         console.log(`======================`)
         console.log(`Input Cards: ${cards.map(c => c.display).join(' ')}`)
+        if (lowball) {
+          console.log(`Ranking: ${lowball.name}`)
+        }
         console.log(`Best Hand: ${evaluation.bestHand.map(c => c.display).join(' ')}`)
         console.log(`Hand Strength: ${evaluation.handStrength}`)
         console.log(`Description: ${evaluation.description}`)
@@ -107,6 +283,264 @@ program
         if (evaluation.kickers.length > 0) {
           console.log(`Kickers: ${evaluation.kickers.map(c => c.display).join(' ')}`)
         }
+
+        if (isHiLo) {
+          console.log(low
+            ? `Low: ${low.bestHand.map(c => c.display).join(' ')} (${low.description})`
+            : 'Low: none (no eight-or-better low)')
+        }
+      }
+    } catch (error) {
+      console.error('Error:', error.message)
+      process.exit(1)
+    }
+  })
+
+// Showdown command
+program
+  .command('showdown')
+  .description('Decide the winners of a showdown on a complete board')
+  .requiredOption('-p, --players <hands>', 'Hole cards for each player, hands separated by ";" (e.g., "AS,KS;QD,QC")')
+  .requiredOption('-c, --community <cards>', 'Complete 5-card board (e.g., "KH,QH,JD,7C,2S")')
+  .option('-f, --format <format>', 'Output format (json, text)', 'text')
+  .action((options) => {
+    try {
+      const players = options.players.split(';').map(handStr => handStr.split(',').map(cardStr => parseCard(cardStr.trim())))
+      const board = options.community.split(',').map(cardStr => parseCard(cardStr.trim()))
+
+      const result = showdown(players, board)
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(result, null, 2))
+      } else {
+        console.log(`\nShowdown Results`)
+        console.log(`================`)
+        console.log(`Board: ${board.map(c => c.display).join(' ')}`)
+        console.log(``)
+
+        result.rankings.forEach(ranked => {
+          const hand = players[ranked.index].map(c => c.display).join(' ').padEnd(8)
+          console.log(`#${ranked.rank}  Player ${ranked.index + 1}  ${hand} ${ranked.evaluation.description}`)
+        })
+
+        const winnerNames = result.winners.map(index => `Player ${index + 1}`).join(', ')
+        console.log(``)
+        console.log(result.isSplitPot ? `Split pot: ${winnerNames}` : `Winner: ${winnerNames}`)
+      }
+    } catch (error) {
+      console.error('Error:', error.message)
+      process.exit(1)
+    }
+  })
+
+// Outs command
+program
+  .command('outs')
+  .description('List the cards that improve a hand on the flop or turn')
+  .requiredOption('-p, --player <cards>', 'Player hole cards (e.g., "AS,KS")')
+  .requiredOption('-c, --community <cards>', 'Flop or turn (e.g., "QS,7S,2H")')
+  .option('-o, --opponents <hands>', 'Known opponent hole cards, hands separated by ";" (e.g., "KD,KH")', '')
+  .option('-d, --dead <cards>', 'Dead cards out of play (e.g., "8S,3S")', '')
+  .option('-f, --format <format>', 'Output format (json, text)', 'text')
+  .action((options) => {
+    try {
+      const playerHand = options.player.split(',').map(cardStr => parseCard(cardStr.trim()))
+      const communityCards = options.community.split(',').map(cardStr => parseCard(cardStr.trim()))
+      const opponentHands = options.opponents
+        ? options.opponents.split(';').map(handStr => handStr.split(',').map(cardStr => parseCard(cardStr.trim())))
+        : []
+      const deadCards = options.dead
+        ? options.dead.split(',').map(cardStr => parseCard(cardStr.trim()))
+        : []
+
+      const analysis = analyzeOuts(playerHand, communityCards, opponentHands, deadCards)
+      const draws = analyzeDraws(playerHand, communityCards, deadCards)
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify({ ...analysis, draws }, null, 2))
+      } else {
+        console.log(`\nOuts Analysis`)
+        console.log(`=============`)
+        console.log(`Player Hand: ${playerHand.map(c => c.display).join(' ')}`)
+        console.log(`Board: ${communityCards.map(c => c.display).join(' ')}`)
+        if (deadCards.length > 0) {
+          console.log(`Dead Cards: ${deadCards.map(c => c.display).join(' ')}`)
+        }
+        console.log(`Current Hand: ${getHandName(analysis.currentHand)}`)
+        if (draws.length > 0) {
+          console.log(`Draws: ${draws.map(draw => `${draw.description} (${draw.outCount} outs)`).join(', ')}`)
+        }
+        console.log(``)
+
+        analysis.groups.forEach(group => {
+          const cards = group.outs.map(out => (out.isDirty ? `${out.card.display}*` : out.card.display)).join(' ')
+          console.log(`${getHandName(group.handType).padEnd(16)} ${group.outs.length.toString().padStart(2)}  ${cards}`)
+        })
+
+        console.log(``)
+        console.log(`Outs: ${analysis.totalOuts} (${analysis.cleanOuts} clean, ${analysis.dirtyOuts} dirty*)`)
+        console.log(`Rule of ${analysis.cardsToCome === 2 ? 4 : 2}: ${analysis.ruleOfThumb.toFixed(1)}%`)
+        console.log(`Exact: ${analysis.exactPercentage.toFixed(1)}% (clean outs only: ${analysis.cleanExactPercentage.toFixed(1)}%)`)
+      }
+    } catch (error) {
+      console.error('Error:', error.message)
+      process.exit(1)
+    }
+  })
+
+// Pot odds command
+program
+  .command('odds')
+  .description('Weigh calling a bet: pot odds, required equity, EV and implied odds')
+  .requiredOption('--pot <chips>', 'Pot before calling, including the bet faced')
+  .requiredOption('--call <chips>', 'Chips needed to call')
+  .requiredOption('--stack <chips>', 'Effective stack before calling')
+  .option('-e, --equity <percent>', 'Your equity in percent (e.g., 35)')
+  .option('-p, --player <cards>', 'Player hole cards, to calculate equity (e.g., "AS,KS")')
+  .option('-o, --opponents <hands>', 'Villain hole cards, hands separated by ";" (e.g., "QD,QC")', '')
+  .option('-c, --community <cards>', 'Community cards (e.g., "QS,7S,2H")', '')
+  .option('--seed <n>', 'Seed for reproducible simulations (32-bit integer)')
+  .option('-f, --format <format>', 'Output format (json, text)', 'text')
+  .action(async (options) => {
+    try {
+      let equity: number
+      if (options.equity !== undefined) {
+        equity = Number(options.equity)
+      } else if (options.player && options.opponents) {
+        const playerHand = options.player.split(',').map(cardStr => parseCard(cardStr.trim()))
+        const communityCards = options.community
+          ? options.community.split(',').map(cardStr => parseCard(cardStr.trim()))
+          : []
+        const opponentHands = options.opponents.split(';').map(handStr => handStr.split(',').map(cardStr => parseCard(cardStr.trim())))
+        const stages: Record<number, GameStage> = {
+          0: GameStage.PRE_FLOP,
+          3: GameStage.FLOP,
+          4: GameStage.TURN,
+          5: GameStage.RIVER
+        }
+
+        // Only a complete street can be analyzed
+        const stage = stages[communityCards.length]
+        if (!stage) {
+          throw new Error('INVALID_COMMUNITY_CARDS')
+        }
+
+        const results = await calculateProbabilities({
+          playerHand,
+          communityCards,
+          stage,
+          opponentHands,
+          seed: parseSeed(options.seed)
+        })
+        equity = results.equity?.[0].equity ?? 0
+      } else {
+        throw new Error('Either --equity or --player with --opponents is required')
+      }
+
+      const analysis = analyzeBet({
+        potSize: Number(options.pot),
+        betToCall: Number(options.call),
+        effectiveStack: Number(options.stack)
+      }, equity)
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(analysis, null, 2))
+      } else {
+        console.log(`\nBetting Decision`)
+        console.log(`================`)
+        console.log(`Pot: ${options.pot}  To Call: ${options.call}  Effective Stack: ${options.stack}`)
+        console.log(`Equity: ${analysis.equity.toFixed(2)}%`)
+        console.log(``)
+        console.log(`Pot Odds:        ${formatPotOdds(analysis.potOdds)}`)
+        console.log(`Required Equity: ${analysis.requiredEquity.toFixed(2)}%`)
+        console.log(`EV of Call:      ${analysis.callEV.toFixed(2)}`)
+        console.log(`EV of Fold:      ${analysis.foldEV.toFixed(2)}`)
+        if (analysis.isProfitableCall) {
+          console.log(`Implied Odds:    not needed`)
+        } else {
+          const reachable = analysis.isImpliedOddsReachable ? 'reachable' : 'not reachable'
+          console.log(`Implied Odds:    ${analysis.impliedOddsBreakeven.toFixed(2)} more to break even (${reachable} with ${analysis.remainingStack} behind)`)
+        }
+        console.log(`Decision:        ${analysis.isProfitableCall ? 'Call' : 'Fold'}`)
+      }
+    } catch (error) {
+      console.error('Error:', error.message)
+      process.exit(1)
+    }
+  })
+
+// Board texture command
+program
+  .command('board')
+  .description('Describe the texture of a flop, turn or river and the current nuts')
+  .requiredOption('-c, --community <cards>', 'Community cards (e.g., "KH,QH,7D")')
+  .option('-f, --format <format>', 'Output format (json, text)', 'text')
+  .action((options) => {
+    try {
+      const communityCards = options.community.split(',').map(cardStr => parseCard(cardStr.trim()))
+
+      const texture = analyzeBoard(communityCards)
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(texture, null, 2))
+      } else {
+        console.log(`\nBoard Texture`)
+        console.log(`=============`)
+        console.log(`Board: ${communityCards.map(c => c.display).join(' ')}`)
+        console.log(`Texture: ${texture.height}, ${texture.pairing}, ${texture.suitedness}, ${texture.connectedness}`)
+        console.log(`Flush: ${texture.isFlushPossible ? `possible (${texture.flushSuit})` : texture.isFlushDrawPossible ? 'draw possible' : 'not possible'}`)
+
+        const straights = texture.possibleStraights
+          .map(straight => `${straight.highCard}-high${straight.holeRanks.length > 0 ? ` (${straight.holeRanks.join('+')})` : ' (board)'}`)
+        console.log(`Straights: ${straights.length > 0 ? straights.join(', ') : 'none'}`)
+
+        const nutCombos = texture.nuts.combos.slice(0, 6).map(combo => combo.map(c => c.display).join('')).join(' ')
+        const more = texture.nuts.combos.length > 6 ? ` (+${texture.nuts.combos.length - 6} more)` : ''
+        console.log(`Nuts: ${texture.nuts.description} — ${nutCombos}${more}`)
+      }
+    } catch (error) {
+      console.error('Error:', error.message)
+      process.exit(1)
+    }
+  })
+
+// Holdings command
+program
+  .command('holdings')
+  .description('List the best possible holdings on a board and where a hand ranks among them')
+  .requiredOption('-c, --community <cards>', 'Flop, turn or river (e.g., "KH,9C,5D")')
+  .option('-p, --player <cards>', 'Player hole cards to rank (e.g., "KS,QS")')
+  .option('-n, --top <n>', 'Number of holdings to list', '10')
+  .option('-f, --format <format>', 'Output format (json, text)', 'text')
+  .action((options) => {
+    try {
+      const communityCards = options.community.split(',').map(cardStr => parseCard(cardStr.trim()))
+      const playerHand = options.player
+        ? options.player.split(',').map(cardStr => parseCard(cardStr.trim()))
+        : null
+
+      const holdings = rankHoldings(communityCards).slice(0, parseInt(options.top))
+      const relativeStrength = playerHand ? getRelativeStrength(playerHand, communityCards) : undefined
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify({ holdings, relativeStrength }, null, 2))
+      } else {
+        console.log(`\nBest Holdings`)
+        console.log(`=============`)
+        console.log(`Board: ${communityCards.map(c => c.display).join(' ')}`)
+        console.log(``)
+
+        holdings.forEach(holding => {
+          const combos = holding.combos.slice(0, 4).map(combo => combo.map(c => c.display).join('')).join(' ')
+          const more = holding.combos.length > 4 ? ` +${holding.combos.length - 4}` : ''
+          console.log(`#${holding.rank.toString().padEnd(4)} ${holding.description.padEnd(34)} ${combos}${more}`)
+        })
+
+        if (playerHand && relativeStrength) {
+          console.log(``)
+          console.log(`${playerHand.map(c => c.display).join(' ')}: ${relativeStrength.description}, holding #${relativeStrength.position}`)
+          console.log(`Beats ${relativeStrength.beats}, ties ${relativeStrength.ties}, loses to ${relativeStrength.losesTo} of ${relativeStrength.totalCombos} hands (${relativeStrength.percentile.toFixed(1)}%)`)
+        }
       }
     } catch (error) {
       console.error('Error:', error.message)
@@ -126,8 +560,8 @@ program
     console.log(`Status: ${health.status}`)
     console.log(`Version: ${health.version}`)
     console.log(`Lookup Tables Loaded: ${health.lookupTablesLoaded ? '✓' : '✗'}`)
-    console.log(`Average Calculation Time: ${health.performance.avgCalculationTime}ms`)
-    console.log(`Cache Hit Rate: ${(health.performance.cacheHitRate * 100).toFixed(1)}%`)
+    console.log(`Average Calculation Time: ${health.performance.avgCalculationTime.toFixed(2)}ms`)
+    console.log(`Cache Hit Rate: ${(health.performance.cacheHitRate * 100).toFixed(1)}% (${health.performance.cacheHits} hits, ${health.performance.cacheMisses} misses, ${health.performance.cacheSize} cached)`)
   })
 
 // Benchmark command
@@ -145,6 +579,8 @@ program
       const startTime = performance.now()
       
       for (let i = 0; i < iterations; i++) {
+        // Measure the calculation itself, not cache retrieval
+        calculationCache.clear()
         await calculateProbabilities({
           playerHand,
           communityCards: [],
@@ -188,14 +624,83 @@ Calculate pre-flop probabilities:
 Calculate flop probabilities:
   poker-engine calculate -p "AS,AH" -c "KS,QH,JD" --stage flop
 
+Calculate equity against known opponents:
+  poker-engine calculate -p "AS,AH" -o "KS,KH"
+  poker-engine calculate -p "AS,KS" -o "QH,QD;JC,10C" -c "2S,7S,QS" --stage flop
+
+Calculate equity against a full table of unknown hands:
+  poker-engine calculate -p "AS,AH" --random-opponents 8
+  poker-engine calculate -p "JS,10S" -o "AH,KD" -r 2
+
+Calculate equity against ranges:
+  poker-engine calculate -p "AS,KS" -R "QQ+, AKo" --combos
+  poker-engine calculate --range "22-99, AJs+" -R "QQ+, AK" -c "8H,7D,2C" --stage flop
+
+Remove dead cards from play:
+  poker-engine calculate -p "AS,KS" -c "QS,7S,2H" --stage flop -d "8S,3S"
+  poker-engine outs -p "AS,KS" -c "QS,7S,2H" --dead "8S,3S,JS"
+
+Replay a simulation exactly:
+  poker-engine calculate -p "AS,AH" -r 3 --seed 42
+
+Simulate to a target precision:
+  poker-engine calculate -p "AS,AH" -c "KS,QH,JD" -m simulation --precision 0.002
+  poker-engine calculate -p "7H,6H" -m simulation --precision 0.001 --time-budget 5000
+
 Calculate with specific method:
   poker-engine calculate -p "AS,AH" --method simulation
   poker-engine calculate -p "AS,AH" -c "KS,QH,JD" -m exact
 
+Reuse results between runs:
+  poker-engine calculate -p "AS,KS" -o "QH,QD" -c "JS,10S,2H" -s flop -m exact --cache-file poker-cache.json
+
 Evaluate a hand:
   poker-engine evaluate --cards "AS,AH,KS,QH,JD"
   poker-engine evaluate -c "10S,JS,QS,KS,AS" --format json
 
+Evaluate a lowball hand (deuce-to-seven or ace-to-five):
+  poker-engine evaluate -c "7S,5H,4D,3C,2S" --game 27
+  poker-engine evaluate -c "AS,2H,3D,4C,5S,KH,KD" --game a5
+
+Play Omaha (exactly two hole cards and three board cards):
+  poker-engine calculate -p "AS,AH,KS,QH" -o "JD,10D,9C,8C" -c "KD,7S,2H" --stage flop --game plo4
+  poker-engine evaluate --hole "AS,AH,AD,AC" -c "KS,KH,2D,3C,7S" --game plo4
+
+Play Omaha hi/lo (best high and best eight-or-better low split the pot):
+  poker-engine calculate -p "AS,2S,3H,KD" -o "KS,KH,QD,JC" -c "4C,7D,KC" --stage flop --game plo8
+  poker-engine evaluate --hole "AS,2S,3H,KD" -c "4C,7D,KC,8H,9S" --game plo8
+
+Play seven-card stud (your cards in deal order, opponents' up-cards, folded up-cards as dead cards):
+  poker-engine calculate -p "AS,AH,KD" -o "QC;7S" --game stud
+  poker-engine calculate -p "AS,AH,KD,2C,9H" -o "QC,QD,JS" -d "7S,8D" --game stud --stage fifth
+
+Play seven-card stud hi/lo (best high and best eight-or-better low from each player's seven cards split the pot):
+  poker-engine calculate -p "AS,2S,3H" -o "KC;8S" --game stud8
+
+Play short deck (36 cards, flushes beat full houses, A-6-7-8-9 is a straight):
+  poker-engine calculate -p "AH,KH" -o "QS,QC" --game shortdeck
+  poker-engine evaluate --hole "AS,6D" -c "7H,8C,9S,KD,KH" --game shortdeck
+
+Resolve a showdown:
+  poker-engine showdown -p "AS,KS;AD,QC" -c "AH,9D,7C,4S,2H"
+  poker-engine showdown -p "AS,KD;AC,KH;7S,7D" -c "QS,JH,10C,3D,2S" --format json
+
+List outs:
+  poker-engine outs -p "AS,KS" -c "QS,7S,2H"
+  poker-engine outs -p "9H,8H" -c "7C,6D,2H,KS" -o "KD,KH" --format json
+
+Weigh a call:
+  poker-engine odds --pot 150 --call 50 --stack 1000 --equity 35
+  poker-engine odds --pot 150 --call 50 --stack 1000 -p "AS,KS" -o "QD,QC" -c "QS,7S,2H"
+
+Describe a board:
+  poker-engine board -c "KH,QH,7D"
+  poker-engine board -c "9S,8S,7S,2D" --format json
+
+Rank holdings on a board:
+  poker-engine holdings -c "KH,9C,5D" -n 5
+  poker-engine holdings -c "KH,9C,5D,2S" -p "KS,QS"
+
 Check health:
   poker-engine health
 
@@ -205,6 +710,17 @@ Run benchmarks:
 `)
   })
 
+// Parses --seed, rejecting values the 32-bit generator would wrap onto another seed
+function parseSeed(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined
+
+  const seed = Number(value)
+  if (value.trim() === '' || !isValidSeed(seed)) {
+    throw new Error('INVALID_SEED')
+  }
+  return seed
+}
+
 // Helper function to get hand name
 function getHandName(handStrength: number): string {
   const names = [
@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+
+/**
+ * Lookup Table Generator
+ * Precomputes the exact pre-flop hand type distribution for all 169 starting-hand classes
+ *
+ * Usage: npm run generate:tables
+ */
+
+import { writeFileSync } from 'fs'
+import { fileURLToPath } from 'url'
+import path from 'path'
+import type { Card } from '../../../types/card'
+import type { PreflopTable } from '../src/lookup-tables'
+import { PREFLOP_TABLE_VERSION, PREFLOP_TOTAL_OUTCOMES } from '../src/lookup-tables'
+import { encodeCard, evaluateEncodedHand, getHandStrengthFromRank } from '../src/fast-evaluation'
+import { getRemainingCards } from '../../card-utils/src/deck'
+import { getStartingHandClasses, getStartingHandCombos } from '../../card-utils/src/starting-hands'
+
+const OUTPUT_PATH = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../data/preflop-table.json')
+
+/**
+ * Counts final hand types over every 5-card board for one pair of hole cards.
+ * Uses plain nested loops over a reused array - this runs 2,118,760 times per class.
+ */
+function countPreflopHandTypes(holeCards: Card[]): number[] {
+  const counts = new Array<number>(10).fill(0)
+  const deck = getRemainingCards(holeCards).map(encodeCard)
+  const hand = new Uint8Array(7)
+  const n = deck.length
+
+  hand[0] = encodeCard(holeCards[0])
+  hand[1] = encodeCard(holeCards[1])
+
+  for (let a = 0; a < n - 4; a++) {
+    hand[2] = deck[a]
+    for (let b = a + 1; b < n - 3; b++) {
+      hand[3] = deck[b]
+      for (let c = b + 1; c < n - 2; c++) {
+        hand[4] = deck[c]
+        for (let d = c + 1; d < n - 1; d++) {
+          hand[5] = deck[d]
+          for (let e = d + 1; e < n; e++) {
+            hand[6] = deck[e]
+            counts[getHandStrengthFromRank(evaluateEncodedHand(hand))]++
+          }
+        }
+      }
+    }
+  }
+
+  return counts
+}
+
+function generatePreflopTable(): PreflopTable {
+  const hands: Record<string, number[]> = {}
+  const classes = getStartingHandClasses()
+
+  classes.forEach((handClass, index) => {
+    // Suits are interchangeable pre-flop, so any combo represents the whole class
+    const [representative] = getStartingHandCombos(handClass)
+    hands[handClass] = countPreflopHandTypes(representative)
+    console.log(`[${index + 1}/${classes.length}] ${handClass}`)
+  })
+
+  return {
+    version: PREFLOP_TABLE_VERSION,
+    totalOutcomes: PREFLOP_TOTAL_OUTCOMES,
+    hands
+  }
+}
+
+const startTime = performance.now()
+const table = generatePreflopTable()
+
+// One class per line keeps the generated file reviewable
+const json = JSON.stringify(table, null, 2).replace(/\[\s+([\d,\s]+?)\s+\]/g, (_, counts: string) => `[${counts.split(/,\s*/).join(', ')}]`)
+writeFileSync(OUTPUT_PATH, json + '\n')
+console.log(`Wrote ${Object.keys(table.hands).length} classes to ${OUTPUT_PATH} in ${((performance.now() - startTime) / 1000).toFixed(1)}s`)
\ No newline at end of file
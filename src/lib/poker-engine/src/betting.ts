@@ -0,0 +1,42 @@
+/**
+ * Betting Math
+ * Functions for weighing a call against pot odds, expected value and implied odds
+ */
+
+import type { BettingAnalysis, BettingState } from '../../../types/game'
+
+/**
+ * Analyzes calling a bet with a given equity (percentage, 0-100).
+ * Folding is the baseline at 0 chips, so a call is profitable when its expected value is positive.
+ */
+export function analyzeBettingDecision(betting: BettingState, equity: number): BettingAnalysis {
+  const { potSize, betToCall, effectiveStack } = betting
+  const share = equity / 100
+
+  // Calling wins the pot (which already holds the bet) or loses the call
+  const callEV = share * potSize - (1 - share) * betToCall
+  const requiredEquity = betToCall > 0 ? (betToCall / (potSize + betToCall)) * 100 : 0
+
+  // Chips that must be won when the hand comes in to make up for a losing call
+  const impliedOddsBreakeven = callEV >= 0 ? 0 : share > 0 ? ((1 - share) * betToCall) / share - potSize : Infinity
+  const remainingStack = effectiveStack - betToCall
+
+  return {
+    equity,
+    potOdds: betToCall > 0 ? potSize / betToCall : Infinity,
+    requiredEquity,
+    callEV,
+    foldEV: 0,
+    isProfitableCall: callEV >= 0,
+    impliedOddsBreakeven,
+    remainingStack,
+    isImpliedOddsReachable: impliedOddsBreakeven <= remainingStack
+  }
+}
+
+/**
+ * Formats pot odds as a ratio (e.g. "3:1")
+ */
+export function formatPotOdds(potOdds: number): string {
+  return Number.isFinite(potOdds) ? `${Number(potOdds.toFixed(2))}:1` : '∞:1'
+}
\ No newline at end of file
@@ -0,0 +1,102 @@
+/**
+ * Board Texture Analysis
+ * Functions for classifying a flop, turn or river by pairing, suits, connectedness and height
+ */
+
+import type { Card, Rank } from '../../../types/card'
+import type { BoardPairing, BoardSuitedness, BoardHeight, BoardTexture, NutHand, PossibleStraight } from '../../../types/poker'
+import { SUITS } from '../../../types/card'
+import { enumerateHoldingRanks } from './hand-ranking'
+
+// Rank names by rank index (0 = deuce, 12 = ace)
+const RANK_NAMES: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A']
+const ACE_INDEX = 12
+const QUEEN_VALUE = 12
+const NINE_VALUE = 9
+
+/**
+ * Classifies a board of 3-5 community cards and finds the current nuts
+ */
+export function analyzeBoardTexture(communityCards: Card[]): BoardTexture {
+  const suitCounts = SUITS.map(suit => communityCards.filter(card => card.suit === suit).length)
+  const maxSuitCount = Math.max(...suitCounts)
+  const possibleStraights = findPossibleStraights(communityCards)
+
+  return {
+    pairing: classifyPairing(communityCards),
+    suitedness: classifySuitedness(maxSuitCount, communityCards.length),
+    connectedness: possibleStraights.length > 0 ? 'connected' : 'disconnected',
+    height: classifyHeight(communityCards),
+    isFlushPossible: maxSuitCount >= 3,
+    flushSuit: maxSuitCount >= 3 ? SUITS[suitCounts.indexOf(maxSuitCount)] : undefined,
+    isFlushDrawPossible: communityCards.length < 5 && maxSuitCount === 2,
+    possibleStraights,
+    nuts: findNuts(communityCards)
+  }
+}
+
+/**
+ * Classifies how the board's ranks repeat
+ */
+function classifyPairing(communityCards: Card[]): BoardPairing {
+  const rankCounts = new Map<Rank, number>()
+  communityCards.forEach(card => rankCounts.set(card.rank, (rankCounts.get(card.rank) ?? 0) + 1))
+
+  const counts = [...rankCounts.values()].sort((a, b) => b - a)
+
+  if (counts[0] === 4) return 'quads'
+  if (counts[0] === 3) return counts[1] === 2 ? 'full-house' : 'trips'
+  if (counts[0] === 2) return counts[1] === 2 ? 'two-pair' : 'paired'
+  return 'unpaired'
+}
+
+/**
+ * Classifies the board by its longest suit; a mixed board with three or four of one suit is named by that count
+ */
+function classifySuitedness(maxSuitCount: number, cardCount: number): BoardSuitedness {
+  if (maxSuitCount === cardCount) return 'monotone'
+  if (maxSuitCount === 4) return 'four-flush'
+  if (maxSuitCount === 3) return 'three-flush'
+  return maxSuitCount === 1 ? 'rainbow' : 'two-tone'
+}
+
+function classifyHeight(communityCards: Card[]): BoardHeight {
+  const topValue = Math.max(...communityCards.map(card => card.value))
+
+  if (topValue >= QUEEN_VALUE) return 'high'
+  if (topValue >= NINE_VALUE) return 'middle'
+  return 'low'
+}
+
+/**
+ * Lists the straights hole cards can make: five-rank windows holding at least three board ranks
+ */
+function findPossibleStraights(communityCards: Card[]): PossibleStraight[] {
+  const boardRanks = new Set(communityCards.map(card => card.value - 2))
+  const straights: PossibleStraight[] = []
+
+  for (let high = ACE_INDEX; high >= 3; high--) {
+    // The wheel (5 high) uses the ace as its low card
+    const window = high === 3 ? [ACE_INDEX, 0, 1, 2, 3] : [high - 4, high - 3, high - 2, high - 1, high]
+    const missing = window.filter(rank => !boardRanks.has(rank))
+
+    if (missing.length <= 2) {
+      straights.push({ highCard: RANK_NAMES[high], holeRanks: missing.map(rank => RANK_NAMES[rank]) })
+    }
+  }
+
+  return straights
+}
+
+/**
+ * Finds the best hand any two unseen hole cards make with the board, and every combo making it
+ */
+function findNuts(communityCards: Card[]): NutHand {
+  const [nuts] = enumerateHoldingRanks(communityCards)
+
+  return {
+    handStrength: nuts.handStrength,
+    description: nuts.description,
+    combos: nuts.combos
+  }
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+/**
+ * Calculation Cache
+ * Keeps reproducible calculation results in the shared calculation cache. Results that drew no random numbers
+ * are keyed by suit-canonical request, and a hit from a suit-isomorphic request (pre-flop AsKs after AhKh) is
+ * relabeled to the asking request's suits. Seeded runs are keyed by their own cards.
+ */
+
+import type { Rank, Suit } from '../../../types/card'
+import { SUITS, SUIT_SYMBOLS } from '../../../types/card'
+import type { CachedCalculation, CalculationRequest, CalculationResults } from '../../../types/poker'
+import { createCard } from '../../card-utils/src/card-utils'
+import { calculationCache, canonicalizeCalculationRequest, type CacheStats } from '../../../utils/performance'
+
+// Suit names and symbols as descriptions spell them (e.g. "Royal Flush of hearts", "Flush, A♥ high")
+const SUIT_TEXT_PATTERN = new RegExp([...SUITS, ...SUITS.map(suit => SUIT_SYMBOLS[suit])].join('|'), 'g')
+
+/**
+ * Gets the cached results of a request, relabeled to its suits (undefined on a miss or when it cannot be cached)
+ */
+export function getCachedResults(request: CalculationRequest): CalculationResults | undefined {
+  if (!isCacheable(request)) return undefined
+
+  const { key, suitMap } = canonicalizeCalculationRequest(request)
+  const cached = calculationCache.get(key)
+  if (!cached) return undefined
+
+  // Cached suit -> canonical suit -> this request's suit
+  const fromCanonical = Object.fromEntries(SUITS.map(suit => [suitMap[suit], suit])) as Record<Suit, Suit>
+  const relabeling = Object.fromEntries(SUITS.map(suit => [suit, fromCanonical[cached.suitMap[suit]]])) as Record<Suit, Suit>
+  const isIdentity = SUITS.every(suit => relabeling[suit] === suit)
+
+  return {
+    ...(isIdentity ? cached.results : relabelResultSuits(cached.results, relabeling)),
+    playerHand: request.playerHand,
+    communityCards: request.communityCards,
+    stage: request.stage
+  }
+}
+
+/**
+ * Caches the results of a request when they will come out the same next time: seeded runs,
+ * and runs that drew no random numbers. A target-precision run cut short by its time budget
+ * is not, since a faster or slower machine would stop it after a different number of samples.
+ */
+export function cacheResults(request: CalculationRequest, results: CalculationResults, isRandomized: boolean): void {
+  if (!isCacheable(request) || (isRandomized && request.seed === undefined) || results.converged === false) return
+
+  const { key, suitMap } = canonicalizeCalculationRequest(request)
+  const cached: CachedCalculation = { results, suitMap }
+  calculationCache.set(key, cached)
+}
+
+/**
+ * Gets the cache's hit and miss counts since it was last cleared
+ */
+export function getCalculationCacheStats(): CacheStats {
+  return calculationCache.getStats()
+}
+
+/**
+ * Checks whether a request's results could be cached at all (an unseeded simulation never repeats itself)
+ */
+function isCacheable(request: CalculationRequest): boolean {
+  return request.seed !== undefined || request.preferredMethod !== 'simulation'
+}
+
+/**
+ * Relabels the suits of every card and suit name or symbol in a result
+ */
+function relabelResultSuits<T>(value: T, suitMap: Record<Suit, Suit>): T {
+  if (typeof value === 'string') {
+    return value.replace(SUIT_TEXT_PATTERN, text => relabelSuitText(text, suitMap)) as T
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => relabelResultSuits(item, suitMap)) as T
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  const record = value as Record<string, unknown>
+  if (typeof record.suit === 'string' && typeof record.rank === 'string') {
+    return createCard(suitMap[record.suit as Suit], record.rank as Rank) as T
+  }
+
+  return Object.fromEntries(
+    Object.entries(record).map(([key, item]) => [key, relabelResultSuits(item, suitMap)])
+  ) as T
+}
+
+function relabelSuitText(text: string, suitMap: Record<Suit, Suit>): string {
+  const suit = SUITS.find(candidate => candidate === text || SUIT_SYMBOLS[candidate] === text)!
+  return text === suit ? suitMap[suit] : SUIT_SYMBOLS[suitMap[suit]]
+}
\ No newline at end of file
@@ -0,0 +1,162 @@
+/**
+ * Draw Detection
+ * Functions for classifying the flush and straight draws and overcards a hand holds on the flop and turn
+ */
+
+import type { Card, Suit } from '../../../types/card'
+import type { Draw, DrawType } from '../../../types/poker'
+import { SUITS } from '../../../types/card'
+import { findStraightHigh } from './fast-evaluation'
+import { getRemainingCards } from '../../card-utils/src/deck'
+
+const ACE_INDEX = 12
+
+const DRAW_DESCRIPTIONS: Record<DrawType, string> = {
+  'flush-draw': 'Flush draw',
+  'backdoor-flush-draw': 'Backdoor flush draw',
+  'open-ended-straight-draw': 'Open-ended straight draw',
+  'double-gutshot': 'Double gutshot straight draw',
+  'gutshot': 'Gutshot straight draw',
+  'overcards': 'Overcards',
+  'combo-draw': 'Combo draw'
+}
+
+/**
+ * Classifies the draws the hole cards make with a flop or turn.
+ * Draws must use at least one hole card; a flush draw plus a straight draw is also reported as a combo draw.
+ * Dead cards are not counted as outs.
+ */
+export function detectDraws(playerHand: Card[], communityCards: Card[], deadCards: Card[] = []): Draw[] {
+  const unseenCards = getRemainingCards([...playerHand, ...communityCards, ...deadCards])
+  const draws: Draw[] = []
+
+  const flushDraw = detectFlushDraw(playerHand, communityCards, unseenCards)
+  if (flushDraw) draws.push(flushDraw)
+
+  const straightDraw = detectStraightDraw(playerHand, communityCards, unseenCards)
+  if (straightDraw) draws.push(straightDraw)
+
+  const overcards = detectOvercards(playerHand, communityCards, unseenCards)
+  if (overcards) draws.push(overcards)
+
+  if (flushDraw?.type === 'flush-draw' && straightDraw) {
+    const outIds = new Set(flushDraw.outs.map(card => card.id))
+    draws.push(createDraw('combo-draw', [...flushDraw.outs, ...straightDraw.outs.filter(card => !outIds.has(card.id))]))
+  }
+
+  return draws
+}
+
+/**
+ * Detects four cards to a flush, or three on the flop (backdoor), with at least one in the hole
+ */
+function detectFlushDraw(playerHand: Card[], communityCards: Card[], unseenCards: Card[]): Draw | null {
+  const countSuit = (cards: Card[], suit: Suit) => cards.filter(card => card.suit === suit).length
+
+  for (const suit of SUITS) {
+    const holeCount = countSuit(playerHand, suit)
+    const total = holeCount + countSuit(communityCards, suit)
+    if (holeCount === 0) continue
+
+    if (total === 4) {
+      return createDraw('flush-draw', unseenCards.filter(card => card.suit === suit))
+    }
+
+    if (total === 3 && communityCards.length === 3) {
+      return createDraw('backdoor-flush-draw', [])
+    }
+  }
+
+  return null
+}
+
+/**
+ * Detects straight draws from the ranks that would complete a straight the board alone does not make.
+ * Two completing ranks either side of four in a row are open-ended; two elsewhere are a double gutshot.
+ */
+function detectStraightDraw(playerHand: Card[], communityCards: Card[], unseenCards: Card[]): Draw | null {
+  const handMask = getRankMask([...playerHand, ...communityCards])
+  const boardMask = getRankMask(communityCards)
+
+  if (findStraightHigh(handMask) >= 0) {
+    return null
+  }
+
+  const completingRanks: number[] = []
+  for (let rank = 0; rank <= ACE_INDEX; rank++) {
+    const rankBit = 1 << rank
+    if (handMask & rankBit) continue
+
+    const straightHigh = findStraightHigh(handMask | rankBit)
+    if (straightHigh >= 0 && findStraightHigh(boardMask | rankBit) < straightHigh) {
+      completingRanks.push(rank)
+    }
+  }
+
+  if (completingRanks.length === 0) {
+    return null
+  }
+
+  const outs = unseenCards.filter(card => completingRanks.includes(getRankIndex(card)))
+
+  if (completingRanks.length === 1) {
+    return createDraw('gutshot', outs)
+  }
+
+  return createDraw(isOpenEnded(completingRanks, handMask) ? 'open-ended-straight-draw' : 'double-gutshot', outs)
+}
+
+/**
+ * Detects hole cards ranked above every board card when neither pairs the board
+ */
+function detectOvercards(playerHand: Card[], communityCards: Card[], unseenCards: Card[]): Draw | null {
+  const boardRanks = new Set(communityCards.map(card => card.rank))
+  const isPaired = playerHand[0].rank === playerHand[1].rank || playerHand.some(card => boardRanks.has(card.rank))
+  if (isPaired) {
+    return null
+  }
+
+  const highestBoardValue = Math.max(...communityCards.map(card => card.value))
+  const overcardRanks = new Set(playerHand.filter(card => card.value > highestBoardValue).map(card => card.rank))
+  if (overcardRanks.size === 0) {
+    return null
+  }
+
+  return createDraw('overcards', unseenCards.filter(card => overcardRanks.has(card.rank)))
+}
+
+/**
+ * Checks whether two completing ranks sit either side of four consecutive ranks (an ace also completes below a deuce)
+ */
+function isOpenEnded(completingRanks: number[], handMask: number): boolean {
+  const lowEnds = completingRanks.includes(ACE_INDEX) ? [-1, ...completingRanks] : completingRanks
+
+  return lowEnds.some(low => completingRanks.some(high => {
+    if (high - low !== 5) return false
+
+    for (let rank = low + 1; rank < high; rank++) {
+      if (!(handMask & (1 << rank))) return false
+    }
+    return true
+  }))
+}
+
+/**
+ * Builds a 13-bit mask of the ranks present (bit 0 = deuce, bit 12 = ace)
+ */
+function getRankMask(cards: Card[]): number {
+  return cards.reduce((mask, card) => mask | (1 << getRankIndex(card)), 0)
+}
+
+function getRankIndex(card: Card): number {
+  return card.value - 2
+}
+
+function createDraw(type: DrawType, outs: Card[]): Draw {
+  return {
+    type,
+    description: DRAW_DESCRIPTIONS[type],
+    outs,
+    outCount: outs.length
+  }
+}
\ No newline at end of file
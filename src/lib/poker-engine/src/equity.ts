@@ -0,0 +1,549 @@
+/**
+ * Poker Equity Calculations
+ * Functions for calculating win/tie/lose shares between competing hands
+ */
+
+import type { Card, DeckType } from '../../../types/card'
+import type { PlayerEquity, ComboEquity, CalculationMethod, ConfidenceInterval, SplitPotEquity } from '../../../types/poker'
+import type { HandRange, RangeCombo } from '../../../types/range'
+import type { GameVariant } from '../../../types/game'
+import { DEFAULT_GAME_VARIANT } from '../../../types/game'
+import { evaluateVariantHandRank, evaluateVariantLowRank, getVariantRules } from './variants'
+import { NO_LOW } from './low-evaluation'
+import { Z_95, SIMULATION_BATCH_SIZE, MAX_SIMULATIONS, type PrecisionTarget } from './probability'
+import { simulateTableDeal, enumerateBoards, type SimulatedTable } from '../../card-utils/src/deck'
+import { enumerateIsomorphicBoards } from '../../card-utils/src/isomorphism'
+import type { RandomGenerator } from '../../card-utils/src/random'
+import { removeBlockers, formatRange } from '../../range-utils/src/range-utils'
+
+interface EquityTally {
+  wins: number
+  ties: number
+  losses: number
+  potShare: number
+  potShareSquares: number // Sum of squared pot shares, for the variance of the equity
+}
+
+interface SplitPotTally {
+  highShare: number // Shares of the high half won
+  lowShare: number // Shares of the low half won
+  lows: number // Outcomes making a qualifying low
+  scoops: number
+  quarters: number
+}
+
+interface ShowdownTally {
+  tallies: EquityTally[]
+  splitTallies: SplitPotTally[] | null // Hi/lo games only
+  totalOutcomes: number
+}
+
+interface ComboTally {
+  potShare: number
+  playerPotShare: number
+  outcomes: number
+}
+
+// A seat's holding for range equity: a range of combos (one combo for known cards), or null for unknown cards
+export type SeatRange = HandRange | null
+
+interface RangeAssignment {
+  combos: (RangeCombo | null)[] // Combo held by each seat, null for unknown seats
+  weight: number // Product of the combo weights
+}
+
+// Consecutive conflicting draws allowed before giving up on sampling the ranges
+const MAX_SAMPLING_ATTEMPTS = 10000
+
+/**
+ * Calculates showdown equity for each player's hole cards under a variant's rules.
+ * An empty hand is an opponent with unknown cards, dealt at random in every simulation; a stud hand holds the
+ * cards known so far and is dealt the rest at random. Dead cards are never dealt.
+ * With a precision target, sampling goes on in batches until every seat's equity interval is narrow enough.
+ */
+export function calculateEquity(
+  playerHands: Card[][],
+  communityCards: Card[],
+  method: CalculationMethod = 'simulation',
+  numSimulations: number = 10000,
+  random: RandomGenerator = Math.random,
+  deadCards: Card[] = [],
+  variant: GameVariant = DEFAULT_GAME_VARIANT,
+  precision?: PrecisionTarget
+): PlayerEquity[] {
+  const { holeCards, boardCards, deck } = getVariantRules(variant)
+  const hasUnknownSeats = playerHands.some(hand => hand.length < holeCards)
+  const showdownTally = createShowdownTally(playerHands, variant)
+
+  // Exact enumeration needs every hand known; so does a complete board with a single outcome
+  if (!hasUnknownSeats && (method === 'exact' || communityCards.length === boardCards)) {
+    recordTables(showdownTally, enumerateTables(playerHands, communityCards, deadCards, deck, boardCards), variant)
+    return createShowdownResults(playerHands, showdownTally)
+  }
+
+  if (method === 'exact') {
+    throw new Error('EXACT_REQUIRES_KNOWN_HANDS')
+  }
+
+  sampleShowdowns(
+    count => recordTables(
+      showdownTally,
+      simulateTableDeal(playerHands, communityCards, count, holeCards, random, deadCards, deck, boardCards),
+      variant
+    ),
+    tolerance => isEquityWithinTolerance(showdownTally.tallies, showdownTally.totalOutcomes, tolerance),
+    numSimulations,
+    precision
+  )
+
+  return createShowdownResults(playerHands, showdownTally, true)
+}
+
+/**
+ * Calculates showdown equity for seats holding ranges, weighting combos and skipping card conflicts.
+ * Range seats report a per-combo breakdown; a null seat is an opponent with unknown cards.
+ * With a precision target, sampling goes on in batches until every seat's equity interval is narrow enough.
+ */
+export function calculateRangeEquity(
+  seats: SeatRange[],
+  communityCards: Card[],
+  method: CalculationMethod = 'simulation',
+  numSimulations: number = 10000,
+  random: RandomGenerator = Math.random,
+  deadCards: Card[] = [],
+  precision?: PrecisionTarget
+): PlayerEquity[] {
+  const blockedCards = [...communityCards, ...deadCards]
+  const ranges = seats.map(range => range && removeBlockers(range, blockedCards))
+
+  if (ranges.some(range => range !== null && range.totalCombos === 0)) {
+    throw new Error('EMPTY_RANGE')
+  }
+
+  const tallies = seats.map(createEquityTally)
+  const comboTallies = seats.map(() => new Map<RangeCombo, ComboTally>())
+  let totalOutcomes = 0
+
+  const recordTable = (combos: (RangeCombo | null)[], table: SimulatedTable, weight: number) => {
+    const winners = findWinners(table.seats, table.board)
+    recordShowdown(tallies, winners, weight)
+    totalOutcomes += weight
+
+    const potShareOf = (index: number) => (winners.includes(index) ? 1 / winners.length : 0)
+    combos.forEach((combo, index) => {
+      if (!combo) return
+
+      const tally = comboTallies[index].get(combo) ?? { potShare: 0, playerPotShare: 0, outcomes: 0 }
+      tally.potShare += potShareOf(index) * weight
+      tally.playerPotShare += potShareOf(0) * weight
+      tally.outcomes += weight
+      comboTallies[index].set(combo, tally)
+    })
+  }
+
+  const hasUnknownSeats = ranges.some(range => range === null)
+  let isSampled = false
+
+  // Exact enumeration needs every holding to be a range; so does a complete board with a single run-out
+  if (!hasUnknownSeats && (method === 'exact' || communityCards.length === 5)) {
+    for (const assignment of enumerateRangeAssignments(ranges as HandRange[], blockedCards)) {
+      const holdings = assignment.combos.map(combo => combo?.cards ?? [])
+
+      for (const board of enumerateBoards([...holdings.flat(), ...deadCards], communityCards)) {
+        recordTable(assignment.combos, { seats: holdings, board }, assignment.weight)
+      }
+    }
+
+    // Every assignment shared a card, so no hand could be dealt
+    if (totalOutcomes === 0) {
+      throw new Error('RANGE_CONFLICT')
+    }
+  } else if (method === 'exact') {
+    throw new Error('EXACT_REQUIRES_KNOWN_HANDS')
+  } else {
+    isSampled = true
+    sampleShowdowns(
+      count => {
+        for (let i = 0; i < count; i++) {
+          const combos = sampleRangeAssignment(ranges, random)
+          const [table] = simulateTableDeal(combos.map(combo => combo?.cards ?? []), communityCards, 1, 2, random, deadCards)
+          recordTable(combos, table, 1)
+        }
+      },
+      tolerance => isEquityWithinTolerance(tallies, totalOutcomes, tolerance),
+      numSimulations,
+      precision
+    )
+  }
+
+  const holeCards = ranges.map(range => (range?.totalCombos === 1 ? range.combos[0].cards : []))
+  const results = createEquityResults(holeCards, tallies, totalOutcomes, isSampled)
+
+  return results.map((result, index) => {
+    const range = ranges[index]
+    if (!range || range.totalCombos === 1) return result
+
+    return {
+      ...result,
+      range: formatRange(range),
+      combos: createComboEquityResults(range, comboTallies[index])
+    }
+  })
+}
+
+/**
+ * Enumerates every conflict-free combination of combos across the seats' ranges
+ */
+function* enumerateRangeAssignments(
+  ranges: HandRange[],
+  blockedCards: Card[]
+): Generator<RangeAssignment> {
+  const usedIds = new Set(blockedCards.map(card => card.id))
+  const combos: RangeCombo[] = []
+
+  function* assignSeat(index: number, weight: number): Generator<RangeAssignment> {
+    if (index === ranges.length) {
+      yield { combos: [...combos], weight }
+      return
+    }
+
+    for (const combo of ranges[index].combos) {
+      if (combo.cards.some(card => usedIds.has(card.id))) continue
+
+      combo.cards.forEach(card => usedIds.add(card.id))
+      combos.push(combo)
+      yield* assignSeat(index + 1, weight * combo.weight)
+      combos.pop()
+      combo.cards.forEach(card => usedIds.delete(card.id))
+    }
+  }
+
+  yield* assignSeat(0, 1)
+}
+
+/**
+ * Draws one combo per range seat in proportion to the combo weights, redrawing on card conflicts
+ */
+function sampleRangeAssignment(ranges: SeatRange[], random: RandomGenerator): (RangeCombo | null)[] {
+  for (let attempt = 0; attempt < MAX_SAMPLING_ATTEMPTS; attempt++) {
+    const usedIds = new Set<string>()
+    const combos: (RangeCombo | null)[] = []
+
+    for (const range of ranges) {
+      if (!range) {
+        combos.push(null)
+        continue
+      }
+
+      const combo = sampleCombo(range, random)
+      if (combo.cards.some(card => usedIds.has(card.id))) break
+
+      combo.cards.forEach(card => usedIds.add(card.id))
+      combos.push(combo)
+    }
+
+    if (combos.length === ranges.length) {
+      return combos
+    }
+  }
+
+  throw new Error('RANGE_CONFLICT')
+}
+
+/**
+ * Draws a combo from a range in proportion to its weight
+ */
+function sampleCombo(range: HandRange, random: RandomGenerator): RangeCombo {
+  let target = random() * range.weightedCombos
+
+  for (const combo of range.combos) {
+    target -= combo.weight
+    if (target < 0) return combo
+  }
+
+  return range.combos[range.combos.length - 1]
+}
+
+/**
+ * Enumerates every board run-out with the players' hands fixed, one table per suit family
+ */
+function* enumerateTables(
+  playerHands: Card[][],
+  communityCards: Card[],
+  deadCards: Card[],
+  deck: DeckType = 'standard',
+  boardSize: number = 5
+): Generator<SimulatedTable> {
+  for (const { board, weight } of enumerateIsomorphicBoards([...playerHands, deadCards], communityCards, deck, boardSize)) {
+    yield { seats: playerHands, board, weight }
+  }
+}
+
+/**
+ * Runs sampled showdowns: a fixed number, or with a precision target in batches until the results are
+ * precise enough, the time budget runs out or the simulation cap is reached
+ */
+function sampleShowdowns(
+  runShowdowns: (count: number) => void,
+  isPrecise: (tolerance: number) => boolean,
+  numSimulations: number,
+  precision?: PrecisionTarget
+): void {
+  if (!precision) {
+    runShowdowns(numSimulations)
+    return
+  }
+
+  const startTime = performance.now()
+  let sampled = 0
+
+  do {
+    runShowdowns(SIMULATION_BATCH_SIZE)
+    sampled += SIMULATION_BATCH_SIZE
+  } while (
+    !isPrecise(precision.tolerance) &&
+    performance.now() - startTime < precision.timeBudget &&
+    sampled < MAX_SIMULATIONS
+  )
+}
+
+/**
+ * Creates empty tallies for each player (with split-pot tallies in hi/lo games)
+ */
+function createShowdownTally(playerHands: Card[][], variant: GameVariant = DEFAULT_GAME_VARIANT): ShowdownTally {
+  return {
+    tallies: playerHands.map(createEquityTally),
+    splitTallies: getVariantRules(variant).hiLo
+      ? playerHands.map(() => ({ highShare: 0, lowShare: 0, lows: 0, scoops: 0, quarters: 0 }))
+      : null,
+    totalOutcomes: 0
+  }
+}
+
+function createEquityTally(): EquityTally {
+  return { wins: 0, ties: 0, losses: 0, potShare: 0, potShareSquares: 0 }
+}
+
+/**
+ * Plays out every table and adds each player's results to the tallies
+ */
+function recordTables(
+  showdownTally: ShowdownTally,
+  tables: Iterable<SimulatedTable>,
+  variant: GameVariant = DEFAULT_GAME_VARIANT
+): void {
+  const { tallies, splitTallies } = showdownTally
+
+  for (const table of tables) {
+    const weight = table.weight ?? 1
+    const winners = findWinners(table.seats, table.board, variant)
+
+    if (splitTallies) {
+      const lowRanks = table.seats.map(holeCards => evaluateVariantLowRank(holeCards, table.board, variant))
+      recordSplitShowdown(tallies, splitTallies, winners, lowRanks, weight)
+    } else {
+      recordShowdown(tallies, winners, weight)
+    }
+    showdownTally.totalOutcomes += weight
+  }
+}
+
+/**
+ * Creates each player's equity results from the tallies
+ */
+function createShowdownResults(
+  playerHands: Card[][],
+  { tallies, splitTallies, totalOutcomes }: ShowdownTally,
+  isSampled: boolean = false
+): PlayerEquity[] {
+  const results = createEquityResults(playerHands, tallies, totalOutcomes, isSampled)
+  if (!splitTallies) return results
+
+  return results.map((result, index) => ({
+    ...result,
+    splitPot: createSplitPotEquity(splitTallies[index], totalOutcomes)
+  }))
+}
+
+/**
+ * Finds the indexes of the players holding the best hand on a complete board
+ */
+function findWinners(playerHands: Card[][], board: Card[], variant: GameVariant = DEFAULT_GAME_VARIANT): number[] {
+  let winners = [0]
+  let bestRank = evaluateVariantHandRank(playerHands[0], board, variant)
+
+  for (let i = 1; i < playerHands.length; i++) {
+    const handRank = evaluateVariantHandRank(playerHands[i], board, variant)
+
+    if (handRank > bestRank) {
+      winners = [i]
+      bestRank = handRank
+    } else if (handRank === bestRank) {
+      winners.push(i)
+    }
+  }
+
+  return winners
+}
+
+/**
+ * Records a single showdown outcome, splitting the pot between tied winners (weighted for range combos)
+ */
+function recordShowdown(tallies: EquityTally[], winners: number[], weight: number = 1): void {
+  tallies.forEach((tally, index) => {
+    if (!winners.includes(index)) {
+      tally.losses += weight
+    } else if (winners.length === 1) {
+      tally.wins += weight
+      tally.potShare += weight
+      tally.potShareSquares += weight
+    } else {
+      tally.ties += weight
+      tally.potShare += weight / winners.length
+      tally.potShareSquares += weight / (winners.length * winners.length)
+    }
+  })
+}
+
+/**
+ * Records a hi/lo showdown: the best high hand takes half the pot and the best qualifying low the other half,
+ * or the high hand takes it all when no low qualifies. A win is a scoop and a tie any partial share of the pot
+ * (weighted for enumerated suit families).
+ */
+function recordSplitShowdown(
+  tallies: EquityTally[],
+  splitTallies: SplitPotTally[],
+  highWinners: number[],
+  lowRanks: number[],
+  weight: number = 1
+): void {
+  const bestLow = Math.max(...lowRanks)
+  const lowWinners = bestLow === NO_LOW ? [] : lowRanks.flatMap((rank, index) => (rank === bestLow ? [index] : []))
+  const highPot = lowWinners.length > 0 ? 0.5 : 1
+
+  tallies.forEach((tally, index) => {
+    const highShare = highWinners.includes(index) ? 1 / highWinners.length : 0
+    const lowShare = lowWinners.includes(index) ? 1 / lowWinners.length : 0
+    const potShare = highShare * highPot + lowShare * (1 - highPot)
+
+    const splitTally = splitTallies[index]
+    splitTally.highShare += highShare * weight
+    splitTally.lowShare += lowShare * weight
+    if (lowRanks[index] !== NO_LOW) splitTally.lows += weight
+
+    // Quartered: sharing one half of a split pot while winning none of the other
+    const isQuartered = highPot < 1 && ((highShare > 0 && highShare < 1 && lowShare === 0) ||
+      (lowShare > 0 && lowShare < 1 && highShare === 0))
+    if (isQuartered) splitTally.quarters += weight
+
+    if (potShare === 1) {
+      tally.wins += weight
+      splitTally.scoops += weight
+    } else if (potShare === 0) {
+      tally.losses += weight
+    } else {
+      tally.ties += weight
+    }
+    tally.potShare += potShare * weight
+    tally.potShareSquares += potShare * potShare * weight
+  })
+}
+
+/**
+ * Creates a player's hi/lo split-pot figures
+ */
+function createSplitPotEquity(tally: SplitPotTally, totalOutcomes: number): SplitPotEquity {
+  return {
+    highEquity: (tally.highShare / totalOutcomes) * 100,
+    lowEquity: (tally.lowShare / totalOutcomes) * 100,
+    lowPercentage: (tally.lows / totalOutcomes) * 100,
+    scoopPercentage: (tally.scoops / totalOutcomes) * 100,
+    quarteredPercentage: (tally.quarters / totalOutcomes) * 100
+  }
+}
+
+/**
+ * Creates equity result objects (sampled equity carries error bars; enumerated equity is exact)
+ */
+function createEquityResults(
+  playerHands: Card[][],
+  tallies: EquityTally[],
+  totalOutcomes: number,
+  isSampled: boolean = false
+): PlayerEquity[] {
+  return tallies.map((tally, index) => {
+    const potShare = tally.potShare / totalOutcomes
+
+    return {
+      holeCards: playerHands[index],
+      wins: tally.wins,
+      ties: tally.ties,
+      losses: tally.losses,
+      winPercentage: (tally.wins / totalOutcomes) * 100,
+      tiePercentage: (tally.ties / totalOutcomes) * 100,
+      losePercentage: (tally.losses / totalOutcomes) * 100,
+      equity: potShare * 100,
+      standardError: isSampled ? getEquityStandardError(tally, totalOutcomes) : 0,
+      confidenceInterval: isSampled
+        ? getEquityConfidenceInterval(tally, totalOutcomes)
+        : { lower: potShare, upper: potShare },
+      totalOutcomes
+    }
+  })
+}
+
+/**
+ * Standard error of a player's sampled pot share
+ */
+function getEquityStandardError(tally: EquityTally, totalOutcomes: number): number {
+  if (totalOutcomes === 0) return 0
+
+  const mean = tally.potShare / totalOutcomes
+  const variance = Math.max(0, tally.potShareSquares / totalOutcomes - mean * mean)
+  return Math.sqrt(variance / totalOutcomes)
+}
+
+/**
+ * 95% normal-approximation interval for a player's sampled pot share
+ */
+function getEquityConfidenceInterval(tally: EquityTally, totalOutcomes: number): ConfidenceInterval {
+  if (totalOutcomes === 0) {
+    return { lower: 0, upper: 1 }
+  }
+
+  const mean = tally.potShare / totalOutcomes
+  const halfWidth = Z_95 * getEquityStandardError(tally, totalOutcomes)
+
+  return {
+    lower: Math.max(0, mean - halfWidth),
+    upper: Math.min(1, mean + halfWidth)
+  }
+}
+
+/**
+ * Checks whether every player's 95% equity interval half-width is within the tolerance
+ */
+function isEquityWithinTolerance(tallies: EquityTally[], totalOutcomes: number, tolerance: number): boolean {
+  return tallies.every(tally => {
+    const interval = getEquityConfidenceInterval(tally, totalOutcomes)
+    return (interval.upper - interval.lower) / 2 <= tolerance
+  })
+}
+
+/**
+ * Creates per-combo equity results for a range seat, skipping combos that never reached showdown
+ */
+function createComboEquityResults(range: HandRange, comboTallies: Map<RangeCombo, ComboTally>): ComboEquity[] {
+  return range.combos.flatMap(combo => {
+    const tally = comboTallies.get(combo)
+    if (!tally) return []
+
+    return [{
+      cards: combo.cards,
+      weight: combo.weight,
+      equity: (tally.potShare / tally.outcomes) * 100,
+      playerEquity: (tally.playerPotShare / tally.outcomes) * 100,
+      totalOutcomes: tally.outcomes
+    }]
+  })
+}
\ No newline at end of file
@@ -3,37 +3,38 @@
  * Functions for evaluating and ranking poker hands
  */
 
-import type { Card } from '../../../types/card'
+import type { Card, DeckType } from '../../../types/card'
+import { DECK_RANKS } from '../../../types/card'
 import type { HandEvaluation } from '../../../types/poker'
-import { HandStrength } from '../../../types/poker'
+import { HandStrength, HAND_TYPE_ORDER } from '../../../types/poker'
 
 /**
- * Evaluates the best 5-card poker hand from 5-7 cards
+ * Evaluates the best 5-card poker hand from 5-7 cards under a deck's hand ranking
  */
-export function evaluatePokerHand(cards: Card[]): HandEvaluation {
+export function evaluatePokerHand(cards: Card[], deck: DeckType = 'standard'): HandEvaluation {
   if (cards.length < 5) {
     throw new Error('INSUFFICIENT_CARDS')
   }
 
   if (cards.length === 5) {
-    return evaluateFiveCardHand(cards)
+    return evaluateFiveCardHand(cards, deck)
   }
 
   // For 6-7 cards, find the best 5-card combination
-  return findBestFiveCardHand(cards)
+  return findBestFiveCardHand(cards, deck)
 }
 
 /**
- * Evaluates exactly 5 cards
+ * Evaluates exactly 5 cards (five cards cannot make both a flush and a full house, so one check order suits every deck)
  */
-function evaluateFiveCardHand(cards: Card[]): HandEvaluation {
+function evaluateFiveCardHand(cards: Card[], deck: DeckType): HandEvaluation {
   const sortedCards = [...cards].sort((a, b) => b.value - a.value)
   
   // Check for each hand type in order of strength
   let result = checkRoyalFlush(sortedCards)
   if (result) return result
 
-  result = checkStraightFlush(sortedCards)
+  result = checkStraightFlush(sortedCards, deck)
   if (result) return result
 
   result = checkFourOfAKind(sortedCards)
@@ -45,7 +46,7 @@ function evaluateFiveCardHand(cards: Card[]): HandEvaluation {
   result = checkFlush(sortedCards)
   if (result) return result
 
-  result = checkStraight(sortedCards)
+  result = checkStraight(sortedCards, deck)
   if (result) return result
 
   result = checkThreeOfAKind(sortedCards)
@@ -69,20 +70,15 @@ function evaluateFiveCardHand(cards: Card[]): HandEvaluation {
 /**
  * Finds best 5-card hand from 6-7 cards
  */
-function findBestFiveCardHand(cards: Card[]): HandEvaluation {
+function findBestFiveCardHand(cards: Card[], deck: DeckType): HandEvaluation {
   const combinations = getCombinations(cards, 5)
   let bestHand: HandEvaluation | null = null
 
   for (const combo of combinations) {
-    const evaluation = evaluateFiveCardHand(combo)
-    
-    if (!bestHand || evaluation.handStrength > bestHand.handStrength) {
+    const evaluation = evaluateFiveCardHand(combo, deck)
+
+    if (!bestHand || compareEvaluations(evaluation, bestHand, deck) > 0) {
       bestHand = evaluation
-    } else if (evaluation.handStrength === bestHand.handStrength) {
-      // Compare kickers for same hand strength
-      if (compareHands(evaluation, bestHand) > 0) {
-        bestHand = evaluation
-      }
     }
   }
 
@@ -126,16 +122,17 @@ function checkRoyalFlush(cards: Card[]): HandEvaluation | null {
   return null
 }
 
-function checkStraightFlush(cards: Card[]): HandEvaluation | null {
+function checkStraightFlush(cards: Card[], deck: DeckType): HandEvaluation | null {
   const flushResult = checkFlush(cards)
-  const straightResult = checkStraight(cards)
+  const straightResult = checkStraight(cards, deck)
 
   if (flushResult && straightResult) {
+    // Use the straight ordering so a steel wheel ranks 5-high, not ace-high
     return {
-      bestHand: cards,
+      bestHand: straightResult.bestHand,
       handStrength: HandStrength.STRAIGHT_FLUSH,
       kickers: [],
-      description: `Straight Flush, ${cards[0].display} high`
+      description: `Straight Flush, ${straightResult.bestHand[0].display} high`
     }
   }
 
@@ -199,7 +196,7 @@ function checkFlush(cards: Card[]): HandEvaluation | null {
   return null
 }
 
-function checkStraight(cards: Card[]): HandEvaluation | null {
+function checkStraight(cards: Card[], deck: DeckType): HandEvaluation | null {
   const uniqueValues = [...new Set(cards.map(c => c.value))].sort((a, b) => b - a)
   
   // Check for regular straight
@@ -218,27 +215,16 @@ function checkStraight(cards: Card[]): HandEvaluation | null {
     }
   }
 
-  // Check for A-2-3-4-5 straight (wheel)
-  const hasAce = cards.some(c => c.rank === 'A')
-  const hasTwo = cards.some(c => c.rank === '2')
-  const hasThree = cards.some(c => c.rank === '3')
-  const hasFour = cards.some(c => c.rank === '4')
-  const hasFive = cards.some(c => c.rank === '5')
-
-  if (hasAce && hasTwo && hasThree && hasFour && hasFive) {
-    const wheelCards = [
-      cards.find(c => c.rank === '5')!,
-      cards.find(c => c.rank === '4')!,
-      cards.find(c => c.rank === '3')!,
-      cards.find(c => c.rank === '2')!,
-      cards.find(c => c.rank === 'A')!
-    ]
+  // Check for the wheel: the ace playing low under the deck's four lowest ranks (A-2-3-4-5, or A-6-7-8-9 in a short deck)
+  const wheelRanks = [...DECK_RANKS[deck].slice(1, 5).reverse(), DECK_RANKS[deck][0]]
+  const wheelCards = wheelRanks.map(rank => cards.find(c => c.rank === rank))
 
+  if (wheelCards.every(card => card !== undefined)) {
     return {
-      bestHand: wheelCards,
+      bestHand: wheelCards as Card[],
       handStrength: HandStrength.STRAIGHT,
       kickers: [],
-      description: 'Straight, 5 high (wheel)'
+      description: `Straight, ${wheelRanks[0]} high (wheel)`
     }
   }
 
@@ -337,19 +323,23 @@ function countSuits(cards: Card[]): Record<string, number> {
   return counts
 }
 
-function compareHands(hand1: HandEvaluation, hand2: HandEvaluation): number {
-  // Compare primary hand values first
+/**
+ * Compares two evaluated hands (positive if hand1 wins, negative if hand2 wins, 0 for a tie)
+ */
+export function compareEvaluations(hand1: HandEvaluation, hand2: HandEvaluation, deck: DeckType = 'standard'): number {
+  // Compare hand types first, in the deck's ranking
   if (hand1.handStrength !== hand2.handStrength) {
-    return hand1.handStrength - hand2.handStrength
+    const order = HAND_TYPE_ORDER[deck]
+    return order.indexOf(hand1.handStrength) - order.indexOf(hand2.handStrength)
   }
 
-  // Compare kickers
-  for (let i = 0; i < Math.max(hand1.kickers.length, hand2.kickers.length); i++) {
-    const kicker1Value = hand1.kickers[i]?.value || 0
-    const kicker2Value = hand2.kickers[i]?.value || 0
+  // Best hands are ordered by significance (e.g. pair before kickers), so compare card by card
+  for (let i = 0; i < Math.max(hand1.bestHand.length, hand2.bestHand.length); i++) {
+    const card1Value = hand1.bestHand[i]?.value || 0
+    const card2Value = hand2.bestHand[i]?.value || 0
     
-    if (kicker1Value !== kicker2Value) {
-      return kicker1Value - kicker2Value
+    if (card1Value !== card2Value) {
+      return card1Value - card2Value
     }
   }
 
@@ -0,0 +1,252 @@
+/**
+ * Fast Poker Hand Evaluation
+ * Bitmask evaluator returning comparable integer hand ranks for hot loops (simulation, enumeration, equity)
+ *
+ * Cards are encoded as integers 0-51 (rank index * 4 + suit index, rank index 0 = deuce).
+ * A hand rank packs the hand type and up to five tie-breaking rank indexes into one 32-bit integer:
+ *   bits 24-27: the hand type's place in the deck's ranking (HAND_TYPE_ORDER)
+ *   bits 20-23: HandStrength
+ *   bits 16-19, 12-15, 8-11, 4-7, 0-3: significant ranks (rank index + 1, 0 when unused), most significant first
+ * so a higher rank always wins and equal ranks split the pot.
+ */
+
+import type { Card, DeckType, Suit } from '../../../types/card'
+import { DECK_RANKS, CARD_VALUES } from '../../../types/card'
+import { HandStrength, HAND_TYPE_ORDER } from '../../../types/poker'
+
+const RANK_COUNT = 13
+const ACE_INDEX = 12
+const HAND_STRENGTH_SHIFT = 20
+const HAND_ORDER_SHIFT = 24
+
+const SUIT_INDEX: Record<Suit, number> = {
+  hearts: 0,
+  diamonds: 1,
+  clubs: 2,
+  spades: 3
+}
+
+// Lowest rank index below the ace in each deck: the ace plays low under it to make the smallest straight
+const LOWEST_RANK_INDEX: Record<DeckType, number> = {
+  standard: Math.min(...DECK_RANKS.standard.map(rank => CARD_VALUES[rank])) - 2,
+  short: Math.min(...DECK_RANKS.short.map(rank => CARD_VALUES[rank])) - 2
+}
+
+// Where each HandStrength ranks in each deck
+const HAND_ORDER: Record<DeckType, Uint8Array> = {
+  standard: getHandOrder('standard'),
+  short: getHandOrder('short')
+}
+
+// Precomputed per 13-bit rank mask: number of ranks present and the high rank index of the best straight in each deck
+const POPCOUNT = new Uint8Array(1 << RANK_COUNT)
+const STRAIGHT_HIGH: Record<DeckType, Int8Array> = {
+  standard: new Int8Array(1 << RANK_COUNT),
+  short: new Int8Array(1 << RANK_COUNT)
+}
+
+for (let mask = 0; mask < 1 << RANK_COUNT; mask++) {
+  POPCOUNT[mask] = (mask & 1) + POPCOUNT[mask >> 1]
+  STRAIGHT_HIGH.standard[mask] = findStraightHigh(mask)
+  STRAIGHT_HIGH.short[mask] = findStraightHigh(mask, 'short')
+}
+
+// Scratch buffers reused across calls to avoid allocating in hot loops
+const rankCounts = new Uint8Array(RANK_COUNT)
+const suitMasks = new Uint16Array(4)
+
+/**
+ * Encodes a card as an integer 0-51
+ */
+export function encodeCard(card: Card): number {
+  return (card.value - 2) * 4 + SUIT_INDEX[card.suit]
+}
+
+/**
+ * Evaluates 5-7 cards to a comparable hand rank (higher is better) under a deck's hand ranking
+ */
+export function evaluateHandRank(cards: Card[], deck: DeckType = 'standard'): number {
+  const codes = new Array<number>(cards.length)
+  for (let i = 0; i < cards.length; i++) {
+    codes[i] = encodeCard(cards[i])
+  }
+
+  return evaluateEncodedHand(codes, cards.length, deck)
+}
+
+/**
+ * Evaluates the first `length` encoded cards to a comparable hand rank in a single pass
+ */
+export function evaluateEncodedHand(codes: ArrayLike<number>, length: number = codes.length, deck: DeckType = 'standard'): number {
+  const handRank = rankEncodedHand(codes, length, deck)
+  return (HAND_ORDER[deck][handRank >> HAND_STRENGTH_SHIFT] << HAND_ORDER_SHIFT) | handRank
+}
+
+/**
+ * Extracts the hand type from a hand rank
+ */
+export function getHandStrengthFromRank(handRank: number): HandStrength {
+  return ((handRank >> HAND_STRENGTH_SHIFT) & 0xf) as HandStrength
+}
+
+/**
+ * Ranks encoded cards by hand type and tie-breaking ranks, before ordering the hand type for the deck
+ */
+function rankEncodedHand(codes: ArrayLike<number>, length: number, deck: DeckType): number {
+  const straightHighs = STRAIGHT_HIGH[deck]
+  rankCounts.fill(0)
+  suitMasks.fill(0)
+
+  for (let i = 0; i < length; i++) {
+    const rank = codes[i] >> 2
+    rankCounts[rank]++
+    suitMasks[codes[i] & 3] |= 1 << rank
+  }
+
+  let flushMask = 0
+  for (let suit = 0; suit < 4; suit++) {
+    if (POPCOUNT[suitMasks[suit]] >= 5) {
+      flushMask = suitMasks[suit]
+    }
+  }
+
+  if (flushMask) {
+    const straightFlushHigh = straightHighs[flushMask]
+    if (straightFlushHigh >= 0) {
+      const strength = straightFlushHigh === ACE_INDEX ? HandStrength.ROYAL_FLUSH : HandStrength.STRAIGHT_FLUSH
+      return packRank(strength, straightFlushHigh)
+    }
+  }
+
+  // Group ranks by how many times they appear, highest ranks first
+  let quad = -1
+  let trip = -1
+  let secondTrip = -1
+  let pair = -1
+  let secondPair = -1
+  let rankMask = 0
+
+  for (let rank = ACE_INDEX; rank >= 0; rank--) {
+    const count = rankCounts[rank]
+    if (count === 0) continue
+
+    rankMask |= 1 << rank
+    if (count === 4) {
+      quad = rank
+    } else if (count === 3) {
+      if (trip < 0) trip = rank
+      else if (secondTrip < 0) secondTrip = rank
+    } else if (count === 2) {
+      if (pair < 0) pair = rank
+      else if (secondPair < 0) secondPair = rank
+    }
+  }
+
+  if (quad >= 0) {
+    return packRank(HandStrength.FOUR_OF_A_KIND, quad, highestRank(rankMask & ~(1 << quad)))
+  }
+
+  // A short-deck flush outranks a full house, so it is found first
+  if (flushMask && deck === 'short') {
+    return packKickers(HandStrength.FLUSH, flushMask, 5)
+  }
+
+  if (trip >= 0 && (secondTrip >= 0 || pair >= 0)) {
+    return packRank(HandStrength.FULL_HOUSE, trip, Math.max(secondTrip, pair))
+  }
+
+  if (flushMask) {
+    return packKickers(HandStrength.FLUSH, flushMask, 5)
+  }
+
+  const straightHigh = straightHighs[rankMask]
+  if (straightHigh >= 0) {
+    return packRank(HandStrength.STRAIGHT, straightHigh)
+  }
+
+  if (trip >= 0) {
+    const kickers = collectKickers(rankMask & ~(1 << trip), 2)
+    return packRank(HandStrength.THREE_OF_A_KIND, trip, kickers[0], kickers[1])
+  }
+
+  if (pair >= 0 && secondPair >= 0) {
+    // A third pair can still play as the kicker
+    const kicker = highestRank(rankMask & ~(1 << pair) & ~(1 << secondPair))
+    return packRank(HandStrength.TWO_PAIR, pair, secondPair, kicker)
+  }
+
+  if (pair >= 0) {
+    const kickers = collectKickers(rankMask & ~(1 << pair), 3)
+    return packRank(HandStrength.PAIR, pair, kickers[0], kickers[1], kickers[2])
+  }
+
+  return packKickers(HandStrength.HIGH_CARD, rankMask, 5)
+}
+
+/**
+ * Packs a hand type and its significant rank indexes into a hand rank
+ */
+function packRank(strength: HandStrength, ...ranks: number[]): number {
+  let handRank = strength << HAND_STRENGTH_SHIFT
+
+  for (let i = 0; i < ranks.length; i++) {
+    handRank |= (ranks[i] + 1) << (16 - i * 4)
+  }
+
+  return handRank
+}
+
+/**
+ * Packs a hand type with the highest `count` ranks of a rank mask
+ */
+function packKickers(strength: HandStrength, rankMask: number, count: number): number {
+  return packRank(strength, ...collectKickers(rankMask, count))
+}
+
+/**
+ * Collects up to `count` rank indexes from a rank mask, highest first
+ */
+function collectKickers(rankMask: number, count: number): number[] {
+  const kickers: number[] = []
+
+  for (let rank = ACE_INDEX; rank >= 0 && kickers.length < count; rank--) {
+    if (rankMask & (1 << rank)) kickers.push(rank)
+  }
+
+  return kickers
+}
+
+/**
+ * Gets the highest rank index in a rank mask
+ */
+function highestRank(rankMask: number): number {
+  return rankMask ? 31 - Math.clz32(rankMask) : -1
+}
+
+/**
+ * Finds the high rank index of the best straight in a rank mask (-1 if none)
+ */
+export function findStraightHigh(rankMask: number, deck: DeckType = 'standard'): number {
+  const lowest = LOWEST_RANK_INDEX[deck]
+
+  for (let high = ACE_INDEX; high >= lowest + 4; high--) {
+    const run = 0b11111 << (high - 4)
+    if ((rankMask & run) === run) return high
+  }
+
+  // Wheel: the ace plays low under the deck's four lowest ranks (A-2-3-4-5, or A-6-7-8-9 in a short deck)
+  const wheel = (1 << ACE_INDEX) | (0b1111 << lowest)
+  return (rankMask & wheel) === wheel ? lowest + 3 : -1
+}
+
+/**
+ * Maps each HandStrength to its place in a deck's hand ranking
+ */
+function getHandOrder(deck: DeckType): Uint8Array {
+  const order = new Uint8Array(HAND_TYPE_ORDER[deck].length)
+  HAND_TYPE_ORDER[deck].forEach((strength, index) => {
+    order[strength] = index
+  })
+
+  return order
+}
\ No newline at end of file
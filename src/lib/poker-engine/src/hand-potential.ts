@@ -0,0 +1,149 @@
+/**
+ * Hand Strength and Potential
+ * Functions for measuring how often a hand is ahead of a random opponent hand now, and how that changes by the river
+ */
+
+import type { Card } from '../../../types/card'
+import type { HandPotential } from '../../../types/poker'
+import { encodeCard, evaluateEncodedHand } from './fast-evaluation'
+import { getRemainingCards } from '../../card-utils/src/deck'
+import type { RandomGenerator } from '../../card-utils/src/random'
+
+const AHEAD = 0
+const TIED = 1
+const BEHIND = 2
+
+const DECK_SIZE = 52
+
+// Run-outs sampled per opponent hand on the flop, where enumerating both cards to come is too slow
+const FLOP_RUNOUTS_PER_HAND = 50
+
+/**
+ * Calculates hand strength (HS), positive and negative potential (PPot, NPot) and effective hand strength (EHS)
+ * against every opponent hand of the unseen cards. Turn run-outs are enumerated; flop run-outs are sampled.
+ * Dead cards are neither held nor dealt.
+ */
+export function calculateHandPotential(
+  playerHand: Card[],
+  communityCards: Card[],
+  random: RandomGenerator = Math.random,
+  deadCards: Card[] = []
+): HandPotential {
+  const unseen = getRemainingCards([...playerHand, ...communityCards, ...deadCards]).map(encodeCard)
+  const boardSize = communityCards.length
+  const cardsToCome = 5 - boardSize
+
+  // Board first, then the run-out, then the hole cards being evaluated
+  const cards = new Uint8Array(7)
+  communityCards.forEach((card, index) => {
+    cards[index] = encodeCard(card)
+  })
+
+  const evaluate = (hole1: number, hole2: number, runoutLength: number): number => {
+    cards[boardSize + runoutLength] = hole1
+    cards[boardSize + runoutLength + 1] = hole2
+    return evaluateEncodedHand(cards, boardSize + runoutLength + 2)
+  }
+
+  const setRunout = (turn: number, river: number = 0) => {
+    cards[boardSize] = turn
+    cards[boardSize + 1] = river
+  }
+
+  const [player1, player2] = playerHand.map(encodeCard)
+  const playerRank = evaluate(player1, player2, 0)
+
+  // The player's rank for every run-out, keyed by the run-out's card codes
+  const playerRunoutRanks = new Int32Array(DECK_SIZE * DECK_SIZE)
+  forEachPair(unseen.length, cardsToCome, (a, b) => {
+    setRunout(unseen[a], b >= 0 ? unseen[b] : 0)
+    const handRank = evaluate(player1, player2, cardsToCome)
+    playerRunoutRanks[getRunoutKey(unseen[a], b >= 0 ? unseen[b] : -1)] = handRank
+    if (b >= 0) playerRunoutRanks[getRunoutKey(unseen[b], unseen[a])] = handRank
+  })
+
+  // Opponent hands by where they stand now, and by where they stand now and on the river
+  const totals = [0, 0, 0]
+  const transitions = [[0, 0, 0], [0, 0, 0], [0, 0, 0]]
+
+  const recordRunout = (now: number, hole1: number, hole2: number, turn: number, river: number, weight: number) => {
+    setRunout(turn, river)
+    const final = compareRanks(playerRunoutRanks[getRunoutKey(turn, river)], evaluate(hole1, hole2, cardsToCome))
+    transitions[now][final] += weight
+  }
+
+  for (let i = 0; i < unseen.length; i++) {
+    for (let j = i + 1; j < unseen.length; j++) {
+      const now = compareRanks(playerRank, evaluate(unseen[i], unseen[j], 0))
+      totals[now]++
+
+      // Each opponent hand carries the same weight however many run-outs it has
+      if (cardsToCome === 1) {
+        const weight = 1 / (unseen.length - 2)
+        for (let k = 0; k < unseen.length; k++) {
+          if (k !== i && k !== j) recordRunout(now, unseen[i], unseen[j], unseen[k], -1, weight)
+        }
+      } else if (cardsToCome === 2) {
+        const weight = 1 / FLOP_RUNOUTS_PER_HAND
+        for (let sample = 0; sample < FLOP_RUNOUTS_PER_HAND;) {
+          const turn = Math.floor(random() * unseen.length)
+          const river = Math.floor(random() * unseen.length)
+          if (turn === river || turn === i || turn === j || river === i || river === j) continue
+
+          recordRunout(now, unseen[i], unseen[j], unseen[turn], unseen[river], weight)
+          sample++
+        }
+      }
+    }
+  }
+
+  const totalHands = totals[AHEAD] + totals[TIED] + totals[BEHIND]
+  const handStrength = (totals[AHEAD] + totals[TIED] / 2) / totalHands
+  const positivePotential = divide(
+    transitions[BEHIND][AHEAD] + transitions[BEHIND][TIED] / 2 + transitions[TIED][AHEAD] / 2,
+    totals[BEHIND] + totals[TIED] / 2
+  )
+  const negativePotential = divide(
+    transitions[AHEAD][BEHIND] + transitions[TIED][BEHIND] / 2 + transitions[AHEAD][TIED] / 2,
+    totals[AHEAD] + totals[TIED] / 2
+  )
+
+  return {
+    handStrength,
+    positivePotential,
+    negativePotential,
+    effectiveHandStrength: handStrength * (1 - negativePotential) + (1 - handStrength) * positivePotential
+  }
+}
+
+/**
+ * Calls back with each index of the unseen cards (one card to come) or each pair of indexes (two to come, b = -1 otherwise)
+ */
+function forEachPair(count: number, cardsToCome: number, callback: (a: number, b: number) => void): void {
+  for (let a = 0; a < count && cardsToCome > 0; a++) {
+    if (cardsToCome === 1) {
+      callback(a, -1)
+      continue
+    }
+
+    for (let b = a + 1; b < count; b++) {
+      callback(a, b)
+    }
+  }
+}
+
+/**
+ * Keys a one- or two-card run-out by its card codes (river -1 for a single card)
+ */
+function getRunoutKey(turn: number, river: number): number {
+  return river < 0 ? turn : turn * DECK_SIZE + river
+}
+
+function compareRanks(playerRank: number, opponentRank: number): number {
+  if (playerRank > opponentRank) return AHEAD
+  return playerRank === opponentRank ? TIED : BEHIND
+}
+
+function divide(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0
+}
\ No newline at end of file
@@ -0,0 +1,94 @@
+/**
+ * Hand Ranking on a Board
+ * Functions for ordering every possible holding on a board and placing a hand among them
+ */
+
+import type { Card } from '../../../types/card'
+import type { HoldingRank, RelativeHandStrength } from '../../../types/poker'
+import { evaluatePokerHand } from './evaluation'
+import { evaluateHandRank, getHandStrengthFromRank } from './fast-evaluation'
+import { getRemainingCards } from '../../card-utils/src/deck'
+
+/**
+ * Orders every two-card holding of the unseen cards on a board of 3-5 cards, best first.
+ * Holdings making the exact same hand share a rank.
+ */
+export function enumerateHoldingRanks(communityCards: Card[], deadCards: Card[] = []): HoldingRank[] {
+  const combosByRank = new Map<number, Card[][]>()
+
+  forEachHolding(getRemainingCards([...communityCards, ...deadCards]), communityCards, (holeCards, handRank) => {
+    const combos = combosByRank.get(handRank)
+    if (combos) {
+      combos.push(holeCards)
+    } else {
+      combosByRank.set(handRank, [holeCards])
+    }
+  })
+
+  return [...combosByRank.keys()]
+    .sort((a, b) => b - a)
+    .map((handRank, index) => {
+      const combos = combosByRank.get(handRank) ?? []
+
+      return {
+        rank: index + 1,
+        handStrength: getHandStrengthFromRank(handRank),
+        description: evaluatePokerHand([...combos[0], ...communityCards]).description,
+        combos
+      }
+    })
+}
+
+/**
+ * Places the player's hand among every opponent holding of the unseen cards (dead cards cannot be held)
+ */
+export function measureRelativeStrength(
+  playerHand: Card[],
+  communityCards: Card[],
+  deadCards: Card[] = []
+): RelativeHandStrength {
+  const playerRank = evaluateHandRank([...playerHand, ...communityCards])
+  const betterRanks = new Set<number>()
+  let beats = 0
+  let ties = 0
+  let losesTo = 0
+
+  forEachHolding(getRemainingCards([...playerHand, ...communityCards, ...deadCards]), communityCards, (_, handRank) => {
+    if (handRank < playerRank) {
+      beats++
+    } else if (handRank === playerRank) {
+      ties++
+    } else {
+      losesTo++
+      betterRanks.add(handRank)
+    }
+  })
+
+  const totalCombos = beats + ties + losesTo
+
+  return {
+    position: betterRanks.size + 1,
+    description: evaluatePokerHand([...playerHand, ...communityCards]).description,
+    beats,
+    ties,
+    losesTo,
+    totalCombos,
+    percentile: ((beats + ties / 2) / totalCombos) * 100
+  }
+}
+
+/**
+ * Calls back with each two-card holding of the unseen cards and its hand rank on the board
+ */
+function forEachHolding(
+  unseenCards: Card[],
+  communityCards: Card[],
+  callback: (holeCards: Card[], handRank: number) => void
+): void {
+  for (let i = 0; i < unseenCards.length; i++) {
+    for (let j = i + 1; j < unseenCards.length; j++) {
+      const holeCards = [unseenCards[i], unseenCards[j]]
+      callback(holeCards, evaluateHandRank([...holeCards, ...communityCards]))
+    }
+  }
+}
\ No newline at end of file
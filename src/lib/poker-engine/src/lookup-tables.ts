@@ -0,0 +1,100 @@
+/**
+ * Poker Lookup Tables
+ * Precomputed pre-flop results generated by scripts/generate-lookup-tables.ts, and post-flop results kept as they are counted
+ */
+
+import type { Card } from '../../../types/card'
+import { getStartingHandClass, getStartingHandClasses } from '../../card-utils/src/starting-hands'
+import preflopTableData from '../data/preflop-table.json'
+
+export const PREFLOP_TABLE_VERSION = 1
+export const PREFLOP_TOTAL_OUTCOMES = 2118760 // C(50,5) boards for each starting hand
+
+// Post-flop states remembered before the oldest are dropped
+const MAX_POSTFLOP_ENTRIES = 5000
+
+export interface PreflopTable {
+  version: number
+  totalOutcomes: number
+  hands: Record<string, number[]> // Starting-hand class -> final hand type counts, indexed by HandStrength
+}
+
+export interface HandTypeCounts {
+  counts: number[] // Final hand type counts, indexed by HandStrength
+  totalOutcomes: number
+}
+
+let preflopTable: PreflopTable | null = null
+let preflopTableChecked = false
+
+// Post-flop hand type counts filled in as run-outs are counted, keyed by suit-canonical state
+const postflopTable = new Map<string, HandTypeCounts>()
+
+/**
+ * Loads and validates the pre-flop table (null if it is missing or malformed)
+ */
+export function loadPreflopTable(): PreflopTable | null {
+  if (!preflopTableChecked) {
+    preflopTableChecked = true
+    preflopTable = isValidPreflopTable(preflopTableData) ? preflopTableData : null
+  }
+
+  return preflopTable
+}
+
+/**
+ * Reports whether the lookup tables loaded and passed validation
+ */
+export function isLookupTableLoaded(): boolean {
+  return loadPreflopTable() !== null
+}
+
+/**
+ * Looks up the exact final hand type counts for two hole cards before the flop
+ */
+export function lookupPreflopHandTypes(holeCards: Card[]): HandTypeCounts | null {
+  const table = loadPreflopTable()
+  if (!table || holeCards.length !== 2) return null
+
+  const counts = table.hands[getStartingHandClass(holeCards)]
+  if (!counts) return null
+
+  return { counts, totalOutcomes: table.totalOutcomes }
+}
+
+/**
+ * Looks up hand type counts already counted for a suit-canonical post-flop state
+ */
+export function lookupPostflopHandTypes(key: string): HandTypeCounts | null {
+  return postflopTable.get(key) ?? null
+}
+
+/**
+ * Remembers the hand type counts of a suit-canonical post-flop state, dropping the oldest state when full
+ */
+export function storePostflopHandTypes(key: string, entry: HandTypeCounts): void {
+  if (postflopTable.size >= MAX_POSTFLOP_ENTRIES) {
+    const oldestKey = postflopTable.keys().next().value
+    if (oldestKey !== undefined) {
+      postflopTable.delete(oldestKey)
+    }
+  }
+
+  postflopTable.set(key, entry)
+}
+
+/**
+ * Checks table shape: current version, every starting-hand class, counts summing to the total
+ */
+function isValidPreflopTable(table: unknown): table is PreflopTable {
+  const candidate = table as PreflopTable
+  if (!candidate || candidate.version !== PREFLOP_TABLE_VERSION) return false
+  if (candidate.totalOutcomes !== PREFLOP_TOTAL_OUTCOMES || !candidate.hands) return false
+
+  return getStartingHandClasses().every(handClass => {
+    const counts = candidate.hands[handClass]
+    return Array.isArray(counts) &&
+      counts.length === 10 &&
+      counts.reduce((sum, count) => sum + count, 0) === candidate.totalOutcomes
+  })
+}
\ No newline at end of file
@@ -0,0 +1,86 @@
+/**
+ * Low Hand Evaluation
+ * Eight-or-better lows for hi/lo split-pot games: five unpaired cards eight or lower with aces low,
+ * where straights and flushes do not count against the hand
+ */
+
+import type { Card } from '../../../types/card'
+import { CARD_VALUES_ACE_LOW } from '../../../types/card'
+import type { LowHandEvaluation } from '../../../types/poker'
+
+const LOW_QUALIFIER = 8 // Highest card a qualifying low may hold
+const LOW_HAND_SIZE = 5
+
+// Bits 1-8 of a low value mask: the card values that can play in a low
+const QUALIFYING_VALUES_MASK = 0b111111110
+
+// Rank of a hand without a qualifying low; every qualifying low ranks above it
+export const NO_LOW = -1
+
+/**
+ * Evaluates the best eight-or-better low from 5-7 cards, or null when fewer than five unpaired cards are eight or lower
+ */
+export function evaluateLowHand(cards: Card[]): LowHandEvaluation | null {
+  const lowCards = new Map<number, Card>()
+
+  for (const card of cards) {
+    const value = CARD_VALUES_ACE_LOW[card.rank]
+    if (value <= LOW_QUALIFIER && !lowCards.has(value)) {
+      lowCards.set(value, card)
+    }
+  }
+
+  if (lowCards.size < LOW_HAND_SIZE) {
+    return null
+  }
+
+  // The five lowest unpaired cards make the best low
+  const bestHand = [...lowCards.entries()]
+    .sort(([a], [b]) => a - b)
+    .slice(0, LOW_HAND_SIZE)
+    .reverse()
+    .map(([, card]) => card)
+
+  return {
+    bestHand,
+    description: `${bestHand.map(card => card.rank).join('-')} low`
+  }
+}
+
+/**
+ * Evaluates the best eight-or-better low from 5-7 cards to a comparable rank (higher is better, NO_LOW when none qualifies)
+ */
+export function evaluateLowRank(cards: Card[]): number {
+  let valueMask = 0
+  for (const card of cards) {
+    valueMask |= getLowValueBit(card)
+  }
+
+  return rankLowValues(valueMask)
+}
+
+/**
+ * Gets a card's bit in a low value mask (bit 1 = ace up to bit 13 = king)
+ */
+export function getLowValueBit(card: Card): number {
+  return 1 << CARD_VALUES_ACE_LOW[card.rank]
+}
+
+/**
+ * Ranks the best low in a mask of the card values held (higher is better, NO_LOW when none qualifies).
+ * Keeping the five lowest values, the smaller mask is the better low: it compares the highest card first.
+ */
+export function rankLowValues(valueMask: number): number {
+  let lowMask = valueMask & QUALIFYING_VALUES_MASK
+  let count = 0
+  let bestLow = 0
+
+  while (lowMask !== 0 && count < LOW_HAND_SIZE) {
+    const lowestBit = lowMask & -lowMask
+    bestLow |= lowestBit
+    lowMask &= lowMask - 1
+    count++
+  }
+
+  return count === LOW_HAND_SIZE ? QUALIFYING_VALUES_MASK - bestLow : NO_LOW
+}
\ No newline at end of file
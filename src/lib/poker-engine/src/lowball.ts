@@ -0,0 +1,158 @@
+/**
+ * Lowball Evaluation
+ * Deuce-to-seven and ace-to-five rankings, where the lowest hand wins. The high-hand categories still apply
+ * in reverse; the games differ on where aces play and whether straights and flushes count against the hand.
+ */
+
+import type { Card, Rank } from '../../../types/card'
+import { CARD_VALUES_ACE_LOW } from '../../../types/card'
+import type { HandEvaluation } from '../../../types/poker'
+import { HandStrength, HAND_TYPES } from '../../../types/poker'
+import type { LowballRules } from '../../../types/game'
+import { LOWBALL_GAMES } from '../../../types/game'
+import { enumerateCombinations } from '../../card-utils/src/deck'
+
+const LOWBALL_HAND_SIZE = 5
+const VALUE_BITS = 4 // Card values (1-14) each fit in four bits
+
+// One above the highest high-hand score; lowball ranks count down from it so the lowest hand ranks highest
+const HIGH_SCORE_LIMIT = (HandStrength.ROYAL_FLUSH + 1) << (VALUE_BITS * LOWBALL_HAND_SIZE)
+
+const RANK_NAMES: Record<Rank, string> = {
+  'A': 'Ace',
+  '2': 'Two',
+  '3': 'Three',
+  '4': 'Four',
+  '5': 'Five',
+  '6': 'Six',
+  '7': 'Seven',
+  '8': 'Eight',
+  '9': 'Nine',
+  '10': 'Ten',
+  'J': 'Jack',
+  'Q': 'Queen',
+  'K': 'King'
+}
+
+interface ScoredLowballHand {
+  cards: Card[] // Ordered as the hand compares: larger groups first, then higher cards
+  handStrength: HandStrength
+  score: number // High-hand score under the game's rules (lower is the better low)
+}
+
+/**
+ * Evaluates the best deuce-to-seven low from 5-7 cards: aces play high and straights and flushes count
+ */
+export function evaluateDeuceToSevenLow(cards: Card[]): HandEvaluation {
+  return describeLowballHand(findBestLowballHand(cards, LOWBALL_GAMES['27']))
+}
+
+/**
+ * Evaluates the best ace-to-five low from 5-7 cards: aces play low and straights and flushes are ignored
+ */
+export function evaluateAceToFiveLow(cards: Card[]): HandEvaluation {
+  return describeLowballHand(findBestLowballHand(cards, LOWBALL_GAMES.a5))
+}
+
+/**
+ * Evaluates 5-7 cards to a comparable deuce-to-seven rank (higher is the better low, equal ranks tie)
+ */
+export function getDeuceToSevenRank(cards: Card[]): number {
+  return HIGH_SCORE_LIMIT - findBestLowballHand(cards, LOWBALL_GAMES['27']).score
+}
+
+/**
+ * Evaluates 5-7 cards to a comparable ace-to-five rank (higher is the better low, equal ranks tie)
+ */
+export function getAceToFiveRank(cards: Card[]): number {
+  return HIGH_SCORE_LIMIT - findBestLowballHand(cards, LOWBALL_GAMES.a5).score
+}
+
+/**
+ * Finds the five cards with the lowest high-hand score under a lowball game's rules
+ */
+function findBestLowballHand(cards: Card[], rules: LowballRules): ScoredLowballHand {
+  if (cards.length < LOWBALL_HAND_SIZE) {
+    throw new Error('INSUFFICIENT_CARDS')
+  }
+
+  let best: ScoredLowballHand | null = null
+  for (const hand of enumerateCombinations(cards, LOWBALL_HAND_SIZE)) {
+    const scored = scoreLowballHand(hand, rules)
+    if (!best || scored.score < best.score) {
+      best = scored
+    }
+  }
+
+  return best!
+}
+
+/**
+ * Scores exactly five cards as a high hand would rank them, with aces and straights/flushes per the rules
+ */
+function scoreLowballHand(cards: Card[], rules: LowballRules): ScoredLowballHand {
+  const getValue = (card: Card) => rules.acesLow ? CARD_VALUES_ACE_LOW[card.rank] : card.value
+
+  const counts = new Map<number, number>()
+  for (const card of cards) {
+    counts.set(getValue(card), (counts.get(getValue(card)) ?? 0) + 1)
+  }
+
+  const ordered = [...cards].sort((a, b) =>
+    counts.get(getValue(b))! - counts.get(getValue(a))! || getValue(b) - getValue(a)
+  )
+  const groupSizes = [...counts.values()].sort((a, b) => b - a)
+
+  let handStrength = getGroupStrength(groupSizes)
+  if (handStrength === HandStrength.HIGH_CARD && rules.countsStraightsAndFlushes) {
+    const isFlush = cards.every(card => card.suit === cards[0].suit)
+    const isStraight = getValue(ordered[0]) - getValue(ordered[LOWBALL_HAND_SIZE - 1]) === LOWBALL_HAND_SIZE - 1
+
+    if (isFlush && isStraight) {
+      handStrength = ordered[0].rank === 'A' ? HandStrength.ROYAL_FLUSH : HandStrength.STRAIGHT_FLUSH
+    } else if (isFlush) {
+      handStrength = HandStrength.FLUSH
+    } else if (isStraight) {
+      handStrength = HandStrength.STRAIGHT
+    }
+  }
+
+  const score = ordered.reduce((total, card) => (total << VALUE_BITS) | getValue(card), handStrength)
+  return { cards: ordered, handStrength, score }
+}
+
+/**
+ * Gets the hand category made by pairs, trips and quads alone (largest group first)
+ */
+function getGroupStrength(groupSizes: number[]): HandStrength {
+  const [largest, second] = groupSizes
+
+  if (largest === 4) return HandStrength.FOUR_OF_A_KIND
+  if (largest === 3) return second === 2 ? HandStrength.FULL_HOUSE : HandStrength.THREE_OF_A_KIND
+  if (largest === 2) return second === 2 ? HandStrength.TWO_PAIR : HandStrength.PAIR
+  return HandStrength.HIGH_CARD
+}
+
+/**
+ * Describes a lowball hand: unmade hands by their two highest cards (e.g. "Seven-five low"), others by category
+ */
+function describeLowballHand(hand: ScoredLowballHand): HandEvaluation {
+  const { cards, handStrength } = hand
+
+  if (handStrength === HandStrength.HIGH_CARD) {
+    return {
+      bestHand: cards,
+      handStrength,
+      kickers: cards.slice(1),
+      description: `${RANK_NAMES[cards[0].rank]}-${RANK_NAMES[cards[1].rank].toLowerCase()} low`
+    }
+  }
+
+  const ranks = cards.map(card => card.rank).join('-')
+  return {
+    bestHand: cards,
+    handStrength,
+    kickers: cards.filter(card => cards.filter(other => other.rank === card.rank).length === 1),
+    description: `${HAND_TYPES[handStrength].name}: ${ranks}`
+  }
+}
\ No newline at end of file
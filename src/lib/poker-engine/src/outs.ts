@@ -0,0 +1,106 @@
+/**
+ * Outs Analysis
+ * Functions for listing the cards that improve a hand on the flop and turn, and the odds of hitting them
+ */
+
+import type { Card } from '../../../types/card'
+import type { OutCard, OutsAnalysis, OutsGroup, DirtyOutReason } from '../../../types/poker'
+import { HandStrength } from '../../../types/poker'
+import { evaluateHandRank, getHandStrengthFromRank } from './fast-evaluation'
+import { getRemainingCards } from '../../card-utils/src/deck'
+
+/**
+ * Lists every unseen card that improves the player's hand type, grouped by the hand it makes.
+ * Known opponent hands are removed from the deck and used to flag outs that leave an opponent ahead;
+ * dead cards are simply removed.
+ */
+export function analyzeOutCards(
+  playerHand: Card[],
+  communityCards: Card[],
+  opponentHands: Card[][] = [],
+  deadCards: Card[] = []
+): OutsAnalysis {
+  const currentHand = getHandStrengthFromRank(evaluateHandRank([...playerHand, ...communityCards]))
+  const unseenCards = getRemainingCards([...playerHand, ...communityCards, ...opponentHands.flat(), ...deadCards])
+  const cardsToCome = 5 - communityCards.length
+  const outsByHand = new Map<HandStrength, OutCard[]>()
+
+  for (const card of unseenCards) {
+    const board = [...communityCards, card]
+    const playerRank = evaluateHandRank([...playerHand, ...board])
+    const handType = getHandStrengthFromRank(playerRank)
+    if (handType <= currentHand) continue
+
+    const dirtyReasons = findDirtyReasons(card, handType, playerRank, communityCards, opponentHands)
+    const outs = outsByHand.get(handType) ?? []
+    outs.push({ card, handType, isDirty: dirtyReasons.length > 0, dirtyReasons })
+    outsByHand.set(handType, outs)
+  }
+
+  const groups: OutsGroup[] = [...outsByHand.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([handType, outs]) => ({ handType, outs }))
+
+  const totalOuts = groups.reduce((sum, group) => sum + group.outs.length, 0)
+  const cleanOuts = groups.reduce((sum, group) => sum + group.outs.filter(out => !out.isDirty).length, 0)
+
+  return {
+    currentHand,
+    groups,
+    totalOuts,
+    cleanOuts,
+    dirtyOuts: totalOuts - cleanOuts,
+    blanks: unseenCards.length - totalOuts,
+    cardsToCome,
+    ruleOfThumb: Math.min(100, totalOuts * (cardsToCome === 2 ? 4 : 2)),
+    exactPercentage: calculateHitPercentage(totalOuts, unseenCards.length, cardsToCome),
+    cleanExactPercentage: calculateHitPercentage(cleanOuts, unseenCards.length, cardsToCome)
+  }
+}
+
+/**
+ * Finds why an out may not win the pot for the player
+ */
+function findDirtyReasons(
+  card: Card,
+  handType: HandStrength,
+  playerRank: number,
+  communityCards: Card[],
+  opponentHands: Card[][]
+): DirtyOutReason[] {
+  const board = [...communityCards, card]
+  const reasons: DirtyOutReason[] = []
+
+  // The board alone makes the same hand, so every player shares the improvement
+  // (a 4-card board can only make pairs, trips and quads)
+  if (getHandStrengthFromRank(evaluateHandRank(board)) >= handType) {
+    reasons.push('counterfeit')
+  }
+
+  if (handType < HandStrength.FULL_HOUSE && communityCards.some(boardCard => boardCard.rank === card.rank)) {
+    reasons.push('pairs-board')
+  }
+
+  if (handType < HandStrength.FLUSH && board.filter(boardCard => boardCard.suit === card.suit).length >= 3) {
+    reasons.push('flush-card')
+  }
+
+  if (opponentHands.some(holeCards => evaluateHandRank([...holeCards, ...board]) > playerRank)) {
+    reasons.push('opponent-improves')
+  }
+
+  return reasons
+}
+
+/**
+ * Calculates the chance (0-100) that at least one of the outs arrives among the cards to come
+ */
+function calculateHitPercentage(outs: number, unseenCards: number, cardsToCome: number): number {
+  let missProbability = 1
+
+  for (let i = 0; i < cardsToCome; i++) {
+    missProbability *= (unseenCards - outs - i) / (unseenCards - i)
+  }
+
+  return (1 - missProbability) * 100
+}
\ No newline at end of file
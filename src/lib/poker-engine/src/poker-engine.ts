@@ -3,17 +3,58 @@
  * Main entry point for poker probability calculations and hand evaluation
  */
 
-import type { Card } from '../../../types/card'
+import type { Card, DeckType } from '../../../types/card'
+import { DECK_SIZES } from '../../../types/card'
 import type { 
   CalculationRequest, 
   CalculationResults, 
   HandEvaluation, 
-  CalculationMethod 
+  LowHandEvaluation,
+  HandComparison,
+  PlayerEquity,
+  OutsAnalysis,
+  Draw,
+  BoardTexture,
+  HoldingRank,
+  RelativeHandStrength,
+  HandPotential,
+  ProbabilityResult,
+  RankedHand,
+  ShowdownResult
 } from '../../../types/poker'
-import { calculateHandProbabilities } from './probability'
+import type { HandRange } from '../../../types/range'
+import type { BettingAnalysis, BettingState, GameVariant, LowballGame } from '../../../types/game'
+import { DEFAULT_GAME_VARIANT, LOWBALL_GAMES } from '../../../types/game'
+import { calculateHandProbabilities, type PrecisionTarget } from './probability'
 import { evaluatePokerHand } from './evaluation'
-import { validatePokerHand } from '../../card-utils/src/card-utils'
-import { validateHandForEvaluation } from '../../card-utils/src/validation'
+import { evaluateLowHand } from './low-evaluation'
+import { evaluateDeuceToSevenLow, evaluateAceToFiveLow } from './lowball'
+import { evaluateHandRank } from './fast-evaluation'
+import { calculateEquity, calculateRangeEquity, type SeatRange } from './equity'
+import { compareHandCards, rankHandCards, resolveShowdown } from './showdown'
+import { analyzeOutCards } from './outs'
+import { detectDraws } from './draws'
+import { analyzeBoardTexture } from './board-texture'
+import { enumerateHoldingRanks, measureRelativeStrength } from './hand-ranking'
+import { calculateHandPotential } from './hand-potential'
+import { analyzeBettingDecision } from './betting'
+import { getCachedResults, cacheResults, getCalculationCacheStats } from './calculation-cache'
+import { getVariantRules, isStudVariant, findBestVariantCards, findBestVariantLowCards } from './variants'
+import { isLookupTableLoaded } from './lookup-tables'
+import { validateCards, validatePokerHand, validateOpponentHands } from '../../card-utils/src/card-utils'
+import { validateHandForEvaluation, validateStudHand } from '../../card-utils/src/validation'
+import { parseRange, createHandRange } from '../../range-utils/src/range-utils'
+import { createRng, createSeed, isValidSeed } from '../../card-utils/src/random'
+
+// Milliseconds of target-precision sampling allowed when a request sets no time budget
+const DEFAULT_TIME_BUDGET = 2000
+
+// Errors thrown by the engine carry an upper-case code as their message
+const ENGINE_ERROR_CODE = /^[A-Z][A-Z_]*$/
+
+// Calculations run since startup and their total time, for the health check (cache hits are not counted)
+let calculationCount = 0
+let totalCalculationTime = 0
 
 /**
  * Calculates poker hand probabilities for current game state
@@ -21,40 +62,205 @@ import { validateHandForEvaluation } from '../../card-utils/src/validation'
 export async function calculateProbabilities(request: CalculationRequest): Promise<CalculationResults> {
   const startTime = performance.now()
 
-  // Validate input - use poker hand validation which handles different stages
-  const validation = validatePokerHand(request.playerHand, request.communityCards, request.stage)
+  // A range replaces the player's hole cards
+  if (request.playerRange !== undefined && request.playerHand.length > 0) {
+    throw new Error('INVALID_PLAYER_HAND_SIZE')
+  }
+
+  const variant = request.variant ?? DEFAULT_GAME_VARIANT
+  const rules = getVariantRules(variant)
+  const isHoldem = variant === 'holdem'
+  const isStud = isStudVariant(variant)
+
+  // Ranges are written in Hold'em starting-hand notation
+  if (!isHoldem && (request.playerRange !== undefined || (request.opponentRanges ?? []).length > 0)) {
+    throw new Error('RANGES_REQUIRE_HOLDEM')
+  }
+
+  const opponentHands = request.opponentHands ?? []
+  const opponentRanges = request.opponentRanges ?? []
+  const randomOpponents = request.randomOpponents ?? 0
+  const hasOpponents = opponentHands.length > 0 || opponentRanges.length > 0 || randomOpponents > 0
+
+  // Validate input - use poker hand validation which handles different stages (streets in stud,
+  // where opponent hands are the up-cards showing)
+  const validation = isStud
+    ? validateStudHand(request.playerHand, request.communityCards, opponentHands, request.stage, randomOpponents)
+    : validatePokerHand(request.playerHand, request.communityCards, request.stage, variant)
+  const validationErrors = request.playerRange !== undefined
+    ? validation.errors.filter(error => error.code !== 'INVALID_PLAYER_HAND_SIZE')
+    : validation.errors
   
-  if (!validation.isValid) {
-    const firstError = validation.errors[0]
+  if (validationErrors.length > 0) {
+    const firstError = validationErrors[0]
     throw new Error(firstError.code)
   }
 
+  if (hasOpponents && !isStud) {
+    const opponentValidation = validateOpponentHands(
+      opponentHands,
+      [...request.playerHand, ...request.communityCards],
+      randomOpponents,
+      opponentRanges.length,
+      rules.holeCards,
+      rules.deck
+    )
+
+    if (!opponentValidation.isValid) {
+      throw new Error(opponentValidation.errors[0].code)
+    }
+  }
+
+  // Dead cards are out of play: they must not collide with any other card and must leave enough to deal
+  const deadCards = request.deadCards ?? []
+  if (deadCards.length > 0) {
+    const deadValidation = validateCards([...request.playerHand, ...request.communityCards, ...opponentHands.flat(), ...deadCards], rules.deck)
+    if (!deadValidation.isValid) {
+      throw new Error(deadValidation.errors[0].code)
+    }
+
+    const cardsLeft = DECK_SIZES[rules.deck] - request.playerHand.length - request.communityCards.length - opponentHands.flat().length - deadCards.length
+    const seatCardsNeeded = [request.playerHand, ...opponentHands].reduce((total, hand) => total + rules.holeCards - hand.length, 0)
+    const cardsNeeded = rules.boardCards - request.communityCards.length + seatCardsNeeded + (randomOpponents + opponentRanges.length) * rules.holeCards
+    if (cardsLeft < cardsNeeded) {
+      throw new Error('TOO_MANY_DEAD_CARDS')
+    }
+  }
+
+  // Ranges lose every combo that collides with a known card
+  const knownCards = [...request.playerHand, ...request.communityCards, ...opponentHands.flat(), ...deadCards]
+  const playerRange = request.playerRange !== undefined ? parseRange(request.playerRange, knownCards) : null
+  const villainRanges = opponentRanges.map(notation => parseRange(notation, knownCards))
+
+  if ([playerRange, ...villainRanges].some(range => range !== null && range.totalCombos === 0)) {
+    throw new Error('EMPTY_RANGE')
+  }
+
+  if (request.seed !== undefined && !isValidSeed(request.seed)) {
+    throw new Error('INVALID_SEED')
+  }
+
+  const targetPrecision = request.targetPrecision
+  if (targetPrecision !== undefined && !(targetPrecision > 0 && targetPrecision < 1)) {
+    throw new Error('INVALID_PRECISION')
+  }
+
+  if (request.timeBudget !== undefined && !(request.timeBudget > 0)) {
+    throw new Error('INVALID_PRECISION')
+  }
+
+  const precision: PrecisionTarget | undefined = targetPrecision !== undefined
+    ? { tolerance: targetPrecision, timeBudget: request.timeBudget ?? DEFAULT_TIME_BUDGET }
+    : undefined
+
+  // Repeated (and suit-isomorphic) requests are answered from the cache
+  const cached = getCachedResults(request)
+  if (cached) {
+    return { ...cached, calculationTime: performance.now() - startTime }
+  }
+
+  // Every run is seeded so its results can be reproduced; runs that draw no random numbers are exact
+  const seed = request.seed ?? createSeed()
+  const seededRandom = createRng(seed)
+  let isRandomized = false
+  const random = () => {
+    isRandomized = true
+    return seededRandom()
+  }
+
   // Determine calculation method
   const method = determineOptimalMethod(request)
 
+  // Unknown hands (and stud hands with cards still hidden) cannot be enumerated exactly
+  if (method === 'exact' && (randomOpponents > 0 || opponentHands.some(hand => hand.length < rules.holeCards))) {
+    throw new Error('EXACT_REQUIRES_KNOWN_HANDS')
+  }
+
   try {
-    // Perform probability calculation
-    const probabilities = await calculateHandProbabilities(
-      request.playerHand,
-      request.communityCards,
-      request.stage,
-      method
-    )
+    // Perform probability calculation (hand types need the player's own cards).
+    // Known opponent cards (up-cards in stud) are out of the deck, so they cannot come to the player either.
+    const { probabilities, method: probabilityMethod } = playerRange
+      ? { probabilities: [], method }
+      : await calculateHandProbabilities(
+        request.playerHand,
+        request.communityCards,
+        request.stage,
+        method,
+        random,
+        precision,
+        [...deadCards, ...opponentHands.flat()],
+        variant
+      )
+
+    // Showdown equity against known, range and unknown opponents
+    let equity: PlayerEquity[] | undefined
+    if (playerRange || villainRanges.length > 0) {
+      const seats: SeatRange[] = [
+        playerRange ?? toSingleComboRange(request.playerHand),
+        ...opponentHands.map(toSingleComboRange),
+        ...villainRanges,
+        ...Array.from({ length: randomOpponents }, () => null)
+      ]
+      equity = calculateRangeEquity(seats, request.communityCards, method, undefined, random, deadCards, precision)
+    } else if (hasOpponents) {
+      const unknownSeats: Card[][] = Array.from({ length: randomOpponents }, () => [])
+      equity = calculateEquity(
+        [request.playerHand, ...opponentHands, ...unknownSeats],
+        request.communityCards,
+        method,
+        undefined,
+        random,
+        deadCards,
+        variant,
+        precision
+      )
+    }
+
+    // Outs only make sense with cards still to come and the player's own cards (full-deck Hold'em analyses only)
+    const hasCardsToCome = request.communityCards.length === 3 || request.communityCards.length === 4
+    const outs = isHoldem && !playerRange && hasCardsToCome
+      ? analyzeOutCards(request.playerHand, request.communityCards, opponentHands, deadCards)
+      : undefined
+    const draws = outs ? detectDraws(request.playerHand, request.communityCards, deadCards) : undefined
+    const relativeStrength = isHoldem && !playerRange && request.communityCards.length >= 3
+      ? measureRelativeStrength(request.playerHand, request.communityCards, deadCards)
+      : undefined
+    const handPotential = relativeStrength && request.includeHandPotential
+      ? calculateHandPotential(request.playerHand, request.communityCards, random, deadCards)
+      : undefined
 
     const endTime = performance.now()
     const calculationTime = endTime - startTime
 
-    return {
+    const results: CalculationResults = {
       stage: request.stage,
       playerHand: request.playerHand,
       communityCards: request.communityCards,
       probabilities,
+      equity,
       calculationTime,
-      method,
+      method: probabilityMethod,
+      seed,
+      converged: precision ? hasConverged([...probabilities, ...(equity ?? [])], precision.tolerance) : undefined,
+      outs,
+      draws,
+      relativeStrength,
+      handPotential,
+      variant,
       timestamp: Date.now()
     }
 
+    calculationCount++
+    totalCalculationTime += calculationTime
+
+    cacheResults(request, results, isRandomized)
+
+    return results
   } catch (error) {
+    // The engine's own codes (e.g. RANGE_CONFLICT) already say what went wrong
+    if (error instanceof Error && ENGINE_ERROR_CODE.test(error.message)) {
+      throw error
+    }
     throw new Error('CALCULATION_FAILED')
   }
 }
@@ -75,10 +281,281 @@ export function evaluateHand(options: { cards: Card[] }): HandEvaluation {
   return evaluatePokerHand(cards)
 }
 
+/**
+ * Evaluates the best lowball hand from 5-7 cards, deuce-to-seven (27) or ace-to-five (a5)
+ */
+export function evaluateLowballHand(options: { cards: Card[], game: LowballGame }): HandEvaluation {
+  const { cards, game } = options
+
+  if (!LOWBALL_GAMES[game]) {
+    throw new Error('INVALID_GAME_VARIANT')
+  }
+
+  const validation = validateHandForEvaluation(cards)
+  if (!validation.isValid) {
+    const firstError = validation.errors[0]
+    throw new Error(firstError.code)
+  }
+
+  return game === '27' ? evaluateDeuceToSevenLow(cards) : evaluateAceToFiveLow(cards)
+}
+
+/**
+ * Evaluates the best hand hole cards make with a board of 3-5 cards under a variant's rules
+ * (Omaha plays exactly two hole cards and three board cards)
+ */
+export function evaluateVariantHand(holeCards: Card[], board: Card[], variant: GameVariant = DEFAULT_GAME_VARIANT): HandEvaluation {
+  const rules = getVariantRules(variant)
+  if (holeCards.length !== rules.holeCards) {
+    throw new Error('INVALID_PLAYER_HAND_SIZE')
+  }
+
+  assertValidBoard(board, holeCards, rules.deck)
+
+  return evaluatePokerHand(findBestVariantCards(holeCards, board, variant), rules.deck)
+}
+
+/**
+ * Evaluates the best eight-or-better low hole cards make with a board of 3-5 cards under a variant's rules,
+ * or null when no low qualifies
+ */
+export function evaluateVariantLowHand(holeCards: Card[], board: Card[], variant: GameVariant = DEFAULT_GAME_VARIANT): LowHandEvaluation | null {
+  const rules = getVariantRules(variant)
+  if (holeCards.length !== rules.holeCards) {
+    throw new Error('INVALID_PLAYER_HAND_SIZE')
+  }
+
+  assertValidBoard(board, holeCards, rules.deck)
+
+  const lowCards = findBestVariantLowCards(holeCards, board, variant)
+  return lowCards && evaluateLowHand(lowCards)
+}
+
+/**
+ * Evaluates 5-7 cards to a comparable integer hand rank (higher is better, equal ranks tie)
+ */
+export function getHandRank(options: { cards: Card[] }): number {
+  const { cards } = options
+
+  const validation = validateHandForEvaluation(cards)
+  if (!validation.isValid) {
+    const firstError = validation.errors[0]
+    throw new Error(firstError.code)
+  }
+
+  return evaluateHandRank(cards)
+}
+
+/**
+ * Compares two hands of 5-7 cards (1 if the first wins, -1 if the second wins, 0 for a split pot)
+ */
+export function compareHands(hand1: Card[], hand2: Card[]): HandComparison {
+  assertValidHand(hand1)
+  assertValidHand(hand2)
+
+  return compareHandCards(hand1, hand2)
+}
+
+/**
+ * Ranks hands of 5-7 cards from best to worst; tied hands share a rank
+ */
+export function rankHands(hands: Card[][]): RankedHand[] {
+  hands.forEach(assertValidHand)
+
+  return rankHandCards(hands)
+}
+
+/**
+ * Resolves a showdown between several players' hole cards on a complete board
+ */
+export function showdown(players: Card[][], board: Card[]): ShowdownResult {
+  if (players.length === 0) {
+    throw new Error('INSUFFICIENT_PLAYERS')
+  }
+
+  if (players.some(holeCards => holeCards.length !== 2)) {
+    throw new Error('INVALID_PLAYER_HAND_SIZE')
+  }
+
+  if (board.length !== 5) {
+    throw new Error('INVALID_COMMUNITY_CARDS')
+  }
+
+  // No card may appear in two hands or on the board as well as in a hand
+  const validation = validateCards([...players.flat(), ...board])
+  if (!validation.isValid) {
+    throw new Error(validation.errors[0].code)
+  }
+
+  return resolveShowdown(players, board)
+}
+
+/**
+ * Lists the player's outs on the flop or turn, grouped by the hand they make, with clean and dirty counts
+ * and rule-of-2/4 against exact odds. Known opponent hands are taken out of the deck and flag dirty outs;
+ * dead cards are taken out of the deck.
+ */
+export function analyzeOuts(
+  playerHand: Card[],
+  communityCards: Card[],
+  opponentHands: Card[][] = [],
+  deadCards: Card[] = []
+): OutsAnalysis {
+  if (playerHand.length !== 2) {
+    throw new Error('INVALID_PLAYER_HAND_SIZE')
+  }
+
+  if (communityCards.length !== 3 && communityCards.length !== 4) {
+    throw new Error('INVALID_COMMUNITY_CARDS')
+  }
+
+  if (opponentHands.some(holeCards => holeCards.length !== 2)) {
+    throw new Error('INVALID_OPPONENT_HAND_SIZE')
+  }
+
+  const validation = validateCards([...playerHand, ...communityCards, ...opponentHands.flat(), ...deadCards])
+  if (!validation.isValid) {
+    throw new Error(validation.errors[0].code)
+  }
+
+  return analyzeOutCards(playerHand, communityCards, opponentHands, deadCards)
+}
+
+/**
+ * Classifies the flush draws, straight draws and overcards the hole cards hold on the flop or turn
+ * (dead cards are not counted as outs)
+ */
+export function analyzeDraws(playerHand: Card[], communityCards: Card[], deadCards: Card[] = []): Draw[] {
+  if (playerHand.length !== 2) {
+    throw new Error('INVALID_PLAYER_HAND_SIZE')
+  }
+
+  if (communityCards.length !== 3 && communityCards.length !== 4) {
+    throw new Error('INVALID_COMMUNITY_CARDS')
+  }
+
+  const validation = validateCards([...playerHand, ...communityCards, ...deadCards])
+  if (!validation.isValid) {
+    throw new Error(validation.errors[0].code)
+  }
+
+  return detectDraws(playerHand, communityCards, deadCards)
+}
+
+/**
+ * Classifies the texture of a flop, turn or river (pairing, suits, connectedness, height),
+ * lists the possible straights and flushes and finds the current nuts
+ */
+export function analyzeBoard(communityCards: Card[]): BoardTexture {
+  assertValidBoard(communityCards)
+
+  return analyzeBoardTexture(communityCards)
+}
+
+/**
+ * Orders every possible holding on a board of 3-5 cards from the nuts down; holdings making the same hand share a rank
+ */
+export function rankHoldings(communityCards: Card[]): HoldingRank[] {
+  assertValidBoard(communityCards)
+
+  return enumerateHoldingRanks(communityCards)
+}
+
+/**
+ * Places the player's hand among every possible opponent holding on a board of 3-5 cards
+ * (e.g. beating 87% of the 1,081 combos left on the flop)
+ */
+export function getRelativeStrength(playerHand: Card[], communityCards: Card[]): RelativeHandStrength {
+  if (playerHand.length !== 2) {
+    throw new Error('INVALID_PLAYER_HAND_SIZE')
+  }
+
+  assertValidBoard(communityCards, playerHand)
+
+  return measureRelativeStrength(playerHand, communityCards)
+}
+
+/**
+ * Calculates hand strength (HS), positive and negative potential (PPot, NPot) and effective hand strength (EHS)
+ * against a random opponent hand on a board of 3-5 cards. Flop run-outs are sampled with the seeded generator.
+ */
+export function getHandPotential(playerHand: Card[], communityCards: Card[], seed: number = createSeed()): HandPotential {
+  if (playerHand.length !== 2) {
+    throw new Error('INVALID_PLAYER_HAND_SIZE')
+  }
+
+  if (!isValidSeed(seed)) {
+    throw new Error('INVALID_SEED')
+  }
+
+  assertValidBoard(communityCards, playerHand)
+
+  return calculateHandPotential(playerHand, communityCards, createRng(seed))
+}
+
+/**
+ * Weighs calling a bet with an equity percentage (0-100): pot odds, required equity, EV of calling and folding,
+ * and how much must be won on later streets for the call to break even
+ */
+export function analyzeBet(betting: BettingState, equity: number): BettingAnalysis {
+  const { potSize, betToCall, effectiveStack } = betting
+
+  if (![potSize, betToCall, effectiveStack].every(Number.isFinite) || !(potSize > 0) || betToCall < 0 || effectiveStack < betToCall) {
+    throw new Error('INVALID_BETTING_STATE')
+  }
+
+  if (!(equity >= 0 && equity <= 100)) {
+    throw new Error('INVALID_EQUITY')
+  }
+
+  return analyzeBettingDecision(betting, equity)
+}
+
+/**
+ * Throws when a board is not a flop, turn or river, or shares a card with the other cards
+ */
+function assertValidBoard(communityCards: Card[], otherCards: Card[] = [], deck: DeckType = 'standard'): void {
+  if (communityCards.length < 3 || communityCards.length > 5) {
+    throw new Error('INVALID_COMMUNITY_CARDS')
+  }
+
+  const validation = validateCards([...otherCards, ...communityCards], deck)
+  if (!validation.isValid) {
+    throw new Error(validation.errors[0].code)
+  }
+}
+
+/**
+ * Throws the first validation error code for a hand that cannot be evaluated
+ */
+function assertValidHand(cards: Card[]): void {
+  const validation = validateHandForEvaluation(cards)
+  if (!validation.isValid) {
+    throw new Error(validation.errors[0].code)
+  }
+}
+
+/**
+ * Checks whether every probability's and every seat's equity 95% interval is within the tolerance
+ */
+function hasConverged(results: (ProbabilityResult | PlayerEquity)[], tolerance: number): boolean {
+  return results.every(result => {
+    const { lower, upper } = result.confidenceInterval
+    return (upper - lower) / 2 <= tolerance
+  })
+}
+
+/**
+ * Wraps known hole cards as a range holding just that combo
+ */
+function toSingleComboRange(holeCards: Card[]): HandRange {
+  return createHandRange([{ cards: holeCards, weight: 1 }])
+}
+
 /**
  * Determines optimal calculation method based on game state
  */
-function determineOptimalMethod(request: CalculationRequest): CalculationMethod {
+function determineOptimalMethod(request: CalculationRequest): CalculationResults['method'] {
   if (request.preferredMethod && request.preferredMethod !== 'auto') {
     return request.preferredMethod
   }
@@ -107,17 +584,25 @@ export function checkHealth(): {
   version: string
   lookupTablesLoaded: boolean
   performance: {
-    avgCalculationTime: number
+    avgCalculationTime: number // Milliseconds per calculation run since startup (0 before the first)
     cacheHitRate: number
+    cacheHits: number
+    cacheMisses: number
+    cacheSize: number
   }
 } {
+  const cache = getCalculationCacheStats()
+
   return {
     status: 'healthy',
     version: '1.0.0',
-    lookupTablesLoaded: true, // Would check actual lookup table status
+    lookupTablesLoaded: isLookupTableLoaded(),
     performance: {
-      avgCalculationTime: 45, // Would track real metrics
-      cacheHitRate: 0.85
+      avgCalculationTime: calculationCount > 0 ? totalCalculationTime / calculationCount : 0,
+      cacheHitRate: cache.hitRate,
+      cacheHits: cache.hits,
+      cacheMisses: cache.misses,
+      cacheSize: cache.size
     }
   }
 }
\ No newline at end of file
@@ -4,152 +4,201 @@
  */
 
 import type { Card } from '../../../types/card'
-import type { ProbabilityResult, CalculationMethod } from '../../../types/poker'
+import type { ProbabilityResult, CalculationMethod, CalculationResults, ConfidenceInterval } from '../../../types/poker'
 import { HandStrength } from '../../../types/poker'
-import { evaluatePokerHand } from './evaluation'
-import { getRemainingCards, simulateDeal } from '../../card-utils/src/deck'
+import { evaluateHandRank, getHandStrengthFromRank } from './fast-evaluation'
+import { lookupPreflopHandTypes, lookupPostflopHandTypes, storePostflopHandTypes } from './lookup-tables'
+import { analyzeOutCards } from './outs'
+import { simulateDeal } from '../../card-utils/src/deck'
+import { canonicalizeSuits, enumerateIsomorphicBoards } from '../../card-utils/src/isomorphism'
+import type { RandomGenerator } from '../../card-utils/src/random'
+import type { GameVariant } from '../../../types/game'
+import { DEFAULT_GAME_VARIANT } from '../../../types/game'
+import { countCardsToCome, evaluateVariantHandRank, getVariantRules } from './variants'
+
+// Two-sided 95% quantile of the standard normal distribution
+export const Z_95 = 1.96
+
+const DEFAULT_SIMULATIONS = 10000
+export const SIMULATION_BATCH_SIZE = 1000
+export const MAX_SIMULATIONS = 1000000
+
+// Most cards to come that are counted run-out by run-out (at most 1,081 boards in Hold'em)
+const MAX_ENUMERATED_CARDS = 2
+
+export interface PrecisionTarget {
+  tolerance: number // Largest acceptable 95% interval half-width (0.005 = ±0.5 percentage points)
+  timeBudget: number // Milliseconds to keep sampling before settling for wider intervals
+}
+
+export interface HandTypeProbabilities {
+  probabilities: ProbabilityResult[]
+  method: CalculationResults['method'] // Method that produced them (lookups without a usable table are sampled)
+}
 
 /**
- * Calculates hand probabilities using optimal method
+ * Calculates hand probabilities using optimal method.
+ * Dead cards are out of play and never come on the board; hands are made under the variant's rules.
+ * In stud there is no board: the player's own cards to come are dealt instead.
  */
 export async function calculateHandProbabilities(
   playerHand: Card[],
   communityCards: Card[],
-  stage: string,
-  method: CalculationMethod
-): Promise<ProbabilityResult[]> {
+  _stage: string,
+  method: CalculationMethod,
+  random: RandomGenerator = Math.random,
+  precision?: PrecisionTarget,
+  deadCards: Card[] = [],
+  variant: GameVariant = DEFAULT_GAME_VARIANT
+): Promise<HandTypeProbabilities> {
   
   switch (method) {
     case 'lookup':
-      return calculateUsingLookup(playerHand, communityCards)
+      return calculateUsingLookup(playerHand, communityCards, random, precision, deadCards, variant)
     case 'simulation':
-      return calculateUsingSimulation(playerHand, communityCards)
+      return {
+        probabilities: calculateUsingSimulation(playerHand, communityCards, random, precision, deadCards, variant),
+        method: 'simulation'
+      }
     case 'exact':
-      return calculateUsingExact(playerHand, communityCards, stage)
+      return { probabilities: calculateUsingExact(playerHand, communityCards, deadCards, variant), method: 'exact' }
     default:
-      return calculateUsingLookup(playerHand, communityCards)
+      return calculateUsingLookup(playerHand, communityCards, random, precision, deadCards, variant)
   }
 }
 
 /**
- * Fast lookup table calculation for common scenarios
+ * Fast lookup table calculation.
+ * Pre-flop reads the precomputed starting-hand table; post-flop (and from fifth street in stud)
+ * the few remaining run-outs are counted directly by hand category and remembered for suit-isomorphic repeats.
+ * Pre-flop states the table does not cover are sampled and reported as a simulation.
  */
 function calculateUsingLookup(
   playerHand: Card[],
-  communityCards: Card[]
-): ProbabilityResult[] {
-  // For demo purposes, return estimated probabilities
-  // In production, this would use pre-computed lookup tables
-  
-  const knownCards = [...playerHand, ...communityCards]
-  const totalKnownCards = knownCards.length
-  
-  // Base probabilities adjusted for known cards
-  let baseProbabilities = getBaseProbabilities()
-  
-  // Adjust based on current hand potential
-  if (totalKnownCards >= 2) {
-    baseProbabilities = adjustProbabilitiesForHand(baseProbabilities, knownCards)
+  communityCards: Card[],
+  random: RandomGenerator,
+  precision?: PrecisionTarget,
+  deadCards: Card[] = [],
+  variant: GameVariant = DEFAULT_GAME_VARIANT
+): HandTypeProbabilities {
+  const cardsToCome = countCardsToCome(playerHand, communityCards, variant)
+
+  if (cardsToCome > MAX_ENUMERATED_CARDS) {
+    // The table holds Hold'em hands from a full deck, so other variants and dead cards need sampling too
+    const entry = deadCards.length === 0 && variant === 'holdem' ? lookupPreflopHandTypes(playerHand) : null
+
+    // Without a usable table, sampling is still far cheaper than enumerating C(50,5) boards
+    if (!entry) {
+      return {
+        probabilities: calculateUsingSimulation(playerHand, communityCards, random, precision, deadCards, variant),
+        method: 'simulation'
+      }
+    }
+
+    return { probabilities: createCountedResults(toHandCounts(entry.counts), entry.totalOutcomes), method: 'lookup' }
+  }
+
+  // Suit-isomorphic states share their counts (on a rainbow flop, AhKh and AsKs differ only in suit names)
+  const key = `${variant}:${canonicalizeSuits([playerHand, communityCards, deadCards]).key}`
+  let entry = lookupPostflopHandTypes(key)
+
+  if (!entry) {
+    const { handCounts, totalOutcomes } = countBoardHandTypes(playerHand, communityCards, deadCards, variant)
+    entry = { counts: Object.values(handCounts), totalOutcomes }
+    storePostflopHandTypes(key, entry)
   }
 
-  return createProbabilityResults(baseProbabilities, 1000) // Simulated total outcomes
+  return { probabilities: createCountedResults(toHandCounts(entry.counts), entry.totalOutcomes), method: 'lookup' }
 }
 
 /**
- * Monte Carlo simulation for accurate calculations
+ * Monte Carlo simulation for accurate calculations.
+ * Runs a fixed number of deals, or with a precision target samples in batches until
+ * every 95% interval is narrow enough or the time budget runs out.
  */
 function calculateUsingSimulation(
   playerHand: Card[],
   communityCards: Card[],
-  numSimulations: number = 10000
+  random: RandomGenerator,
+  precision?: PrecisionTarget,
+  deadCards: Card[] = [],
+  variant: GameVariant = DEFAULT_GAME_VARIANT
 ): ProbabilityResult[] {
   const knownCards = [...playerHand, ...communityCards]
-  const handCounts: Record<HandStrength, number> = {
-    [HandStrength.HIGH_CARD]: 0,
-    [HandStrength.PAIR]: 0,
-    [HandStrength.TWO_PAIR]: 0,
-    [HandStrength.THREE_OF_A_KIND]: 0,
-    [HandStrength.STRAIGHT]: 0,
-    [HandStrength.FLUSH]: 0,
-    [HandStrength.FULL_HOUSE]: 0,
-    [HandStrength.FOUR_OF_A_KIND]: 0,
-    [HandStrength.STRAIGHT_FLUSH]: 0,
-    [HandStrength.ROYAL_FLUSH]: 0
-  }
+  const handSize = knownCards.length + countCardsToCome(playerHand, communityCards, variant)
+  const handCounts = createEmptyHandCounts()
+  const startTime = performance.now()
+  let totalOutcomes = 0
 
-  // Run simulations
-  const simulations = simulateDeal(knownCards, numSimulations)
-  
-  for (const simulatedCards of simulations) {
-    try {
-      const evaluation = evaluatePokerHand(simulatedCards)
-      handCounts[evaluation.handStrength]++
-    } catch (error) {
-      // Skip invalid simulations
-      continue
+  // Dealt hands are the hole cards followed by the complete board (the player's cards to come in stud)
+  const rankHand = variant === 'holdem'
+    ? (cards: Card[]) => evaluateHandRank(cards)
+    : (cards: Card[]) => evaluateVariantHandRank(playerHand, cards.slice(playerHand.length), variant)
+
+  const runSimulations = (numSimulations: number) => {
+    for (const simulatedCards of simulateDeal(knownCards, numSimulations, random, deadCards, handSize, getVariantRules(variant).deck)) {
+      handCounts[getHandStrengthFromRank(rankHand(simulatedCards))]++
     }
+    totalOutcomes += numSimulations
   }
 
-  // Convert counts to probabilities
-  const results: ProbabilityResult[] = []
-  
-  for (let handType = 0; handType <= 9; handType++) {
-    const count = handCounts[handType as HandStrength]
-    const probability = count / numSimulations
-    
-    results.push({
-      handType: handType as HandStrength,
-      probability,
-      percentage: probability * 100,
-      odds: formatOdds(probability),
-      occurrences: count,
-      totalOutcomes: numSimulations
-    })
+  if (!precision) {
+    runSimulations(DEFAULT_SIMULATIONS)
+    return createCountedResults(handCounts, totalOutcomes, true)
   }
 
-  return results
+  do {
+    runSimulations(SIMULATION_BATCH_SIZE)
+  } while (
+    !isWithinTolerance(handCounts, totalOutcomes, precision.tolerance) &&
+    performance.now() - startTime < precision.timeBudget &&
+    totalOutcomes < MAX_SIMULATIONS
+  )
+
+  return createCountedResults(handCounts, totalOutcomes, true)
 }
 
 /**
- * Exact combinatorial calculation (slower but precise)
+ * Exact combinatorial calculation (slower but precise).
+ * Enumerates every remaining board run-out: C(50,5) pre-flop, C(47,2) on the flop, 46 on the turn, 1 on the river
+ * (in stud, every way to deal the player's remaining cards).
  */
 function calculateUsingExact(
   playerHand: Card[],
   communityCards: Card[],
-  stage: string
+  deadCards: Card[] = [],
+  variant: GameVariant = DEFAULT_GAME_VARIANT
 ): ProbabilityResult[] {
-  // For demo purposes, fall back to simulation with high precision
-  // In production, this would use exact combinatorial mathematics
-  return calculateUsingSimulation(playerHand, communityCards, stage, 100000)
+  const { handCounts, totalOutcomes } = countBoardHandTypes(playerHand, communityCards, deadCards, variant)
+  return createCountedResults(handCounts, totalOutcomes)
 }
 
 /**
- * Gets base probability distribution for Texas Hold'em
+ * Counts the final hand type of every board run-out, evaluating one board per suit family
  */
-function getBaseProbabilities(): Record<HandStrength, number> {
-  return {
-    [HandStrength.HIGH_CARD]: 0.501177,
-    [HandStrength.PAIR]: 0.422569,
-    [HandStrength.TWO_PAIR]: 0.047539,
-    [HandStrength.THREE_OF_A_KIND]: 0.021128,
-    [HandStrength.STRAIGHT]: 0.003925,
-    [HandStrength.FLUSH]: 0.001965,
-    [HandStrength.FULL_HOUSE]: 0.001441,
-    [HandStrength.FOUR_OF_A_KIND]: 0.000240,
-    [HandStrength.STRAIGHT_FLUSH]: 0.000015,
-    [HandStrength.ROYAL_FLUSH]: 0.000002
+function countBoardHandTypes(
+  playerHand: Card[],
+  communityCards: Card[],
+  deadCards: Card[],
+  variant: GameVariant
+): { handCounts: Record<HandStrength, number>, totalOutcomes: number } {
+  const handCounts = createEmptyHandCounts()
+  const boardSize = communityCards.length + countCardsToCome(playerHand, communityCards, variant)
+  let totalOutcomes = 0
+
+  for (const { board, weight } of enumerateIsomorphicBoards([playerHand, deadCards], communityCards, getVariantRules(variant).deck, boardSize)) {
+    handCounts[getHandStrengthFromRank(evaluateVariantHandRank(playerHand, board, variant))] += weight
+    totalOutcomes += weight
   }
+
+  return { handCounts, totalOutcomes }
 }
 
 /**
- * Adjusts probabilities based on current hand potential
+ * Creates a zeroed counter for every hand type
  */
-function adjustProbabilitiesForHand(
-  baseProbabilities: Record<HandStrength, number>,
-  knownCards: Card[]
-): Record<HandStrength, number> {
-  // Start with zero probabilities and calculate based on current hand
-  const adjusted: Record<HandStrength, number> = {
+function createEmptyHandCounts(): Record<HandStrength, number> {
+  return {
     [HandStrength.HIGH_CARD]: 0,
     [HandStrength.PAIR]: 0,
     [HandStrength.TWO_PAIR]: 0,
@@ -161,131 +210,95 @@ function adjustProbabilitiesForHand(
     [HandStrength.STRAIGHT_FLUSH]: 0,
     [HandStrength.ROYAL_FLUSH]: 0
   }
-  
-  // Analyze current hand
-  const ranks = knownCards.map(c => c.rank)
-  const suits = knownCards.map(c => c.suit)
-  
-  // Check for pairs
-  const rankCounts: Record<string, number> = {}
-  ranks.forEach(rank => {
-    rankCounts[rank] = (rankCounts[rank] || 0) + 1
-  })
-  
-  // Check for flush potential  
-  const suitCounts: Record<string, number> = {}
-  suits.forEach(suit => {
-    suitCounts[suit] = (suitCounts[suit] || 0) + 1
+}
+
+/**
+ * Creates a hand type counter from counts indexed by HandStrength
+ */
+function toHandCounts(counts: number[]): Record<HandStrength, number> {
+  const handCounts = createEmptyHandCounts()
+  counts.forEach((count, handType) => {
+    handCounts[handType as HandStrength] = count
   })
-  
-  // Count existing hand types
-  const pairCount = Object.values(rankCounts).filter(count => count === 2).length
-  const tripCount = Object.values(rankCounts).filter(count => count === 3).length
-  const quadCount = Object.values(rankCounts).filter(count => count === 4).length
-  
-  // If we already have four of a kind, that's 100%
-  if (quadCount > 0) {
-    adjusted[HandStrength.FOUR_OF_A_KIND] = 1.0
-    return adjusted
-  }
-  
-  // If we already have trips, we can't have high card or single pair
-  if (tripCount > 0) {
-    adjusted[HandStrength.HIGH_CARD] = 0
-    adjusted[HandStrength.PAIR] = 0
-    adjusted[HandStrength.THREE_OF_A_KIND] = 0.6  // Stay as trips
-    adjusted[HandStrength.FULL_HOUSE] = 0.35      // Improve to full house
-    adjusted[HandStrength.FOUR_OF_A_KIND] = 0.05  // Improve to quads
-    return adjusted
-  }
-  
-  // If we already have two pair, we can't have high card or single pair
-  if (pairCount >= 2) {
-    adjusted[HandStrength.HIGH_CARD] = 0
-    adjusted[HandStrength.PAIR] = 0
-    adjusted[HandStrength.TWO_PAIR] = 0.7         // Stay as two pair
-    adjusted[HandStrength.FULL_HOUSE] = 0.25      // Improve to full house
-    adjusted[HandStrength.THREE_OF_A_KIND] = 0.03
-    adjusted[HandStrength.FOUR_OF_A_KIND] = 0.02
-    return adjusted
-  }
-  
-  // If we already have a pair (like AA), we can't have high card
-  if (pairCount === 1) {
-    adjusted[HandStrength.HIGH_CARD] = 0          // IMPOSSIBLE with existing pair
-    adjusted[HandStrength.PAIR] = 0.18            // Stay as pair only
-    adjusted[HandStrength.TWO_PAIR] = 0.23        // Make two pair
-    adjusted[HandStrength.THREE_OF_A_KIND] = 0.12 // Make trips
-    adjusted[HandStrength.STRAIGHT] = 0.04        // Make straight
-    adjusted[HandStrength.FLUSH] = 0.02           // Make flush
-    adjusted[HandStrength.FULL_HOUSE] = 0.025     // Make full house
-    adjusted[HandStrength.FOUR_OF_A_KIND] = 0.002 // Make quads
-    adjusted[HandStrength.STRAIGHT_FLUSH] = 0.0001
-    adjusted[HandStrength.ROYAL_FLUSH] = 0.000001
-    return adjusted
-  }
-  
-  // If no pairs yet, use base probabilities but adjust for draws
-  const maxSuitCount = Math.max(...Object.values(suitCounts))
-  const sortedValues = [...new Set(knownCards.map(c => c.value))].sort((a, b) => a - b)
-  
-  // Check for straight draws
-  let straightDraw = 0
-  for (let i = 0; i < sortedValues.length - 1; i++) {
-    if (sortedValues[i + 1] - sortedValues[i] === 1) {
-      straightDraw++
-    }
-  }
-  
-  // Adjust probabilities based on draws
-  adjusted[HandStrength.HIGH_CARD] = baseProbabilities[HandStrength.HIGH_CARD]
-  adjusted[HandStrength.PAIR] = baseProbabilities[HandStrength.PAIR]
-  adjusted[HandStrength.TWO_PAIR] = baseProbabilities[HandStrength.TWO_PAIR]
-  adjusted[HandStrength.THREE_OF_A_KIND] = baseProbabilities[HandStrength.THREE_OF_A_KIND]
-  adjusted[HandStrength.STRAIGHT] = baseProbabilities[HandStrength.STRAIGHT] * (straightDraw >= 3 ? 3 : 1)
-  adjusted[HandStrength.FLUSH] = baseProbabilities[HandStrength.FLUSH] * (maxSuitCount >= 4 ? 8 : maxSuitCount >= 3 ? 2 : 1)
-  adjusted[HandStrength.FULL_HOUSE] = baseProbabilities[HandStrength.FULL_HOUSE]
-  adjusted[HandStrength.FOUR_OF_A_KIND] = baseProbabilities[HandStrength.FOUR_OF_A_KIND]
-  adjusted[HandStrength.STRAIGHT_FLUSH] = baseProbabilities[HandStrength.STRAIGHT_FLUSH]
-  adjusted[HandStrength.ROYAL_FLUSH] = baseProbabilities[HandStrength.ROYAL_FLUSH]
-  
-  // Normalize to sum to 1
-  const total = Object.values(adjusted).reduce((sum, prob) => sum + prob, 0)
-  if (total > 0) {
-    Object.keys(adjusted).forEach(key => {
-      adjusted[parseInt(key) as HandStrength] /= total
-    })
-  }
-  
-  return adjusted
+
+  return handCounts
 }
 
 /**
- * Creates probability result objects
+ * Creates probability result objects from observed hand counts
+ * (sampled counts carry error bars; enumerated counts are exact)
  */
-function createProbabilityResults(
-  probabilities: Record<HandStrength, number>,
-  totalOutcomes: number
+function createCountedResults(
+  handCounts: Record<HandStrength, number>,
+  totalOutcomes: number,
+  isSampled: boolean = false
 ): ProbabilityResult[] {
   const results: ProbabilityResult[] = []
   
   for (let handType = 0; handType <= 9; handType++) {
-    const probability = probabilities[handType as HandStrength] || 0
-    const occurrences = Math.round(probability * totalOutcomes)
+    const count = handCounts[handType as HandStrength]
+    const probability = totalOutcomes > 0 ? count / totalOutcomes : 0
     
     results.push({
       handType: handType as HandStrength,
       probability,
       percentage: probability * 100,
       odds: formatOdds(probability),
-      occurrences,
-      totalOutcomes
+      occurrences: count,
+      totalOutcomes,
+      standardError: isSampled ? getStandardError(probability, totalOutcomes) : 0,
+      confidenceInterval: isSampled
+        ? getConfidenceInterval(count, totalOutcomes)
+        : { lower: probability, upper: probability }
     })
   }
-  
+
   return results
 }
 
+/**
+ * Standard error of a probability estimated from a number of samples
+ */
+export function getStandardError(probability: number, totalOutcomes: number): number {
+  return totalOutcomes > 0 ? Math.sqrt((probability * (1 - probability)) / totalOutcomes) : 0
+}
+
+/**
+ * 95% Wilson score interval for an observed frequency, which stays sensible for rare hands seen zero times
+ */
+export function getConfidenceInterval(occurrences: number, totalOutcomes: number): ConfidenceInterval {
+  if (totalOutcomes === 0) {
+    return { lower: 0, upper: 1 }
+  }
+
+  const probability = occurrences / totalOutcomes
+  const zSquared = Z_95 * Z_95
+  const denominator = 1 + zSquared / totalOutcomes
+  const center = (probability + zSquared / (2 * totalOutcomes)) / denominator
+  const halfWidth = (Z_95 * Math.sqrt(
+    (probability * (1 - probability)) / totalOutcomes + zSquared / (4 * totalOutcomes * totalOutcomes)
+  )) / denominator
+
+  return {
+    lower: Math.max(0, center - halfWidth),
+    upper: Math.min(1, center + halfWidth)
+  }
+}
+
+/**
+ * Checks whether every hand type's 95% interval half-width is within the tolerance
+ */
+function isWithinTolerance(
+  handCounts: Record<HandStrength, number>,
+  totalOutcomes: number,
+  tolerance: number
+): boolean {
+  return Object.values(handCounts).every(count => {
+    const interval = getConfidenceInterval(count, totalOutcomes)
+    return (interval.upper - interval.lower) / 2 <= tolerance
+  })
+}
+
 /**
  * Formats probability as odds (e.g., "2.5:1")
  */
@@ -298,30 +311,20 @@ function formatOdds(probability: number): string {
 }
 
 /**
- * Calculates outs (cards that improve the hand)
+ * Calculates outs (cards that improve the hand to at least the target hand type).
+ * A hand already at the target has no outs to it.
  */
 export function calculateOuts(
   playerHand: Card[],
   communityCards: Card[],
   targetHand: HandStrength
 ): number {
-  const knownCards = [...playerHand, ...communityCards]
-  const remainingCards = getRemainingCards(knownCards)
-  
-  let outs = 0
-  
-  for (const card of remainingCards) {
-    const testCards = [...knownCards, card]
-    try {
-      const evaluation = evaluatePokerHand(testCards)
-      if (evaluation.handStrength >= targetHand) {
-        outs++
-      }
-    } catch (error) {
-      // Skip invalid combinations
-      continue
-    }
+  const analysis = analyzeOutCards(playerHand, communityCards)
+  if (analysis.currentHand >= targetHand) {
+    return 0
   }
-  
-  return outs
+
+  return analysis.groups
+    .filter(group => group.handType >= targetHand)
+    .reduce((sum, group) => sum + group.outs.length, 0)
 }
\ No newline at end of file
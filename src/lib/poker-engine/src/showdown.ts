@@ -0,0 +1,79 @@
+/**
+ * Showdown Resolution
+ * Functions for ordering hands, detecting split pots and picking showdown winners
+ */
+
+import type { Card } from '../../../types/card'
+import type { HandComparison, RankedHand, ShowdownResult } from '../../../types/poker'
+import { evaluatePokerHand, compareEvaluations } from './evaluation'
+
+/**
+ * Compares two hands of 5-7 cards, resolving ties on kickers
+ */
+export function compareHandCards(cards1: Card[], cards2: Card[]): HandComparison {
+  const hand1 = evaluatePokerHand(cards1)
+  const hand2 = evaluatePokerHand(cards2)
+  const result = Math.sign(compareEvaluations(hand1, hand2)) as -1 | 0 | 1
+
+  return {
+    result,
+    hand1,
+    hand2,
+    reasoning: describeComparison(result, hand1.description, hand2.description)
+  }
+}
+
+/**
+ * Ranks hands of 5-7 cards from best to worst; tied hands share a rank
+ */
+export function rankHandCards(hands: Card[][]): RankedHand[] {
+  const evaluated = hands.map((cards, index) => ({ index, evaluation: evaluatePokerHand(cards) }))
+
+  // Stable sort keeps tied hands in input order
+  evaluated.sort((a, b) => compareEvaluations(b.evaluation, a.evaluation))
+
+  const rankings: RankedHand[] = []
+  evaluated.forEach((hand, position) => {
+    const previous = rankings[position - 1]
+    const isTied = previous !== undefined && compareEvaluations(hand.evaluation, previous.evaluation) === 0
+
+    rankings.push({
+      index: hand.index,
+      rank: isTied ? previous.rank : position + 1,
+      evaluation: hand.evaluation
+    })
+  })
+
+  return rankings
+}
+
+/**
+ * Resolves a showdown between players' hole cards on a complete board
+ */
+export function resolveShowdown(players: Card[][], board: Card[]): ShowdownResult {
+  const rankings = rankHandCards(players.map(holeCards => [...holeCards, ...board]))
+  const winners = rankings
+    .filter(ranked => ranked.rank === 1)
+    .map(ranked => ranked.index)
+    .sort((a, b) => a - b)
+
+  return {
+    winners,
+    isSplitPot: winners.length > 1,
+    rankings
+  }
+}
+
+/**
+ * Explains a comparison result in plain words
+ */
+function describeComparison(result: -1 | 0 | 1, description1: string, description2: string): string {
+  if (result === 0) {
+    return `${description1} ties ${description2} (split pot)`
+  }
+
+  const [winner, loser] = result > 0 ? [description1, description2] : [description2, description1]
+  const byKickers = winner === loser ? ' on kickers' : ''
+
+  return `${winner} beats ${loser}${byKickers}`
+}
\ No newline at end of file
@@ -0,0 +1,193 @@
+/**
+ * Game Variants
+ * Functions for evaluating hands under each variant's rules, e.g. Omaha's "exactly two from hand, three from board"
+ * and the eight-or-better low of hi/lo games
+ */
+
+import type { Card } from '../../../types/card'
+import type { GameVariant, GameVariantRules } from '../../../types/game'
+import { GAME_VARIANTS } from '../../../types/game'
+import { encodeCard, evaluateEncodedHand, evaluateHandRank } from './fast-evaluation'
+import { NO_LOW, getLowValueBit, rankLowValues } from './low-evaluation'
+import { enumerateCombinations } from '../../card-utils/src/deck'
+
+const BOARD_HAND_SIZE = 5
+
+// A way to build a five-card hand: indexes of the hole cards and of the board cards it uses
+type HandSplit = [number[], number[]]
+
+// Scratch buffers reused across calls to avoid allocating in hot loops
+const holeCodes = new Uint8Array(7)
+const boardCodes = new Uint8Array(BOARD_HAND_SIZE)
+const handCodes = new Uint8Array(BOARD_HAND_SIZE)
+const holeLowBits = new Uint16Array(7)
+const boardLowBits = new Uint16Array(BOARD_HAND_SIZE)
+
+// Hand splits keyed by hole count, board count and hole cards used
+const splitCache = new Map<string, HandSplit[]>()
+
+/**
+ * Gets the rules of a game variant, throwing for unknown variants
+ */
+export function getVariantRules(variant: GameVariant): GameVariantRules {
+  const rules = GAME_VARIANTS[variant]
+  if (!rules) {
+    throw new Error('INVALID_GAME_VARIANT')
+  }
+
+  return rules
+}
+
+/**
+ * Checks whether a variant is a stud game, where each player is dealt their own up and down cards and there is no board
+ */
+export function isStudVariant(variant: GameVariant): boolean {
+  return getVariantRules(variant).boardCards === 0
+}
+
+/**
+ * Counts the cards still to come to a player: the rest of the board, or in stud the rest of the player's own cards
+ */
+export function countCardsToCome(playerHand: Card[], communityCards: Card[], variant: GameVariant): number {
+  const { holeCards, boardCards } = getVariantRules(variant)
+  return boardCards > 0 ? boardCards - communityCards.length : holeCards - playerHand.length
+}
+
+/**
+ * Evaluates hole cards with a board to a comparable hand rank under a variant's rules (higher is better).
+ * Hold'em plays the best five of all the cards; Omaha must use exactly two hole cards and three board cards.
+ * Hands are ranked for the variant's deck, so a short-deck flush beats a full house.
+ */
+export function evaluateVariantHandRank(holeCards: Card[], board: Card[], variant: GameVariant): number {
+  const { holeCardsUsed, deck } = getVariantRules(variant)
+  if (holeCardsUsed === undefined) {
+    return evaluateHandRank([...holeCards, ...board], deck)
+  }
+
+  holeCards.forEach((card, index) => {
+    holeCodes[index] = encodeCard(card)
+  })
+  board.forEach((card, index) => {
+    boardCodes[index] = encodeCard(card)
+  })
+
+  let bestRank = -1
+  for (const [holeIndexes, boardIndexes] of getHandSplits(holeCards.length, board.length, holeCardsUsed)) {
+    for (let i = 0; i < holeIndexes.length; i++) {
+      handCodes[i] = holeCodes[holeIndexes[i]]
+    }
+    for (let i = 0; i < boardIndexes.length; i++) {
+      handCodes[holeCardsUsed + i] = boardCodes[boardIndexes[i]]
+    }
+
+    const handRank = evaluateEncodedHand(handCodes, BOARD_HAND_SIZE, deck)
+    if (handRank > bestRank) bestRank = handRank
+  }
+
+  return bestRank
+}
+
+/**
+ * Finds the five cards a variant's best hand plays (all of them for Hold'em hands of five cards or fewer)
+ */
+export function findBestVariantCards(holeCards: Card[], board: Card[], variant: GameVariant): Card[] {
+  const { holeCardsUsed, deck } = getVariantRules(variant)
+  const allCards = [...holeCards, ...board]
+  if (holeCardsUsed === undefined && allCards.length <= BOARD_HAND_SIZE) {
+    return allCards
+  }
+
+  const candidates = holeCardsUsed === undefined
+    ? [...enumerateCombinations(allCards, BOARD_HAND_SIZE)]
+    : [...enumerateCombinations(holeCards, holeCardsUsed)].flatMap(hole =>
+      [...enumerateCombinations(board, BOARD_HAND_SIZE - holeCardsUsed)].map(boardCards => [...hole, ...boardCards])
+    )
+
+  let bestCards = candidates[0]
+  let bestRank = evaluateHandRank(bestCards, deck)
+  for (const cards of candidates.slice(1)) {
+    const handRank = evaluateHandRank(cards, deck)
+    if (handRank > bestRank) {
+      bestCards = cards
+      bestRank = handRank
+    }
+  }
+
+  return bestCards
+}
+
+/**
+ * Evaluates hole cards with a board to a comparable eight-or-better low rank under a variant's rules
+ * (higher is better, NO_LOW when no low qualifies). Omaha lows also use exactly two hole cards and three board cards.
+ */
+export function evaluateVariantLowRank(holeCards: Card[], board: Card[], variant: GameVariant): number {
+  const { holeCardsUsed } = getVariantRules(variant)
+  if (holeCardsUsed === undefined) {
+    return rankLowValues([...holeCards, ...board].reduce((mask, card) => mask | getLowValueBit(card), 0))
+  }
+
+  holeCards.forEach((card, index) => {
+    holeLowBits[index] = getLowValueBit(card)
+  })
+  board.forEach((card, index) => {
+    boardLowBits[index] = getLowValueBit(card)
+  })
+
+  let bestRank = NO_LOW
+  for (const [holeIndexes, boardIndexes] of getHandSplits(holeCards.length, board.length, holeCardsUsed)) {
+    let valueMask = 0
+    for (const index of holeIndexes) valueMask |= holeLowBits[index]
+    for (const index of boardIndexes) valueMask |= boardLowBits[index]
+
+    // A pair leaves fewer than five values, so only five unpaired low cards qualify
+    const lowRank = rankLowValues(valueMask)
+    if (lowRank > bestRank) bestRank = lowRank
+  }
+
+  return bestRank
+}
+
+/**
+ * Finds the five cards a variant's best eight-or-better low plays, or null when no low qualifies
+ */
+export function findBestVariantLowCards(holeCards: Card[], board: Card[], variant: GameVariant): Card[] | null {
+  const { holeCardsUsed } = getVariantRules(variant)
+
+  const candidates = holeCardsUsed === undefined
+    ? [...enumerateCombinations([...holeCards, ...board], BOARD_HAND_SIZE)]
+    : [...enumerateCombinations(holeCards, holeCardsUsed)].flatMap(hole =>
+      [...enumerateCombinations(board, BOARD_HAND_SIZE - holeCardsUsed)].map(boardCards => [...hole, ...boardCards])
+    )
+
+  let bestCards: Card[] | null = null
+  let bestRank = NO_LOW
+  for (const cards of candidates) {
+    const lowRank = rankLowValues(cards.reduce((mask, card) => mask | getLowValueBit(card), 0))
+    if (lowRank > bestRank) {
+      bestCards = cards
+      bestRank = lowRank
+    }
+  }
+
+  return bestCards
+}
+
+/**
+ * Lists every way to pick the required hole cards and the rest of a five-card hand from the board
+ */
+function getHandSplits(holeCount: number, boardCount: number, holeCardsUsed: number): HandSplit[] {
+  const key = `${holeCount}:${boardCount}:${holeCardsUsed}`
+  const cached = splitCache.get(key)
+  if (cached) return cached
+
+  const boardPicks = [...enumerateCombinations(range(boardCount), BOARD_HAND_SIZE - holeCardsUsed)]
+  const splits = [...enumerateCombinations(range(holeCount), holeCardsUsed)]
+    .flatMap(holePick => boardPicks.map((boardPick): HandSplit => [holePick, boardPick]))
+
+  splitCache.set(key, splits)
+  return splits
+}
+
+function range(count: number): number[] {
+  return Array.from({ length: count }, (_, index) => index)
+}
\ No newline at end of file
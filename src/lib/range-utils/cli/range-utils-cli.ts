@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+
+/**
+ * Range Utils CLI
+ * Command line interface for hand range parsing and formatting
+ */
+
+import { Command } from 'commander'
+import { parseRange, formatRange, formatCombo } from '../src/range-utils'
+import { parseCard } from '../../card-utils/src/card-utils'
+
+const program = new Command()
+
+program
+  .name('range-utils')
+  .description('Hand range utilities for poker applications')
+  .version('1.0.0')
+
+// Parse range command
+program
+  .command('parse')
+  .description('Parse a hand range into concrete combos')
+  .requiredOption('-r, --range <range>', 'Range notation (e.g., "QQ+, AKs, A5s-A2s, AhKh")')
+  .option('-d, --dead <cards>', 'Known cards that block combos (e.g., "AS,KH")', '')
+  .option('-f, --format <format>', 'Output format (json, text)', 'text')
+  .action((options) => {
+    try {
+      let usedCards = []
+      if (options.dead) {
+        usedCards = options.dead.split(',').map(cardStr => parseCard(cardStr.trim()))
+      }
+
+      const range = parseRange(options.range, usedCards)
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(range, null, 2))
+      } else {
+        console.log(`\nHand Range`)
+        console.log(`==========`)
+        console.log(`Range: ${formatRange(range)}`)
+        console.log(`Combos: ${range.totalCombos}`)
+        console.log(`Weighted Combos: ${range.weightedCombos}`)
+        console.log(`Hands: ${range.combos.map(combo => formatCombo(combo.cards)).join(' ')}`)
+      }
+    } catch (error) {
+      console.error('Error:', error.message)
+      process.exit(1)
+    }
+  })
+
+// Normalize range command
+program
+  .command('normalize')
+  .description('Rewrite a hand range in canonical notation')
+  .requiredOption('-r, --range <range>', 'Range notation (e.g., "22-55, AKs, AKo")')
+  .option('-d, --dead <cards>', 'Known cards that block combos (e.g., "AS,KH")', '')
+  .action((options) => {
+    try {
+      let usedCards = []
+      if (options.dead) {
+        usedCards = options.dead.split(',').map(cardStr => parseCard(cardStr.trim()))
+      }
+
+      console.log(formatRange(parseRange(options.range, usedCards)))
+    } catch (error) {
+      console.error('Error:', error.message)
+      process.exit(1)
+    }
+  })
+
+// Examples command
+program
+  .command('examples')
+  .description('Show usage examples')
+  .action(() => {
+    console.log(`
+Range Utils CLI Examples:
+
+Parse a range:
+  range-utils parse --range "QQ+, AKs, A5s-A2s, KQo, 76s+, 22-55, AhKh"
+  range-utils parse -r "AK, AQs:0.5" --format json
+
+Remove combos blocked by known cards:
+  range-utils parse -r "QQ+, AK" --dead "AS,QH"
+
+Rewrite a range in canonical notation:
+  range-utils normalize --range "22,33,44,55,AKs,AQs"
+`)
+  })
+
+// Handle unknown commands
+program.on('command:*', (operands) => {
+  console.error(`Unknown command: ${operands[0]}`)
+  console.error('See --help for available commands')
+  process.exit(1)
+})
+
+// Show help if no command provided
+if (process.argv.length <= 2) {
+  program.help()
+}
+
+program.parse()
+
+export { program }
\ No newline at end of file
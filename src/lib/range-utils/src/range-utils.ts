@@ -0,0 +1,381 @@
+/**
+ * Range Utilities Library
+ * Functions for parsing, filtering and formatting hand ranges in standard notation (e.g. "QQ+, AKs, A5s-A2s, AhKh")
+ */
+
+import type { Card, Suit } from '../../../types/card'
+import type { HandRange, RangeCombo } from '../../../types/range'
+import { SUITS, SUIT_ABBREVIATIONS } from '../../../types/card'
+import { createCard } from '../../card-utils/src/card-utils'
+import {
+  HAND_CLASS_RANKS,
+  type HandClassRank,
+  fromHandClassRank,
+  toHandClassRank,
+  getStartingHandClass,
+  getStartingHandClasses,
+  getStartingHandCombos
+} from '../../card-utils/src/starting-hands'
+
+type Suitedness = '' | 's' | 'o'
+
+interface ParsedHandClass {
+  high: number // Index into HAND_CLASS_RANKS (0 = ace)
+  low: number
+  suitedness: Suitedness
+}
+
+const SUIT_CHARS: Record<string, Suit> = {
+  H: 'hearts',
+  D: 'diamonds',
+  C: 'clubs',
+  S: 'spades'
+}
+
+// Number of distinct two-card starting hands in a 52-card deck
+export const TOTAL_HOLE_CARD_COMBOS = 1326
+
+// Patterns are matched against upper-cased tokens
+const COMBO_PATTERN = /^([2-9TJQKA])([HDCS])([2-9TJQKA])([HDCS])$/
+const HAND_CLASS_PATTERN = /^([2-9TJQKA])([2-9TJQKA])([SO]?)$/
+
+/**
+ * Parses range notation into weighted hole-card combos, removing combos blocked by the used cards.
+ * Tokens are comma separated and may carry a weight, e.g. "QQ+, AKs:0.5, A5s-A2s, 76s+, AhKh".
+ */
+export function parseRange(notation: string, usedCards: Card[] = []): HandRange {
+  const combos = new Map<string, RangeCombo>()
+
+  const tokens = notation.split(',').map(token => token.trim()).filter(token => token.length > 0)
+
+  for (const token of tokens) {
+    const [body, weightText, ...rest] = token.split(':')
+    if (rest.length > 0) {
+      throw new Error('INVALID_RANGE')
+    }
+
+    const weight = weightText === undefined ? 1 : parseWeight(weightText)
+
+    // A combo listed twice keeps its last weight
+    for (const cards of expandRangeToken(body.trim())) {
+      combos.set(getComboKey(cards), { cards, weight })
+    }
+  }
+
+  return removeBlockers(createHandRange([...combos.values()]), usedCards)
+}
+
+/**
+ * Creates a hand range from weighted combos
+ */
+export function createHandRange(combos: RangeCombo[]): HandRange {
+  return {
+    combos,
+    totalCombos: combos.length,
+    weightedCombos: combos.reduce((sum, combo) => sum + combo.weight, 0)
+  }
+}
+
+/**
+ * Removes every combo holding one of the used cards (e.g. a deck's usedCards)
+ */
+export function removeBlockers(range: HandRange, usedCards: Card[]): HandRange {
+  const usedIds = new Set(usedCards.map(card => card.id))
+
+  return createHandRange(
+    range.combos.filter(combo => !combo.cards.some(card => usedIds.has(card.id)))
+  )
+}
+
+/**
+ * Gets how much of each starting-hand class is in the range (0-1, weighted), keyed by class (e.g. "AKs")
+ */
+export function getHandClassWeights(range: HandRange): Record<string, number> {
+  const weights: Record<string, number> = {}
+
+  for (const combo of range.combos) {
+    const handClass = getStartingHandClass(combo.cards)
+    weights[handClass] = (weights[handClass] ?? 0) + combo.weight
+  }
+
+  for (const handClass of Object.keys(weights)) {
+    weights[handClass] /= countClassCombos(handClass)
+  }
+
+  return weights
+}
+
+/**
+ * Sets every combo of a starting-hand class to one weight, leaving other classes untouched (0 removes the class)
+ */
+export function setHandClassWeight(range: HandRange, handClass: string, weight: number): HandRange {
+  if (!(weight >= 0 && weight <= 1)) {
+    throw new Error('INVALID_RANGE_WEIGHT')
+  }
+
+  const otherCombos = range.combos.filter(combo => getStartingHandClass(combo.cards) !== handClass)
+  const classCombos = weight > 0
+    ? getStartingHandCombos(handClass).map(cards => ({ cards, weight }))
+    : []
+
+  return createHandRange([...otherCombos, ...classCombos])
+}
+
+/**
+ * Formats a hand range as canonical notation.
+ * Complete hand classes are grouped into runs ("QQ+", "A5s-A2s"); partial classes list their combos ("AhKh").
+ */
+export function formatRange(range: HandRange): string {
+  const combosByClass = new Map<string, RangeCombo[]>()
+
+  for (const combo of range.combos) {
+    const handClass = getStartingHandClass(combo.cards)
+    combosByClass.set(handClass, [...(combosByClass.get(handClass) ?? []), combo])
+  }
+
+  // Classes with every combo present at a single weight can be written as a class
+  const classWeights = new Map<string, number>()
+  const partialClasses: string[] = []
+
+  for (const handClass of getStartingHandClasses()) {
+    const combos = combosByClass.get(handClass)
+    if (!combos) continue
+
+    const weight = combos[0].weight
+    if (combos.length === countClassCombos(handClass) && combos.every(combo => combo.weight === weight)) {
+      classWeights.set(handClass, weight)
+    } else {
+      partialClasses.push(handClass)
+    }
+  }
+
+  const pairs = HAND_CLASS_RANKS.map(rank => `${rank}${rank}`)
+  const tokens = formatRuns(pairs, classWeights)
+
+  for (const suitedness of ['s', 'o']) {
+    HAND_CLASS_RANKS.forEach((highRank, high) => {
+      const classes = HAND_CLASS_RANKS.slice(high + 1).map(lowRank => `${highRank}${lowRank}${suitedness}`)
+      tokens.push(...formatRuns(classes, classWeights))
+    })
+  }
+
+  for (const handClass of partialClasses) {
+    for (const combo of combosByClass.get(handClass) ?? []) {
+      tokens.push(formatWeight(formatCombo(combo.cards), combo.weight))
+    }
+  }
+
+  return tokens.join(', ')
+}
+
+/**
+ * Formats two hole cards as a specific combo (e.g. "AhKh")
+ */
+export function formatCombo(cards: Card[]): string {
+  return cards
+    .map(card => `${toHandClassRank(card.rank)}${SUIT_ABBREVIATIONS[card.suit].toLowerCase()}`)
+    .join('')
+}
+
+/**
+ * Gets a key identifying a combo regardless of card order
+ */
+export function getComboKey(cards: Card[]): string {
+  return orderComboCards(cards).map(card => card.id).join('')
+}
+
+/**
+ * Expands a single range token (without weight) into hole-card combos
+ */
+function expandRangeToken(token: string): Card[][] {
+  const body = token.toUpperCase()
+
+  const combo = COMBO_PATTERN.exec(body)
+  if (combo) {
+    return [parseSpecificCombo(combo)]
+  }
+
+  if (body.endsWith('+')) {
+    return expandHandClasses(expandPlus(parseHandClass(body.slice(0, -1))))
+  }
+
+  const bounds = body.split('-')
+  if (bounds.length === 2) {
+    return expandHandClasses(expandDash(parseHandClass(bounds[0]), parseHandClass(bounds[1])))
+  }
+
+  return expandHandClasses([parseHandClass(body)])
+}
+
+/**
+ * Parses a specific combo such as "AHKH" from a pattern match
+ */
+function parseSpecificCombo(match: RegExpExecArray): Card[] {
+  const [, rank1, suit1, rank2, suit2] = match
+  const cards = [
+    createCard(SUIT_CHARS[suit1], fromHandClassRank(rank1 as HandClassRank)),
+    createCard(SUIT_CHARS[suit2], fromHandClassRank(rank2 as HandClassRank))
+  ]
+
+  if (cards[0].id === cards[1].id) {
+    throw new Error('INVALID_RANGE')
+  }
+
+  return orderComboCards(cards)
+}
+
+/**
+ * Parses a hand class such as "AKS", "T9O", "77" or "AK" (suited and offsuit)
+ */
+function parseHandClass(text: string): ParsedHandClass {
+  const match = HAND_CLASS_PATTERN.exec(text)
+  if (!match) {
+    throw new Error('INVALID_RANGE')
+  }
+
+  const first = HAND_CLASS_RANKS.indexOf(match[1] as HandClassRank)
+  const second = HAND_CLASS_RANKS.indexOf(match[2] as HandClassRank)
+  const suitedness = match[3].toLowerCase() as Suitedness
+
+  if (first === second && suitedness !== '') {
+    throw new Error('INVALID_RANGE')
+  }
+
+  return { high: Math.min(first, second), low: Math.max(first, second), suitedness }
+}
+
+/**
+ * Expands a "+" token: pairs and connectors move up together ("QQ+", "76s+"), other hands raise the kicker ("A5s+")
+ */
+function expandPlus(handClass: ParsedHandClass): ParsedHandClass[] {
+  const { high, low, suitedness } = handClass
+  const classes: ParsedHandClass[] = []
+
+  if (high === low || low - high === 1) {
+    for (let step = 0; step <= high; step++) {
+      classes.push({ high: high - step, low: low - step, suitedness })
+    }
+  } else {
+    for (let kicker = low; kicker > high; kicker--) {
+      classes.push({ high, low: kicker, suitedness })
+    }
+  }
+
+  return classes
+}
+
+/**
+ * Expands a "-" token between two bounds with the same top card ("A5s-A2s") or the same gap ("22-55", "76s-54s")
+ */
+function expandDash(from: ParsedHandClass, to: ParsedHandClass): ParsedHandClass[] {
+  const isPairRange = from.high === from.low && to.high === to.low
+  const isMixedRange = (from.high === from.low) !== (to.high === to.low)
+
+  if (isMixedRange || from.suitedness !== to.suitedness) {
+    throw new Error('INVALID_RANGE')
+  }
+
+  const suitedness = from.suitedness
+  const classes: ParsedHandClass[] = []
+
+  if (!isPairRange && from.high === to.high) {
+    for (let kicker = Math.min(from.low, to.low); kicker <= Math.max(from.low, to.low); kicker++) {
+      classes.push({ high: from.high, low: kicker, suitedness })
+    }
+  } else if (from.low - from.high === to.low - to.high) {
+    const gap = from.low - from.high
+    for (let high = Math.min(from.high, to.high); high <= Math.max(from.high, to.high); high++) {
+      classes.push({ high, low: high + gap, suitedness })
+    }
+  } else {
+    throw new Error('INVALID_RANGE')
+  }
+
+  return classes
+}
+
+/**
+ * Lists the concrete combos of parsed hand classes; a class without suitedness covers both
+ */
+function expandHandClasses(classes: ParsedHandClass[]): Card[][] {
+  return classes.flatMap(({ high, low, suitedness }) => {
+    const ranks = `${HAND_CLASS_RANKS[high]}${HAND_CLASS_RANKS[low]}`
+
+    if (high === low) {
+      return getStartingHandCombos(ranks)
+    }
+
+    const suitednesses = suitedness === '' ? ['s', 'o'] : [suitedness]
+    return suitednesses.flatMap(value => getStartingHandCombos(`${ranks}${value}`))
+  })
+}
+
+/**
+ * Formats consecutive classes at the same weight as runs; a run from the first class uses "+"
+ */
+function formatRuns(classes: string[], classWeights: Map<string, number>): string[] {
+  const tokens: string[] = []
+  let start = 0
+
+  while (start < classes.length) {
+    const weight = classWeights.get(classes[start])
+    if (weight === undefined) {
+      start++
+      continue
+    }
+
+    let end = start
+    while (end + 1 < classes.length && classWeights.get(classes[end + 1]) === weight) {
+      end++
+    }
+
+    let token: string
+    if (end === start) {
+      token = classes[start]
+    } else if (start === 0) {
+      token = `${classes[end]}+`
+    } else {
+      token = `${classes[start]}-${classes[end]}`
+    }
+
+    tokens.push(formatWeight(token, weight))
+    start = end + 1
+  }
+
+  return tokens
+}
+
+/**
+ * Appends a weight to a token unless it is fully in the range
+ */
+function formatWeight(token: string, weight: number): string {
+  return weight === 1 ? token : `${token}:${weight}`
+}
+
+/**
+ * Parses a token weight, which must be in (0, 1]
+ */
+function parseWeight(text: string): number {
+  const weight = Number(text.trim())
+
+  if (text.trim() === '' || !(weight > 0 && weight <= 1)) {
+    throw new Error('INVALID_RANGE_WEIGHT')
+  }
+
+  return weight
+}
+
+/**
+ * Counts the combos of a hand class (6 for pairs, 4 suited, 12 offsuit)
+ */
+function countClassCombos(handClass: string): number {
+  if (handClass.length === 2) return 6
+  return handClass.endsWith('s') ? 4 : 12
+}
+
+/**
+ * Orders combo cards higher rank first, then by suit
+ */
+function orderComboCards(cards: Card[]): Card[] {
+  return [...cards].sort((a, b) => b.value - a.value || SUITS.indexOf(a.suit) - SUITS.indexOf(b.suit))
+}
\ No newline at end of file
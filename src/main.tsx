@@ -2,6 +2,13 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { createIndexedDbCacheStorage, persistCalculationCache } from './utils/performance'
+
+// Keep calculation results between visits where the browser supports IndexedDB
+const cacheStorage = createIndexedDbCacheStorage()
+if (cacheStorage) {
+  persistCalculationCache(cacheStorage)
+}
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
@@ -246,7 +246,8 @@ export const useCalculatorStore = create<CalculatorStore>()(
               playerHand: validPlayerCards,
               communityCards: validCommunityCards,
               stage: state.stage,
-              preferredMethod: state.preferredCalculationMethod
+              preferredMethod: state.preferredCalculationMethod,
+              includeHandPotential: true
             })
             
             set({ 
@@ -342,19 +343,11 @@ export const selectCanCalculate = (state: CalculatorState) => {
   return state.playerHand.filter(c => c !== undefined).length === 2
 }
 
+// Effective hand strength (0-1) against a random opponent hand, falling back to the share of hands beaten; null before the flop
 export const selectCurrentHandStrength = (state: CalculatorState) => {
-  if (!state.results) return null
-  
-  // Calculate overall hand strength from probabilities
-  const probabilities = state.results.probabilities
-  let weightedSum = 0
-  let totalWeight = 0
-  
-  probabilities.forEach(prob => {
-    const weight = prob.percentage / 100
-    weightedSum += prob.handType * weight
-    totalWeight += weight
-  })
-  
-  return totalWeight > 0 ? (weightedSum / totalWeight) / 9 : 0
+  const results = state.results
+  if (results?.handPotential) return results.handPotential.effectiveHandStrength
+  if (!results?.relativeStrength) return null
+
+  return results.relativeStrength.percentile / 100
 }
\ No newline at end of file
@@ -15,10 +15,13 @@ export interface Card {
   id: string // Unique identifier (e.g., "AS", "KH")
 }
 
+// A standard 52-card deck, or the 36-card short deck (6 through A)
+export type DeckType = 'standard' | 'short'
+
 export interface Deck {
   availableCards: Card[]
   usedCards: Card[]
-  totalCards: 52
+  totalCards: number // Size of the full deck (52, or 36 for a short deck)
 }
 
 export interface ValidationResult {
@@ -41,6 +44,17 @@ export interface ComparisonResult {
 export const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades']
 export const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K']
 
+// Ranks in each deck; a short deck removes the 2s through 5s
+export const DECK_RANKS: Record<DeckType, Rank[]> = {
+  standard: RANKS,
+  short: ['A', '6', '7', '8', '9', '10', 'J', 'Q', 'K']
+}
+
+export const DECK_SIZES: Record<DeckType, number> = {
+  standard: 52,
+  short: 36
+}
+
 // Unicode symbols for card display
 export const SUIT_SYMBOLS: Record<Suit, string> = {
   hearts: '♥',
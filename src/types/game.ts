@@ -3,7 +3,7 @@
  * Domain model for Texas Hold'em game stages and state management
  */
 
-import type { Card } from './card'
+import type { Card, DeckType } from './card'
 
 export enum GameStage {
   PRE_FLOP = 'pre-flop',
@@ -68,9 +68,166 @@ export const STAGE_TRANSITIONS: Record<GameStage, GameStage[]> = {
   [GameStage.RIVER]: [] // Terminal state
 }
 
+// Seven-card stud streets, named for the cards each player holds
+export enum StudStreet {
+  THIRD = 'third',
+  FOURTH = 'fourth',
+  FIFTH = 'fifth',
+  SIXTH = 'sixth',
+  SEVENTH = 'seventh'
+}
+
+export interface StudStreetRules {
+  street: StudStreet
+  cards: number // Cards each player holds: 3 on third street up to 7 on seventh
+  upCards: number // How many of them are dealt face up
+}
+
+export const STUD_STREETS: Record<StudStreet, StudStreetRules> = {
+  [StudStreet.THIRD]: { street: StudStreet.THIRD, cards: 3, upCards: 1 },
+  [StudStreet.FOURTH]: { street: StudStreet.FOURTH, cards: 4, upCards: 2 },
+  [StudStreet.FIFTH]: { street: StudStreet.FIFTH, cards: 5, upCards: 3 },
+  [StudStreet.SIXTH]: { street: StudStreet.SIXTH, cards: 6, upCards: 4 },
+  [StudStreet.SEVENTH]: { street: StudStreet.SEVENTH, cards: 7, upCards: 4 }
+}
+
+// Deal-order positions of the down cards: two on third street and the last card on seventh
+export const STUD_DOWN_CARD_POSITIONS = [0, 1, 6]
+
+// Seven cards each for seven players fits a 52-card deck
+export const MAX_STUD_PLAYERS = 7
+
+// An opponent at a stud table, known only by the up-cards showing (slots in deal order)
+export interface StudOpponent {
+  upCards: (Card | undefined)[]
+}
+
+// Poker games the calculator can evaluate
+export type GameVariant = 'holdem' | 'shortdeck' | 'plo4' | 'plo5' | 'plo8' | 'stud' | 'stud8'
+
+export interface GameVariantRules {
+  variant: GameVariant
+  name: string
+  deck: DeckType // Deck the game is dealt from; a short deck also ranks flushes above full houses
+  holeCards: number // Cards dealt to each player (in stud, up and down cards by seventh street)
+  boardCards: number // Community cards dealt by the river (none in stud)
+  holeCardsUsed?: number // Hole cards a hand must use exactly (Omaha: 2, with 3 from the board); any when omitted
+  hiLo?: boolean // Pot splits between the best high hand and the best eight-or-better low
+}
+
+export const GAME_VARIANTS: Record<GameVariant, GameVariantRules> = {
+  holdem: {
+    variant: 'holdem',
+    name: "Texas Hold'em",
+    deck: 'standard',
+    holeCards: 2,
+    boardCards: 5
+  },
+  shortdeck: {
+    variant: 'shortdeck',
+    name: "Short Deck (6+) Hold'em",
+    deck: 'short',
+    holeCards: 2,
+    boardCards: 5
+  },
+  plo4: {
+    variant: 'plo4',
+    name: 'Omaha (PLO4)',
+    deck: 'standard',
+    holeCards: 4,
+    boardCards: 5,
+    holeCardsUsed: 2
+  },
+  plo5: {
+    variant: 'plo5',
+    name: '5-Card Omaha (PLO5)',
+    deck: 'standard',
+    holeCards: 5,
+    boardCards: 5,
+    holeCardsUsed: 2
+  },
+  plo8: {
+    variant: 'plo8',
+    name: 'Omaha Hi/Lo (O8)',
+    deck: 'standard',
+    holeCards: 4,
+    boardCards: 5,
+    holeCardsUsed: 2,
+    hiLo: true
+  },
+  stud: {
+    variant: 'stud',
+    name: 'Seven-Card Stud',
+    deck: 'standard',
+    holeCards: 7,
+    boardCards: 0
+  },
+  stud8: {
+    variant: 'stud8',
+    name: 'Seven-Card Stud Hi/Lo (Stud-8)',
+    deck: 'standard',
+    holeCards: 7,
+    boardCards: 0,
+    hiLo: true
+  }
+}
+
+export const DEFAULT_GAME_VARIANT: GameVariant = 'holdem'
+
+// Lowball rankings, where the lowest hand wins: deuce-to-seven (27) and ace-to-five (a5)
+export type LowballGame = '27' | 'a5'
+
+export interface LowballRules {
+  game: LowballGame
+  name: string
+  acesLow: boolean // Aces play below the deuce rather than above the king
+  countsStraightsAndFlushes: boolean // Straights and flushes count against the hand
+}
+
+export const LOWBALL_GAMES: Record<LowballGame, LowballRules> = {
+  '27': {
+    game: '27',
+    name: 'Deuce-to-Seven Lowball',
+    acesLow: false,
+    countsStraightsAndFlushes: true
+  },
+  a5: {
+    game: 'a5',
+    name: 'Ace-to-Five Lowball',
+    acesLow: true,
+    countsStraightsAndFlushes: false
+  }
+}
+
 export interface GameProgression {
   currentStage: GameStage
   canProgress: boolean
   nextStage: GameStage | null
   requirements: string[] // What needs to be completed to progress
+}
+
+// Chips at stake when facing a bet
+export interface BettingState {
+  potSize: number // Pot before calling, including the bet being faced
+  betToCall: number // Chips needed to call
+  effectiveStack: number // Smaller of the player's and the bettor's stacks before calling
+}
+
+export const DEFAULT_BETTING_STATE: BettingState = {
+  potSize: 100,
+  betToCall: 50,
+  effectiveStack: 1000
+}
+
+// Whether calling a bet is worth it with a given equity
+export interface BettingAnalysis {
+  equity: number // Percentage (0-100) of the pot the player expects to win
+  potOdds: number // Pot to call ratio (e.g. 3 for 3:1)
+  requiredEquity: number // Percentage (0-100) needed for a call to break even
+  callEV: number // Expected chips won or lost by calling
+  foldEV: number // Folding neither wins nor loses further chips
+  isProfitableCall: boolean
+  impliedOddsBreakeven: number // Chips that must be won on later streets for a call to break even (0 when already profitable)
+  remainingStack: number // Chips left behind after calling, the most that can be won later
+  isImpliedOddsReachable: boolean // The breakeven amount fits in the remaining stack
 }
\ No newline at end of file
@@ -3,7 +3,8 @@
  * Domain model for poker hands and rankings
  */
 
-import type { Card } from './card'
+import type { Card, DeckType, Rank, Suit } from './card'
+import type { GameVariant } from './game'
 
 export enum HandStrength {
   HIGH_CARD = 0,
@@ -18,6 +19,18 @@ export enum HandStrength {
   ROYAL_FLUSH = 9
 }
 
+// Hand types from weakest to strongest in each deck; with fewer cards per suit a short-deck flush beats a full house
+export const HAND_TYPE_ORDER: Record<DeckType, HandStrength[]> = {
+  standard: [
+    HandStrength.HIGH_CARD, HandStrength.PAIR, HandStrength.TWO_PAIR, HandStrength.THREE_OF_A_KIND, HandStrength.STRAIGHT,
+    HandStrength.FLUSH, HandStrength.FULL_HOUSE, HandStrength.FOUR_OF_A_KIND, HandStrength.STRAIGHT_FLUSH, HandStrength.ROYAL_FLUSH
+  ],
+  short: [
+    HandStrength.HIGH_CARD, HandStrength.PAIR, HandStrength.TWO_PAIR, HandStrength.THREE_OF_A_KIND, HandStrength.STRAIGHT,
+    HandStrength.FULL_HOUSE, HandStrength.FLUSH, HandStrength.FOUR_OF_A_KIND, HandStrength.STRAIGHT_FLUSH, HandStrength.ROYAL_FLUSH
+  ]
+}
+
 export interface HandType {
   strength: HandStrength
   name: string
@@ -48,6 +61,16 @@ export interface HandEvaluation {
   description: string
 }
 
+export interface LowHandEvaluation {
+  bestHand: Card[] // Five unpaired cards eight or lower, highest first (aces play low)
+  description: string // e.g. "8-6-4-2-A low"
+}
+
+export interface ConfidenceInterval {
+  lower: number // 0-1 decimal
+  upper: number // 0-1 decimal
+}
+
 export interface ProbabilityResult {
   handType: HandStrength
   probability: number // 0-1 decimal
@@ -55,6 +78,156 @@ export interface ProbabilityResult {
   odds: string // e.g., "2.5:1"
   occurrences: number // Favorable outcomes in calculation
   totalOutcomes: number // Total possible outcomes
+  standardError: number // Standard error of the probability; 0 for exact counts
+  confidenceInterval: ConfidenceInterval // 95% interval for the probability; collapses to it for exact counts
+}
+
+export interface ComboEquity {
+  cards: Card[] // One combo of the seat's range
+  weight: number // Range weight of the combo
+  equity: number // 0-100 share of the pot when the seat holds this combo
+  playerEquity: number // 0-100 share of the pot won by the player (seat 0) against this combo
+  totalOutcomes: number // Outcomes in which the seat held this combo
+}
+
+export interface PlayerEquity {
+  holeCards: Card[] // Empty for an opponent with unknown cards or a range
+  range?: string // Canonical range notation when the seat holds a range
+  combos?: ComboEquity[] // Per-combo breakdown when the seat holds a range
+  wins: number // Outcomes won outright
+  ties: number // Outcomes with a split pot
+  losses: number // Outcomes lost
+  winPercentage: number // 0-100 display format
+  tiePercentage: number // 0-100 display format
+  losePercentage: number // 0-100 display format
+  equity: number // 0-100 share of the pot, split pots divided between winners
+  standardError: number // Standard error of the pot share (0-1 decimal); 0 when every run-out was counted
+  confidenceInterval: ConfidenceInterval // 95% interval for the pot share; collapses to it when every run-out was counted
+  totalOutcomes: number // Total run-outs evaluated
+  splitPot?: SplitPotEquity // Hi/lo games only; wins are scoops and ties any partial share
+}
+
+export interface SplitPotEquity {
+  highEquity: number // 0-100 share of the high half won
+  lowEquity: number // 0-100 share of the low half won (no low half when no hand qualifies)
+  lowPercentage: number // 0-100 outcomes making an eight-or-better low
+  scoopPercentage: number // 0-100 outcomes winning the whole pot alone
+  quarteredPercentage: number // 0-100 outcomes splitting one half and winning none of the other
+}
+
+export interface HandComparison {
+  result: -1 | 0 | 1 // -1 if the first hand loses, 0 for a split pot, 1 if the first hand wins
+  hand1: HandEvaluation
+  hand2: HandEvaluation
+  reasoning: string
+}
+
+export interface RankedHand {
+  index: number // Position of the hand in the input
+  rank: number // 1 for the best hand; tied hands share a rank
+  evaluation: HandEvaluation
+}
+
+export interface ShowdownResult {
+  winners: number[] // Indexes of the players taking the pot
+  isSplitPot: boolean
+  rankings: RankedHand[] // Every player's hand, best first
+}
+
+export type DrawType =
+  | 'flush-draw'
+  | 'backdoor-flush-draw'
+  | 'open-ended-straight-draw'
+  | 'double-gutshot'
+  | 'gutshot'
+  | 'overcards'
+  | 'combo-draw'
+
+export interface Draw {
+  type: DrawType
+  description: string // e.g. "Open-ended straight draw"
+  outs: Card[] // Unseen cards completing the draw on the next card; none for backdoor draws, which need two
+  outCount: number
+}
+
+// Why an out may not win: its improvement plays from the board, it pairs the board (full houses possible),
+// it brings a third card of a suit (flushes possible), or a known opponent ends up ahead
+export type DirtyOutReason = 'counterfeit' | 'pairs-board' | 'flush-card' | 'opponent-improves'
+
+export interface OutCard {
+  card: Card
+  handType: HandStrength // Hand the player makes with this card
+  isDirty: boolean
+  dirtyReasons: DirtyOutReason[]
+}
+
+export interface OutsGroup {
+  handType: HandStrength
+  outs: OutCard[]
+}
+
+export interface OutsAnalysis {
+  currentHand: HandStrength
+  groups: OutsGroup[] // Outs grouped by the hand they make, best first
+  totalOuts: number
+  cleanOuts: number
+  dirtyOuts: number
+  blanks: number // Unseen cards that do not improve the hand
+  cardsToCome: number // 2 on the flop, 1 on the turn
+  ruleOfThumb: number // 0-100 estimate of hitting an out: outs x 4 on the flop, x 2 on the turn
+  exactPercentage: number // 0-100 chance of hitting at least one out by the river
+  cleanExactPercentage: number // Same, counting clean outs only
+}
+
+export type BoardPairing = 'unpaired' | 'paired' | 'two-pair' | 'trips' | 'full-house' | 'quads'
+export type BoardSuitedness = 'rainbow' | 'two-tone' | 'three-flush' | 'four-flush' | 'monotone' // Flushes name a mixed board's three or four cards of one suit
+export type BoardHeight = 'high' | 'middle' | 'low' // Top card queen or better, nine to jack, eight or lower
+
+export interface PossibleStraight {
+  highCard: Rank
+  holeRanks: Rank[] // Ranks the hole cards must supply; empty when the board is the straight
+}
+
+export interface NutHand {
+  handStrength: HandStrength
+  description: string
+  combos: Card[][] // Every pair of hole cards that makes the nuts
+}
+
+export interface HoldingRank {
+  rank: number // 1 for the nuts, 2 for the second nuts, ...
+  handStrength: HandStrength
+  description: string
+  combos: Card[][] // Every pair of hole cards making this exact hand
+}
+
+export interface RelativeHandStrength {
+  position: number // Where the hand ranks among the possible holdings (1 = the nuts)
+  description: string
+  beats: number // Opponent combos beaten
+  ties: number // Opponent combos making the same hand
+  losesTo: number // Opponent combos making a better hand
+  totalCombos: number // Every opponent combo of the unseen cards (1,081 on the flop)
+  percentile: number // 0-100 share of opponent combos beaten, ties counting half
+}
+
+export interface HandPotential {
+  handStrength: number // HS 0-1: share of random opponent hands beaten now, ties counting half
+  positivePotential: number // PPot 0-1: chance of ending ahead when behind or tied now
+  negativePotential: number // NPot 0-1: chance of ending behind when ahead or tied now
+  effectiveHandStrength: number // EHS 0-1: HS x (1 - NPot) + (1 - HS) x PPot
+}
+
+export interface BoardTexture {
+  pairing: BoardPairing
+  suitedness: BoardSuitedness
+  connectedness: 'connected' | 'disconnected' // Connected when a straight is possible
+  height: BoardHeight
+  isFlushPossible: boolean
+  flushSuit?: Suit // Suit with three or more cards on the board
+  isFlushDrawPossible: boolean // Two cards of a suit with cards still to come
+  possibleStraights: PossibleStraight[] // Highest first
+  nuts: NutHand
 }
 
 export interface CalculationResults {
@@ -62,11 +235,25 @@ export interface CalculationResults {
   playerHand: Card[]
   communityCards: Card[]
   probabilities: ProbabilityResult[]
+  equity?: PlayerEquity[] // Present when opponents were given; index 0 is the player
   calculationTime: number // milliseconds
   method: 'lookup' | 'simulation' | 'exact' // Calculation approach used
+  seed?: number // Seed of the random generator; pass it back in a request to replay the run
+  converged?: boolean // Target-precision mode only: whether every interval met the tolerance in time
+  outs?: OutsAnalysis // Present on the flop and turn when the player's hole cards are known
+  draws?: Draw[] // Present with outs: the draws the player's hole cards make with the board
+  relativeStrength?: RelativeHandStrength // Present from the flop on when the player's hole cards are known
+  handPotential?: HandPotential // Present from the flop on when requested with includeHandPotential
+  variant?: GameVariant // Game whose rules made the hands (Hold'em when omitted)
   timestamp: number // For caching
 }
 
+// A calculation cache entry: results along with the suits they were calculated in
+export interface CachedCalculation {
+  results: CalculationResults
+  suitMap: Record<Suit, Suit> // Suits of the request that produced the results -> suits of the cache key
+}
+
 // Hand type definitions with base probabilities
 export const HAND_TYPES: Record<HandStrength, HandType> = {
   [HandStrength.HIGH_CARD]: {
@@ -131,6 +318,34 @@ export const HAND_TYPES: Record<HandStrength, HandType> = {
   }
 }
 
+// Hand types with base probabilities for a 36-card short deck, where a flush beats a full house
+export const SHORT_DECK_HAND_TYPES: Record<HandStrength, HandType> = {
+  ...HAND_TYPES,
+  [HandStrength.HIGH_CARD]: { ...HAND_TYPES[HandStrength.HIGH_CARD], probability: 0.324675 },
+  [HandStrength.PAIR]: { ...HAND_TYPES[HandStrength.PAIR], probability: 0.513369 },
+  [HandStrength.TWO_PAIR]: { ...HAND_TYPES[HandStrength.TWO_PAIR], probability: 0.096257 },
+  [HandStrength.THREE_OF_A_KIND]: { ...HAND_TYPES[HandStrength.THREE_OF_A_KIND], probability: 0.042781 },
+  [HandStrength.STRAIGHT]: {
+    ...HAND_TYPES[HandStrength.STRAIGHT],
+    description: 'Five cards in sequence (A-6-7-8-9 is the lowest)',
+    probability: 0.016234
+  },
+  [HandStrength.FLUSH]: {
+    ...HAND_TYPES[HandStrength.FLUSH],
+    description: 'Five cards of the same suit (beats a full house)',
+    probability: 0.001273
+  },
+  [HandStrength.FULL_HOUSE]: { ...HAND_TYPES[HandStrength.FULL_HOUSE], probability: 0.004584 },
+  [HandStrength.FOUR_OF_A_KIND]: { ...HAND_TYPES[HandStrength.FOUR_OF_A_KIND], probability: 0.000764 },
+  [HandStrength.STRAIGHT_FLUSH]: { ...HAND_TYPES[HandStrength.STRAIGHT_FLUSH], probability: 0.000053 },
+  [HandStrength.ROYAL_FLUSH]: { ...HAND_TYPES[HandStrength.ROYAL_FLUSH], probability: 0.000011 }
+}
+
+export const DECK_HAND_TYPES: Record<DeckType, Record<HandStrength, HandType>> = {
+  standard: HAND_TYPES,
+  short: SHORT_DECK_HAND_TYPES
+}
+
 // Error types for poker operations
 export enum PokerError {
   INVALID_CARD = 'Invalid card selection',
@@ -149,4 +364,18 @@ export interface CalculationRequest {
   communityCards: Card[]
   stage: string
   preferredMethod?: CalculationMethod
-}
\ No newline at end of file
+  opponentHands?: Card[][] // Known opponent hole cards for equity calculation
+  randomOpponents?: number // Opponents with unknown cards, dealt at random
+  playerRange?: string // Range notation used instead of playerHand (e.g. "QQ+, AKs")
+  opponentRanges?: string[] // Range notation for each opponent holding a range
+  seed?: number // 32-bit integer seed for reproducible simulations; a random seed is used when omitted
+  targetPrecision?: number // Keep simulating until every 95% interval half-width (hand types and equity) is below this (0-1, e.g. 0.005)
+  timeBudget?: number // Milliseconds allowed for target-precision sampling
+  includeHandPotential?: boolean // Also calculate HS, PPot, NPot and EHS against a random hand (flop on)
+  deadCards?: Card[] // Cards known to be out of play (mucked or exposed), never dealt to anyone
+  variant?: GameVariant // Game to calculate for, e.g. 'plo4' for Omaha; Hold'em when omitted
+}
+
+// Table size limits (the player plus up to 9 opponents)
+export const MAX_PLAYERS = 10
+export const MAX_OPPONENTS = MAX_PLAYERS - 1
\ No newline at end of file
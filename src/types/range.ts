@@ -0,0 +1,17 @@
+/**
+ * Hand Range Types and Interfaces
+ * Domain model for the sets of hole cards an opponent may hold
+ */
+
+import type { Card } from './card'
+
+export interface RangeCombo {
+  cards: Card[] // Two hole cards, higher rank first
+  weight: number // 0-1 share of the combo that is in the range
+}
+
+export interface HandRange {
+  combos: RangeCombo[]
+  totalCombos: number // Distinct combos in the range
+  weightedCombos: number // Combos counted by weight (a combo at 0.5 counts as half)
+}
\ No newline at end of file
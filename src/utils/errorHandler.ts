@@ -33,11 +33,30 @@ export const ERROR_MESSAGES: Record<string, { message: string; severity: ErrorIn
   INVALID_CALCULATION_REQUEST: { message: 'Invalid calculation parameters', severity: 'medium' },
   CALCULATION_TIMEOUT: { message: 'Calculation took too long', severity: 'high' },
   WORKER_ERROR: { message: 'Background calculation failed', severity: 'high' },
+  EXACT_REQUIRES_KNOWN_HANDS: { message: 'Exact calculation needs every opponent hand to be known', severity: 'medium' },
   
   // Validation errors
   INVALID_HAND: { message: 'Invalid poker hand', severity: 'medium' },
   INVALID_STAGE: { message: 'Invalid game stage', severity: 'medium' },
   INVALID_COMMUNITY_CARDS: { message: 'Invalid community cards', severity: 'medium' },
+  INVALID_OPPONENT_HAND_SIZE: { message: 'Each opponent needs exactly 2 hole cards', severity: 'medium' },
+  INVALID_OPPONENT_COUNT: { message: 'Invalid number of opponents', severity: 'medium' },
+  TOO_MANY_PLAYERS: { message: 'A table seats at most 10 players', severity: 'medium' },
+  INVALID_RANGE: { message: 'Invalid hand range notation', severity: 'medium' },
+  INVALID_RANGE_WEIGHT: { message: 'Range weights must be between 0 and 1', severity: 'medium' },
+  INVALID_SEED: { message: 'Seed must be an integer from 0 to 4294967295', severity: 'medium' },
+  INVALID_PRECISION: { message: 'Target precision must be between 0 and 1 and the time budget positive', severity: 'medium' },
+  EMPTY_RANGE: { message: 'Every combo in the range is blocked by known cards', severity: 'medium' },
+  RANGE_CONFLICT: { message: 'The ranges cannot be dealt together without sharing a card', severity: 'medium' },
+  INVALID_GAME_VARIANT: { message: 'Unknown game variant', severity: 'medium' },
+  RANGES_REQUIRE_HOLDEM: { message: "Ranges are only supported in Texas Hold'em", severity: 'medium' },
+  CARD_NOT_IN_DECK: { message: 'Card is not in the deck for this game (short deck plays 6 through A)', severity: 'medium' },
+  INVALID_STUD_STREET: { message: 'Unknown stud street (third through seventh)', severity: 'medium' },
+  INVALID_STUD_UP_CARDS: { message: 'Each stud opponent shows one up-card on third street, adding one a street up to four', severity: 'medium' },
+  TOO_MANY_STUD_PLAYERS: { message: 'A stud table seats at most 7 players', severity: 'medium' },
+  TOO_MANY_DEAD_CARDS: { message: 'Too many dead cards to deal the rest of the hand', severity: 'medium' },
+  INVALID_BETTING_STATE: { message: 'Pot must be positive and the bet to call between zero and the effective stack', severity: 'medium' },
+  INVALID_EQUITY: { message: 'Equity must be between 0% and 100%', severity: 'medium' },
   
   // Network/Storage errors
   STORAGE_ERROR: { message: 'Failed to save settings', severity: 'low' },
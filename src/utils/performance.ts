@@ -3,6 +3,10 @@
  */
 
 import { useCallback, useMemo, useRef } from 'react'
+import type { Card, Suit } from '../types/card'
+import { SUITS } from '../types/card'
+import type { CachedCalculation, CalculationRequest } from '../types/poker'
+import { canonicalizeSuits } from '../lib/card-utils/src/isomorphism'
 
 // Debounce utility for expensive operations
 export function debounce<T extends (...args: any[]) => void>(
@@ -35,11 +39,34 @@ export function throttle<T extends (...args: any[]) => void>(
   }) as T
 }
 
-// Memoization cache for expensive calculations
+export interface CacheEntry<T> {
+  key: string
+  value: T
+  timestamp: number
+}
+
+export interface CacheStats {
+  hits: number
+  misses: number
+  hitRate: number // 0-1, 0 before any lookup
+  size: number
+}
+
+// Where cached entries are kept between sessions (IndexedDB in the browser, a file for the CLI)
+export interface CalculationCacheStorage<T> {
+  load(): Promise<CacheEntry<T>[]>
+  save(entries: CacheEntry<T>[]): Promise<void>
+}
+
+// Memoization cache for expensive calculations, evicting the least recently used entry when full.
+// A miss is counted when the missing value is stored, so lookups for values that never get cached don't count.
 class MemoCache<T> {
   private cache = new Map<string, { value: T; timestamp: number }>()
   private maxSize: number
   private ttl: number // time to live in milliseconds
+  private hits = 0
+  private misses = 0
+  private listeners = new Set<() => void>()
   
   constructor(maxSize = 100, ttl = 5 * 60 * 1000) { // 5 minutes default
     this.maxSize = maxSize
@@ -57,44 +84,184 @@ class MemoCache<T> {
       return undefined
     }
     
+    // Re-insert so the map stays ordered from least to most recently used
+    this.cache.delete(key)
+    this.cache.set(key, entry)
+    this.hits++
+    
     return entry.value
   }
   
   set(key: string, value: T): void {
-    // Remove oldest entries if cache is full
-    if (this.cache.size >= this.maxSize) {
-      const firstKey = this.cache.keys().next().value
-      if (firstKey) {
-        this.cache.delete(firstKey)
-      }
-    }
-    
-    this.cache.set(key, {
-      value,
-      timestamp: Date.now()
-    })
+    this.store(key, value, Date.now())
+    this.misses++
+    this.notify()
   }
   
   clear(): void {
     this.cache.clear()
+    this.hits = 0
+    this.misses = 0
+    this.notify()
   }
   
   size(): number {
     return this.cache.size
   }
+  
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses
+    
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      size: this.cache.size
+    }
+  }
+  
+  // Entries from least to most recently used, for persistence
+  entries(): CacheEntry<T>[] {
+    return [...this.cache.entries()].map(([key, entry]) => ({ key, ...entry }))
+  }
+  
+  // Restores persisted entries without counting lookups; expired entries and keys already cached are skipped
+  load(entries: CacheEntry<T>[]): void {
+    for (const entry of entries) {
+      if (!this.cache.has(entry.key) && Date.now() - entry.timestamp <= this.ttl) {
+        this.store(entry.key, entry.value, entry.timestamp)
+      }
+    }
+  }
+  
+  // Calls the listener whenever entries change; returns a function that unsubscribes it
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+  
+  private store(key: string, value: T, timestamp: number): void {
+    this.cache.delete(key)
+    
+    // Evict the least recently used entry if cache is full
+    if (this.cache.size >= this.maxSize) {
+      const leastRecentKey = this.cache.keys().next().value
+      if (leastRecentKey !== undefined) {
+        this.cache.delete(leastRecentKey)
+      }
+    }
+    
+    this.cache.set(key, { value, timestamp })
+  }
+  
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
 }
 
-// Global calculation cache
-export const calculationCache = new MemoCache<any>(200, 10 * 60 * 1000) // 10 minutes
+// Global calculation cache; results are deterministic, so entries only age out to bound persisted storage
+export const calculationCache = new MemoCache<CachedCalculation>(200, 7 * 24 * 60 * 60 * 1000) // 7 days
 
-// Create a memoized calculation key from request
-export function createCalculationKey(request: any): string {
-  return JSON.stringify({
-    playerHand: request.playerHand?.map((c: any) => c?.id).sort(),
-    communityCards: request.communityCards?.map((c: any) => c?.id).filter(Boolean).sort(),
+// Values memoized by useMemoizedCalculation, kept apart from the persisted calculation cache
+const memoizedValueCache = new MemoCache<unknown>()
+
+// Restores the calculation cache from storage and saves it back shortly after it changes; returns a function that stops saving
+export async function persistCalculationCache(
+  storage: CalculationCacheStorage<CachedCalculation>,
+  delay = 1000
+): Promise<() => void> {
+  try {
+    calculationCache.load(await storage.load())
+  } catch {
+    // Unreadable storage starts an empty cache
+  }
+  
+  const save = debounce(() => {
+    storage.save(calculationCache.entries()).catch(() => undefined)
+  }, delay)
+  
+  return calculationCache.subscribe(save)
+}
+
+// IndexedDB storage for the calculation cache, or null where IndexedDB is unavailable
+export function createIndexedDbCacheStorage(
+  databaseName = 'poker-calculator'
+): CalculationCacheStorage<CachedCalculation> | null {
+  if (typeof indexedDB === 'undefined') return null
+  
+  const storeName = 'calculation-cache'
+  const entriesKey = 'entries'
+  
+  const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(databaseName, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(storeName)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  
+  const runTransaction = async <R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> => {
+    const database = await openDatabase()
+    
+    return new Promise<R>((resolve, reject) => {
+      const transaction = database.transaction(storeName, mode)
+      const request = operation(transaction.objectStore(storeName))
+      transaction.oncomplete = () => {
+        database.close()
+        resolve(request.result)
+      }
+      transaction.onerror = () => {
+        database.close()
+        reject(transaction.error)
+      }
+    })
+  }
+  
+  return {
+    load: async () => (await runTransaction('readonly', store => store.get(entriesKey))) ?? [],
+    save: async entries => {
+      await runTransaction('readwrite', store => store.put(entries, entriesKey))
+    }
+  }
+}
+
+// Create a memoized calculation key from request.
+// Suit-isomorphic requests (pre-flop AhKh and AsKs) share a key; range notation names suits, so ranges keep them,
+// and a seeded run samples differently once its suits are relabeled, so seeded requests keep them too.
+export function createCalculationKey(request: CalculationRequest): string {
+  return canonicalizeCalculationRequest(request).key
+}
+
+// Create a calculation key along with the suit map relabeling the request's cards to the key's suits
+export function canonicalizeCalculationRequest(request: CalculationRequest): { key: string; suitMap: Record<Suit, Suit> } {
+  const knownCards = (cards?: (Card | undefined)[]) => (cards ?? []).filter((card): card is Card => Boolean(card))
+  const groups: Card[][] = [
+    knownCards(request.playerHand),
+    knownCards(request.communityCards),
+    knownCards(request.deadCards),
+    ...(request.opponentHands ?? []).map(knownCards)
+  ]
+  const hasRanges = Boolean(request.playerRange) || (request.opponentRanges?.length ?? 0) > 0
+  const canonical = hasRanges || request.seed !== undefined ? null : canonicalizeSuits(groups)
+
+  const key = JSON.stringify({
+    cards: canonical ? canonical.key : groups.map(group => group.map(card => card.id).sort()),
+    playerRange: request.playerRange,
+    opponentRanges: request.opponentRanges,
+    randomOpponents: request.randomOpponents,
     stage: request.stage,
-    method: request.preferredMethod
+    method: request.preferredMethod,
+    variant: request.variant,
+    seed: request.seed,
+    targetPrecision: request.targetPrecision,
+    timeBudget: request.timeBudget,
+    includeHandPotential: request.includeHandPotential
   })
+  const identity = Object.fromEntries(SUITS.map(suit => [suit, suit])) as Record<Suit, Suit>
+
+  return { key, suitMap: canonical ? canonical.suitMap : identity }
 }
 
 // React hooks for performance optimization
@@ -137,14 +304,14 @@ export function useMemoizedCalculation<T, K>(
 ): T {
   return useMemo(() => {
     const cacheKey = JSON.stringify(key)
-    const cached = calculationCache.get(cacheKey)
+    const cached = memoizedValueCache.get(cacheKey)
     
     if (cached !== undefined) {
-      return cached
+      return cached as T
     }
     
     const result = calculator(key)
-    calculationCache.set(cacheKey, result)
+    memoizedValueCache.set(cacheKey, result)
     
     return result
   }, [key, ...deps])
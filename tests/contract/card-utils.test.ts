@@ -1,5 +1,10 @@
 import { describe, test, expect } from 'vitest'
-import { createCard, validateCards, createDeck, dealCards, parseCard, compareCards } from '../../src/lib/card-utils/src/card-utils'
+import { createCard, validateCards, createDeck, dealCards, shuffleDeck, parseCard, compareCards } from '../../src/lib/card-utils/src/card-utils'
+import { simulateTableDeal, enumerateBoards, countCombinations } from '../../src/lib/card-utils/src/deck'
+import { createRng } from '../../src/lib/card-utils/src/random'
+import { canonicalizeSuits, enumerateIsomorphicBoards } from '../../src/lib/card-utils/src/isomorphism'
+import { getStudStreet, validateStudHand } from '../../src/lib/card-utils/src/validation'
+import { getStartingHandClass, getStartingHandClasses, getStartingHandCombos } from '../../src/lib/card-utils/src/starting-hands'
 
 describe('Card Utils Library Contract Tests', () => {
   describe('createCard', () => {
@@ -59,6 +64,15 @@ describe('Card Utils Library Contract Tests', () => {
         })
       })
     })
+
+    test('should create a 36-card short deck without 2s through 5s', () => {
+      const deck = createDeck('short')
+
+      expect(deck.availableCards).toHaveLength(36)
+      expect(deck.totalCards).toBe(36)
+      expect(deck.availableCards.some(card => ['2', '3', '4', '5'].includes(card.rank))).toBe(false)
+      expect(dealCards(deck, 5).remainingDeck.totalCards).toBe(36)
+    })
   })
   
   describe('validateCards', () => {
@@ -95,6 +109,13 @@ describe('Card Utils Library Contract Tests', () => {
       expect(result.isValid).toBe(true)
       expect(result.errors).toHaveLength(0)
     })
+
+    test('should reject cards missing from a short deck', () => {
+      const cards = [createCard('hearts', 'A'), createCard('spades', '5')]
+
+      expect(validateCards(cards).isValid).toBe(true)
+      expect(validateCards(cards, 'short').errors.map(error => error.code)).toEqual(['CARD_NOT_IN_DECK'])
+    })
   })
   
   describe('dealCards', () => {
@@ -120,6 +141,157 @@ describe('Card Utils Library Contract Tests', () => {
     })
   })
   
+  describe('seeded shuffling', () => {
+    test('should produce the same order for the same seed', () => {
+      const first = shuffleDeck(createDeck(), createRng(42)).availableCards.map(card => card.id)
+      const second = shuffleDeck(createDeck(), createRng(42)).availableCards.map(card => card.id)
+      const other = shuffleDeck(createDeck(), createRng(43)).availableCards.map(card => card.id)
+
+      expect(second).toEqual(first)
+      expect(other).not.toEqual(first)
+      expect(new Set(first)).toHaveLength(52)
+    })
+
+    test('should generate floats in [0, 1) and reject seeds outside the 32-bit range', () => {
+      const random = createRng(7)
+      const values = Array.from({ length: 1000 }, () => random())
+
+      expect(values.every(value => value >= 0 && value < 1)).toBe(true)
+      expect(() => createRng(1.5)).toThrow('INVALID_SEED')
+      expect(() => createRng(2 ** 32)).toThrow('INVALID_SEED')
+    })
+  })
+
+  describe('simulateTableDeal', () => {
+    test('should deal unknown seats and complete the board without collisions', () => {
+      const playerHand = [createCard('spades', 'A'), createCard('hearts', 'A')]
+      const flop = [createCard('clubs', '2'), createCard('diamonds', '7'), createCard('hearts', '9')]
+
+      const tables = simulateTableDeal([playerHand, [], []], flop, 20)
+
+      expect(tables).toHaveLength(20)
+      tables.forEach(table => {
+        expect(table.seats[0]).toEqual(playerHand)
+        expect(table.seats[1]).toHaveLength(2)
+        expect(table.seats[2]).toHaveLength(2)
+        expect(table.board.slice(0, 3)).toEqual(flop)
+        expect(table.board).toHaveLength(5)
+
+        const ids = [...table.seats.flat(), ...table.board].map(card => card.id)
+        expect(new Set(ids)).toHaveLength(11)
+      })
+    })
+
+    test('should never deal dead cards', () => {
+      const playerHand = [createCard('spades', 'A'), createCard('hearts', 'A')]
+      const deadCards = [createCard('diamonds', 'A'), createCard('clubs', 'A'), createCard('spades', 'K')]
+
+      const tables = simulateTableDeal([playerHand, []], [], 200, 2, Math.random, deadCards)
+      const deadIds = new Set(deadCards.map(card => card.id))
+
+      tables.forEach(table => {
+        expect([...table.seats.flat(), ...table.board].some(card => deadIds.has(card.id))).toBe(false)
+      })
+    })
+
+    test('should top up partly known stud seats without a board', () => {
+      const playerCards = [createCard('spades', 'A'), createCard('hearts', 'A'), createCard('clubs', 'K')]
+      const upCards = [createCard('diamonds', 'Q')]
+
+      const tables = simulateTableDeal([playerCards, upCards], [], 20, 7, Math.random, [], 'standard', 0)
+
+      tables.forEach(table => {
+        expect(table.seats[0].slice(0, 3)).toEqual(playerCards)
+        expect(table.seats[1][0]).toEqual(upCards[0])
+        expect(table.seats.map(seat => seat.length)).toEqual([7, 7])
+        expect(table.board).toHaveLength(0)
+        expect(new Set(table.seats.flat().map(card => card.id))).toHaveLength(14)
+      })
+    })
+  })
+
+  describe('stud validation', () => {
+    const playerCards = [createCard('spades', 'A'), createCard('hearts', 'A'), createCard('clubs', 'K'), createCard('clubs', '2')]
+
+    test('should find the street from the player\'s card count', () => {
+      expect(getStudStreet(2)).toBeUndefined()
+      expect(getStudStreet(3)).toBe('third')
+      expect(getStudStreet(7)).toBe('seventh')
+    })
+
+    test('should require the street\'s cards and up-cards', () => {
+      const upCards = [createCard('diamonds', 'Q'), createCard('diamonds', 'J')]
+
+      expect(validateStudHand(playerCards, [], [upCards], 'fourth').isValid).toBe(true)
+      expect(validateStudHand(playerCards, [], [upCards], 'fifth').errors[0].code).toBe('INVALID_PLAYER_HAND_SIZE')
+      expect(validateStudHand(playerCards, [], [upCards.slice(0, 1)], 'fourth').errors[0].code).toBe('INVALID_STUD_UP_CARDS')
+      expect(validateStudHand(playerCards, [createCard('hearts', '9')], [], 'fourth').errors[0].code).toBe('INVALID_COMMUNITY_CARDS')
+      expect(validateStudHand(playerCards, [], [], 'flop').errors[0].code).toBe('INVALID_STUD_STREET')
+      expect(validateStudHand(playerCards, [], [], 'fourth', 7).errors[0].code).toBe('TOO_MANY_STUD_PLAYERS')
+    })
+  })
+
+  describe('enumerateBoards', () => {
+    test('should enumerate every flop run-out exactly once', () => {
+      const playerHand = [createCard('spades', 'A'), createCard('hearts', 'A')]
+      const flop = [createCard('clubs', '2'), createCard('diamonds', '7'), createCard('hearts', '9')]
+
+      const runouts = new Set<string>()
+      for (const board of enumerateBoards(playerHand, flop)) {
+        runouts.add(board.slice(3).map(card => card.id).join(','))
+      }
+
+      expect(countCombinations(47, 2)).toBe(1081)
+      expect(runouts.size).toBe(1081)
+    })
+  })
+
+  describe('suit isomorphism', () => {
+    test('should give suit-isomorphic states the same canonical key', () => {
+      const key = (...groups: string[][]) => canonicalizeSuits(groups.map(group => group.map(parseCard))).key
+
+      expect(key(['AH', 'KH'])).toBe(key(['AS', 'KS']))
+      expect(key(['AH', 'KH'])).not.toBe(key(['AH', 'KS']))
+      expect(key(['AH', 'KS'], ['2H', '7S', '9C'])).toBe(key(['AD', 'KC'], ['2D', '7C', '9S']))
+      // Groups keep their roles: a dead ace of the hole cards' suit is not a dead ace of another suit
+      expect(key(['AH', 'KH'], [], ['QH'])).not.toBe(key(['AH', 'KH'], [], ['QS']))
+
+      const canonical = canonicalizeSuits([[parseCard('AS'), parseCard('KS')]])
+      expect(canonical.groups[0].map(card => card.suit)).toEqual([canonical.suitMap.spades, canonical.suitMap.spades])
+    })
+
+    test('should enumerate one board per suit family with weights covering every run-out', () => {
+      const playerHand = [parseCard('AH'), parseCard('KH')]
+      const flop = [parseCard('2C'), parseCard('7D'), parseCard('9S')]
+
+      const turnsAndRivers = [...enumerateIsomorphicBoards([playerHand], flop)]
+      expect(turnsAndRivers.reduce((sum, { weight }) => sum + weight, 0)).toBe(1081)
+      // A rainbow flop with suited hole cards leaves no suit symmetry
+      expect(turnsAndRivers).toHaveLength(1081)
+
+      const preflopTurns = [...enumerateIsomorphicBoards([playerHand], [], 'standard', 1)]
+      expect(preflopTurns.reduce((sum, { weight }) => sum + weight, 0)).toBe(50)
+      // Hearts stay fixed and the other three suits are interchangeable: 11 hearts plus 13 ranks in one other suit
+      expect(preflopTurns).toHaveLength(24)
+    })
+  })
+
+  describe('starting hands', () => {
+    test('should classify hole cards into starting-hand classes', () => {
+      expect(getStartingHandClass([createCard('hearts', 'K'), createCard('hearts', 'A')])).toBe('AKs')
+      expect(getStartingHandClass([createCard('spades', '10'), createCard('hearts', '9')])).toBe('T9o')
+      expect(getStartingHandClass([createCard('spades', '7'), createCard('clubs', '7')])).toBe('77')
+    })
+
+    test('should cover all 1,326 combos with 169 classes', () => {
+      const classes = getStartingHandClasses()
+      const totalCombos = classes.reduce((sum, handClass) => sum + getStartingHandCombos(handClass).length, 0)
+
+      expect(classes).toHaveLength(169)
+      expect(totalCombos).toBe(1326)
+    })
+  })
+
   describe('parseCard', () => {
     test('should parse standard card notation', () => {
       const card = parseCard('AS')
@@ -1,6 +1,10 @@
-import { describe, test, expect } from 'vitest'
-import { calculateProbabilities, evaluateHand } from '../../src/lib/poker-engine/src/poker-engine'
-import { createCard } from '../../src/lib/card-utils/src/card-utils'
+import { describe, test, expect, vi } from 'vitest'
+import { calculateProbabilities, evaluateHand, getHandRank, compareHands, rankHands, showdown, analyzeOuts, analyzeDraws, analyzeBoard, rankHoldings, getRelativeStrength, getHandPotential, analyzeBet, evaluateVariantHand, evaluateVariantLowHand, evaluateLowballHand, checkHealth } from '../../src/lib/poker-engine/src/poker-engine'
+import { calculateOuts } from '../../src/lib/poker-engine/src/probability'
+import { getDeuceToSevenRank, getAceToFiveRank } from '../../src/lib/poker-engine/src/lowball'
+import { createCard, createDeck, parseCard } from '../../src/lib/card-utils/src/card-utils'
+import { HandStrength } from '../../src/types/poker'
+import { calculationCache } from '../../src/utils/performance'
 
 describe('Poker Engine Library Contract Tests', () => {
   describe('calculateProbabilities', () => {
@@ -36,7 +40,12 @@ describe('Poker Engine Library Contract Tests', () => {
         expect(prob.percentage).toBe(prob.probability * 100)
         expect(prob.occurrences).toBeGreaterThanOrEqual(0)
         expect(prob.totalOutcomes).toBeGreaterThan(0)
-        expect(prob.odds).toMatch(/^\d+(\.\d+)?:\d+$/)
+        if (prob.probability === 0) {
+          // The generated table marks some hand types impossible pre-flop
+          expect(prob.odds).toBe('∞:1')
+        } else {
+          expect(prob.odds).toMatch(/^\d+(\.\d+)?:\d+$/)
+        }
       })
     })
     
@@ -75,6 +84,352 @@ describe('Poker Engine Library Contract Tests', () => {
         stage: 'pre-flop'
       })).rejects.toThrow('DUPLICATE_CARD')
     })
+
+    test('should report equity against a known opponent hand', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'A')],
+        opponentHands: [[createCard('spades', 'K'), createCard('hearts', 'K')]],
+        communityCards: [
+          createCard('clubs', '2'),
+          createCard('diamonds', '7'),
+          createCard('hearts', '9'),
+          createCard('spades', 'J'),
+          createCard('clubs', '3')
+        ],
+        stage: 'river'
+      })
+
+      expect(results.equity).toHaveLength(2)
+      expect(results.equity![0].winPercentage).toBe(100)
+      expect(results.equity![1].losePercentage).toBe(100)
+      expect(results.equity![0].totalOutcomes).toBe(1)
+    })
+
+    test('should keep known opponent cards out of the player\'s run-outs', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'A')],
+        opponentHands: [[createCard('clubs', 'A'), createCard('diamonds', 'K')]],
+        communityCards: [createCard('diamonds', 'A'), createCard('clubs', '2'), createCard('hearts', '7'), createCard('spades', '9')],
+        stage: 'turn',
+        preferredMethod: 'exact'
+      })
+
+      // The opponent holds the last ace, so quads cannot come
+      expect(results.probabilities[0].totalOutcomes).toBe(44)
+      expect(results.probabilities.find(p => p.handType === HandStrength.FOUR_OF_A_KIND)!.probability).toBe(0)
+      expect(results.equity![0].totalOutcomes).toBe(44)
+    })
+
+    test('should split the pot when the board plays', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('spades', '2'), createCard('hearts', '3')],
+        opponentHands: [[createCard('diamonds', '2'), createCard('clubs', '3')]],
+        communityCards: [
+          createCard('spades', '10'),
+          createCard('hearts', 'J'),
+          createCard('clubs', 'Q'),
+          createCard('diamonds', 'K'),
+          createCard('spades', 'A')
+        ],
+        stage: 'river'
+      })
+
+      results.equity!.forEach(player => {
+        expect(player.tiePercentage).toBe(100)
+        expect(player.equity).toBe(50)
+      })
+    })
+
+    test('should throw error when opponent cards collide with known cards', async () => {
+      await expect(calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'A')],
+        opponentHands: [[createCard('spades', 'A'), createCard('hearts', 'K')]],
+        communityCards: [],
+        stage: 'pre-flop'
+      })).rejects.toThrow('DUPLICATE_CARD')
+    })
+
+    test('should read exact pre-flop counts from the lookup table', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('diamonds', 'A'), createCard('clubs', 'A')],
+        communityCards: [],
+        stage: 'pre-flop',
+        preferredMethod: 'lookup'
+      })
+
+      expect(checkHealth().lookupTablesLoaded).toBe(true)
+      expect(results.probabilities[0].totalOutcomes).toBe(2118760) // C(50,5)
+      expect(results.probabilities[0].occurrences).toBe(0) // High card is impossible with a pair
+      expect(results.probabilities.reduce((sum, p) => sum + p.occurrences, 0)).toBe(2118760)
+    })
+
+    test('should enumerate every river card exactly on the turn', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'A')],
+        communityCards: [
+          createCard('clubs', '2'),
+          createCard('diamonds', '7'),
+          createCard('hearts', '9'),
+          createCard('spades', 'J')
+        ],
+        stage: 'turn',
+        preferredMethod: 'exact'
+      })
+
+      const occurrences = results.probabilities.map(p => p.occurrences)
+      expect(results.method).toBe('exact')
+      expect(results.probabilities[0].totalOutcomes).toBe(46)
+      expect(occurrences).toEqual([0, 32, 12, 2, 0, 0, 0, 0, 0, 0])
+    })
+
+    test('should count exact equity outcomes against a known opponent', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'A')],
+        opponentHands: [[createCard('spades', 'K'), createCard('hearts', 'K')]],
+        communityCards: [
+          createCard('clubs', '2'),
+          createCard('diamonds', '7'),
+          createCard('hearts', '9'),
+          createCard('spades', 'J')
+        ],
+        stage: 'turn',
+        preferredMethod: 'exact'
+      })
+
+      expect(results.equity![0].wins).toBe(42)
+      expect(results.equity![1].wins).toBe(2)
+      expect(results.equity![0].totalOutcomes).toBe(44)
+    })
+
+    test('should calculate exact equity of a hand against a range', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('spades', 'K')],
+        opponentRanges: ['QQ, AA'],
+        communityCards: [
+          createCard('hearts', 'K'),
+          createCard('diamonds', '7'),
+          createCard('clubs', '2'),
+          createCard('hearts', '9'),
+          createCard('spades', '4')
+        ],
+        stage: 'river'
+      })
+
+      // Top pair beats all 6 queen combos and loses to the 3 unblocked ace combos
+      const villain = results.equity![1]
+      expect(results.equity![0].equity).toBeCloseTo(200 / 3)
+      expect(villain.range).toBe('QQ, AhAd, AhAc, AdAc')
+      expect(villain.combos).toHaveLength(9)
+      expect(villain.combos!.filter(combo => combo.playerEquity === 100)).toHaveLength(6)
+    })
+
+    test('should weight range combos and accept a range for the player', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [],
+        playerRange: 'AKs',
+        opponentRanges: ['QQ:0.5, 22'],
+        communityCards: [],
+        stage: 'pre-flop',
+        preferredMethod: 'simulation'
+      })
+
+      expect(results.probabilities).toHaveLength(0)
+      expect(results.equity![0].combos).toHaveLength(4)
+      expect(results.equity![1].combos!.every(combo => combo.totalOutcomes > 0)).toBe(true)
+      expect(results.equity![0].equity + results.equity![1].equity).toBeCloseTo(100)
+    })
+
+    test('should throw error when a range is fully blocked', async () => {
+      await expect(calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'A')],
+        opponentRanges: ['AA'],
+        communityCards: [createCard('diamonds', 'A'), createCard('clubs', '7'), createCard('hearts', '2')],
+        stage: 'flop'
+      })).rejects.toThrow('EMPTY_RANGE')
+    })
+
+    test('should throw error when the ranges can only be dealt sharing a card', async () => {
+      const request = {
+        playerHand: [],
+        playerRange: 'KsKh',
+        opponentRanges: ['KhKs'],
+        communityCards: [],
+        stage: 'pre-flop'
+      }
+
+      await expect(calculateProbabilities({ ...request, preferredMethod: 'simulation' })).rejects.toThrow('RANGE_CONFLICT')
+      await expect(calculateProbabilities({
+        ...request,
+        communityCards: [
+          createCard('clubs', '2'), createCard('diamonds', '3'), createCard('hearts', '4'),
+          createCard('spades', '5'), createCard('clubs', '9')
+        ],
+        stage: 'river',
+        preferredMethod: 'exact'
+      })).rejects.toThrow('RANGE_CONFLICT')
+    })
+
+    test('should reproduce a simulation exactly from its seed', async () => {
+      const request = {
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'A')],
+        randomOpponents: 2,
+        communityCards: [],
+        stage: 'pre-flop',
+        preferredMethod: 'simulation' as const,
+        seed: 42
+      }
+
+      const first = await calculateProbabilities(request)
+      const second = await calculateProbabilities(request)
+      const replay = await calculateProbabilities({ ...request, seed: undefined })
+
+      expect(first.seed).toBe(42)
+      expect(second.probabilities).toEqual(first.probabilities)
+      expect(second.equity).toEqual(first.equity)
+      expect(Number.isInteger(replay.seed)).toBe(true)
+
+      const replayAgain = await calculateProbabilities({ ...request, seed: replay.seed })
+      expect(replayAgain.equity).toEqual(replay.equity)
+    })
+
+    test('should throw error for a seed that is not an unsigned 32-bit integer', async () => {
+      const request = {
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'A')],
+        communityCards: [],
+        stage: 'pre-flop'
+      }
+
+      // -1 and 2^32 would otherwise wrap onto the same sequence as 4294967295 and 0
+      for (const seed of [0.5, -1, 2 ** 32]) {
+        await expect(calculateProbabilities({ ...request, seed })).rejects.toThrow('INVALID_SEED')
+      }
+    })
+
+    test('should report 95% confidence intervals for simulated probabilities', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'K')],
+        communityCards: [createCard('diamonds', 'Q'), createCard('clubs', '7'), createCard('hearts', '2')],
+        stage: 'flop',
+        preferredMethod: 'simulation',
+        seed: 7
+      })
+
+      results.probabilities.forEach(prob => {
+        expect(prob.standardError).toBeCloseTo(Math.sqrt(prob.probability * (1 - prob.probability) / prob.totalOutcomes), 10)
+        expect(prob.confidenceInterval.lower).toBeLessThanOrEqual(prob.probability)
+        expect(prob.confidenceInterval.upper).toBeGreaterThanOrEqual(prob.probability)
+      })
+
+      // A hand type never seen still gets an upper bound above zero
+      const royalFlush = results.probabilities[9]
+      expect(royalFlush.occurrences).toBe(0)
+      expect(royalFlush.confidenceInterval.upper).toBeGreaterThan(0)
+      expect(results.converged).toBeUndefined()
+    })
+
+    test('should report exact probabilities without error bars', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'K')],
+        communityCards: [createCard('diamonds', 'Q'), createCard('clubs', '7'), createCard('hearts', '2')],
+        stage: 'flop',
+        preferredMethod: 'exact'
+      })
+
+      results.probabilities.forEach(prob => {
+        expect(prob.standardError).toBe(0)
+        expect(prob.confidenceInterval).toEqual({ lower: prob.probability, upper: prob.probability })
+      })
+    })
+
+    test('should keep simulating until the target precision is reached', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'K')],
+        communityCards: [createCard('diamonds', 'Q'), createCard('clubs', '7'), createCard('hearts', '2')],
+        stage: 'flop',
+        preferredMethod: 'simulation',
+        targetPrecision: 0.02,
+        timeBudget: 10000,
+        seed: 7
+      })
+
+      expect(results.converged).toBe(true)
+      results.probabilities.forEach(prob => {
+        expect((prob.confidenceInterval.upper - prob.confidenceInterval.lower) / 2).toBeLessThanOrEqual(0.02)
+      })
+      expect(results.probabilities[0].totalOutcomes % 1000).toBe(0)
+    })
+
+    test('should stop at the time budget when the target precision is out of reach', async () => {
+      // Every clock reading is 100ms after the last, so the 50ms budget runs out after the first batch
+      let now = 0
+      const clock = vi.spyOn(performance, 'now').mockImplementation(() => (now += 100))
+
+      try {
+        const results = await calculateProbabilities({
+          playerHand: [createCard('spades', 'A'), createCard('hearts', 'K')],
+          communityCards: [],
+          stage: 'pre-flop',
+          preferredMethod: 'simulation',
+          targetPrecision: 0.00001,
+          timeBudget: 50,
+          seed: 7
+        })
+
+        expect(results.converged).toBe(false)
+        expect(results.probabilities[0].totalOutcomes).toBe(1000)
+      } finally {
+        clock.mockRestore()
+      }
+    })
+
+    test('should report a 95% interval for sampled equity and simulate it to the target precision', async () => {
+      const request = {
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'K')],
+        opponentHands: [[createCard('clubs', '9'), createCard('diamonds', '9')]],
+        communityCards: [createCard('diamonds', 'Q'), createCard('clubs', '7'), createCard('hearts', '2')],
+        stage: 'flop' as const,
+        seed: 7
+      }
+
+      const sampled = await calculateProbabilities({ ...request, preferredMethod: 'simulation' })
+      const player = sampled.equity![0]
+      expect(player.standardError).toBeGreaterThan(0)
+      expect(player.confidenceInterval.lower).toBeLessThan(player.equity / 100)
+      expect(player.confidenceInterval.upper).toBeGreaterThan(player.equity / 100)
+
+      const precise = await calculateProbabilities({ ...request, preferredMethod: 'simulation', targetPrecision: 0.005, timeBudget: 10000 })
+      expect(precise.converged).toBe(true)
+      precise.equity!.forEach(seat => {
+        expect((seat.confidenceInterval.upper - seat.confidenceInterval.lower) / 2).toBeLessThanOrEqual(0.005)
+      })
+      expect(precise.equity![0].totalOutcomes).toBeGreaterThan(player.totalOutcomes)
+
+      const exact = await calculateProbabilities({ ...request, preferredMethod: 'exact' })
+      expect(exact.equity![0].standardError).toBe(0)
+      expect(exact.equity![0].confidenceInterval.lower).toBe(exact.equity![0].confidenceInterval.upper)
+      expect(exact.equity![0].confidenceInterval.lower).toBeCloseTo(exact.equity![0].equity / 100, 10)
+    })
+
+    test('should throw error for an invalid target precision', async () => {
+      const request = {
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'A')],
+        communityCards: [],
+        stage: 'pre-flop' as const
+      }
+
+      await expect(calculateProbabilities({ ...request, targetPrecision: 0 })).rejects.toThrow('INVALID_PRECISION')
+      await expect(calculateProbabilities({ ...request, targetPrecision: 0.01, timeBudget: -1 })).rejects.toThrow('INVALID_PRECISION')
+    })
+
+    test('should throw error for more than nine opponents', async () => {
+      await expect(calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'A')],
+        opponentHands: [[createCard('spades', 'K'), createCard('hearts', 'K')]],
+        randomOpponents: 9,
+        communityCards: [],
+        stage: 'pre-flop'
+      })).rejects.toThrow('TOO_MANY_PLAYERS')
+    })
   })
   
   describe('evaluateHand', () => {
@@ -123,5 +478,900 @@ describe('Poker Engine Library Contract Tests', () => {
       
       expect(() => evaluateHand({ cards })).toThrow('INSUFFICIENT_CARDS')
     })
+
+    test('should pick the highest two pair from three pairs', () => {
+      const cards = [
+        createCard('spades', 'A'),
+        createCard('hearts', 'A'),
+        createCard('clubs', 'K'),
+        createCard('diamonds', 'K'),
+        createCard('spades', 'Q'),
+        createCard('hearts', 'Q'),
+        createCard('clubs', '2')
+      ]
+
+      const result = evaluateHand({ cards })
+
+      expect(result.handStrength).toBe(2) // TWO_PAIR
+      expect(result.bestHand.map(c => c.rank)).toEqual(['A', 'A', 'K', 'K', 'Q'])
+    })
+  })
+
+  describe('getHandRank', () => {
+    test('should rank hands consistently with their hand type and kickers', () => {
+      const board = [
+        createCard('hearts', 'K'),
+        createCard('diamonds', '9'),
+        createCard('clubs', '5'),
+        createCard('spades', '2'),
+        createCard('hearts', '3')
+      ]
+      const aceKicker = getHandRank({ cards: [createCard('spades', 'K'), createCard('clubs', 'A'), ...board] })
+      const queenKicker = getHandRank({ cards: [createCard('clubs', 'K'), createCard('diamonds', 'Q'), ...board] })
+      const sameQueenKicker = getHandRank({ cards: [createCard('diamonds', 'K'), createCard('hearts', 'Q'), ...board] })
+      const wheel = getHandRank({ cards: [createCard('spades', 'A'), createCard('clubs', '4'), ...board] })
+
+      expect(aceKicker).toBeGreaterThan(queenKicker)
+      expect(queenKicker).toBe(sameQueenKicker)
+      expect(wheel).toBeGreaterThan(aceKicker)
+    })
+
+    test('should rank a steel wheel below a six-high straight flush', () => {
+      const steelWheel = getHandRank({ cards: [
+        createCard('spades', 'A'),
+        createCard('spades', '2'),
+        createCard('spades', '3'),
+        createCard('spades', '4'),
+        createCard('spades', '5')
+      ] })
+      const sixHigh = getHandRank({ cards: [
+        createCard('hearts', '2'),
+        createCard('hearts', '3'),
+        createCard('hearts', '4'),
+        createCard('hearts', '5'),
+        createCard('hearts', '6')
+      ] })
+
+      expect(sixHigh).toBeGreaterThan(steelWheel)
+    })
+
+    test('should throw error for insufficient cards', () => {
+      expect(() => getHandRank({ cards: [createCard('spades', 'A')] })).toThrow('INSUFFICIENT_CARDS')
+    })
+  })
+
+  describe('compareHands', () => {
+    const board = [
+      createCard('hearts', 'A'),
+      createCard('diamonds', '9'),
+      createCard('clubs', '7'),
+      createCard('spades', '4'),
+      createCard('hearts', '2')
+    ]
+
+    test('should resolve equal hand types on kickers', () => {
+      const result = compareHands(
+        [createCard('spades', 'A'), createCard('diamonds', 'Q'), ...board],
+        [createCard('clubs', 'A'), createCard('spades', 'K'), ...board]
+      )
+
+      expect(result.result).toBe(-1)
+      expect(result.hand1.handStrength).toBe(result.hand2.handStrength)
+      expect(result.reasoning).toContain('on kickers')
+    })
+
+    test('should detect a split pot between equal hands', () => {
+      const result = compareHands(
+        [createCard('spades', '3'), createCard('diamonds', '5'), ...board],
+        [createCard('clubs', '3'), createCard('hearts', '5'), ...board]
+      )
+
+      expect(result.result).toBe(0)
+      expect(result.reasoning).toContain('split pot')
+    })
+  })
+
+  describe('rankHands', () => {
+    test('should order hands best first with tied hands sharing a rank', () => {
+      const rankings = rankHands([
+        [createCard('spades', '2'), createCard('hearts', '2'), createCard('clubs', '9'), createCard('diamonds', 'J'), createCard('spades', 'K')],
+        [createCard('spades', 'A'), createCard('spades', 'K'), createCard('spades', 'Q'), createCard('spades', 'J'), createCard('spades', '10')],
+        [createCard('clubs', '2'), createCard('diamonds', '2'), createCard('hearts', '9'), createCard('clubs', 'J'), createCard('hearts', 'K')]
+      ])
+
+      expect(rankings.map(ranked => ranked.index)).toEqual([1, 0, 2])
+      expect(rankings.map(ranked => ranked.rank)).toEqual([1, 2, 2])
+    })
+  })
+
+  describe('showdown', () => {
+    const board = [
+      createCard('spades', 'Q'),
+      createCard('hearts', 'J'),
+      createCard('clubs', '10'),
+      createCard('diamonds', '3'),
+      createCard('spades', '2')
+    ]
+
+    test('should split the pot between equal best hands', () => {
+      const result = showdown([
+        [createCard('spades', 'A'), createCard('diamonds', 'K')],
+        [createCard('clubs', '7'), createCard('diamonds', '7')],
+        [createCard('clubs', 'A'), createCard('hearts', 'K')]
+      ], board)
+
+      expect(result.winners).toEqual([0, 2])
+      expect(result.isSplitPot).toBe(true)
+      expect(result.rankings[2].index).toBe(1)
+    })
+
+    test('should reject an incomplete board or a shared card', () => {
+      const players = [
+        [createCard('spades', 'A'), createCard('diamonds', 'K')],
+        [createCard('clubs', '7'), createCard('diamonds', '7')]
+      ]
+
+      expect(() => showdown(players, board.slice(0, 4))).toThrow('INVALID_COMMUNITY_CARDS')
+      expect(() => showdown([...players, [createCard('spades', 'Q'), createCard('hearts', '9')]], board)).toThrow('DUPLICATE_CARD')
+    })
+  })
+
+  describe('analyzeOuts', () => {
+    const playerHand = [createCard('spades', 'A'), createCard('spades', 'K')]
+    const flop = [createCard('spades', 'Q'), createCard('spades', '7'), createCard('hearts', '2')]
+
+    test('should group outs by the hand they make, best first', () => {
+      const analysis = analyzeOuts(playerHand, flop)
+
+      expect(analysis.currentHand).toBe(HandStrength.HIGH_CARD)
+      expect(analysis.groups.map(group => group.handType)).toEqual([HandStrength.FLUSH, HandStrength.PAIR])
+      expect(analysis.groups[0].outs).toHaveLength(9)
+      expect(analysis.groups[1].outs).toHaveLength(14)
+      expect(analysis.totalOuts).toBe(23)
+      expect(analysis.blanks).toBe(47 - 23)
+    })
+
+    test('should flag outs that pair the board or only improve the board', () => {
+      const analysis = analyzeOuts(playerHand, flop)
+      const find = (id: string) => analysis.groups.flatMap(group => group.outs).find(out => out.card.id === id)
+
+      expect(find('10S')?.isDirty).toBe(false)
+      expect(find('2S')?.dirtyReasons).toEqual(['pairs-board'])
+      expect(find('7H')?.dirtyReasons).toContain('counterfeit')
+      expect(find('AH')?.dirtyReasons).toEqual([])
+      expect(analysis.cleanOuts).toBe(8 + 6)
+      expect(analysis.dirtyOuts).toBe(1 + 8)
+    })
+
+    test('should flag outs that leave a known opponent ahead and remove their cards from the deck', () => {
+      const analysis = analyzeOuts(playerHand, flop, [[createCard('diamonds', '7'), createCard('clubs', '7')]])
+      const pairOuts = analysis.groups.find(group => group.handType === HandStrength.PAIR)?.outs ?? []
+
+      expect(pairOuts.every(out => out.dirtyReasons.includes('opponent-improves'))).toBe(true)
+      expect(analysis.totalOuts + analysis.blanks).toBe(45)
+    })
+
+    test('should compare the rule of 4 and 2 with exact odds', () => {
+      const flopAnalysis = analyzeOuts(playerHand, flop)
+      expect(flopAnalysis.cardsToCome).toBe(2)
+      expect(flopAnalysis.ruleOfThumb).toBe(92)
+      expect(flopAnalysis.exactPercentage).toBeCloseTo((1 - (24 * 23) / (47 * 46)) * 100, 10)
+
+      const turnAnalysis = analyzeOuts(playerHand, [...flop, createCard('diamonds', '3')])
+      expect(turnAnalysis.cardsToCome).toBe(1)
+      expect(turnAnalysis.ruleOfThumb).toBe(turnAnalysis.totalOuts * 2)
+      expect(turnAnalysis.exactPercentage).toBeCloseTo((turnAnalysis.totalOuts / 46) * 100, 10)
+    })
+
+    test('should reject boards without cards to come', () => {
+      expect(() => analyzeOuts(playerHand, [])).toThrow('INVALID_COMMUNITY_CARDS')
+      expect(() => analyzeOuts(playerHand, [...flop, createCard('diamonds', '3'), createCard('clubs', '4')])).toThrow('INVALID_COMMUNITY_CARDS')
+      expect(() => analyzeOuts(playerHand, [createCard('spades', 'A'), ...flop.slice(1)])).toThrow('DUPLICATE_CARD')
+    })
+
+    test('should not count outs to a hand already made', () => {
+      expect(calculateOuts(playerHand, flop, HandStrength.FLUSH)).toBe(9)
+      expect(calculateOuts(playerHand, [createCard('spades', '2'), ...flop.slice(0, 2)], HandStrength.FLUSH)).toBe(0)
+    })
+
+    test('should include outs in flop results', async () => {
+      const results = await calculateProbabilities({ playerHand, communityCards: flop, stage: 'flop', preferredMethod: 'exact' })
+      expect(results.outs?.totalOuts).toBe(23)
+    })
+  })
+
+  describe('analyzeDraws', () => {
+    const cards = (...ids: [Parameters<typeof createCard>[0], Parameters<typeof createCard>[1]][]) =>
+      ids.map(([suit, rank]) => createCard(suit, rank))
+
+    test('should detect a combo draw with overcards', () => {
+      const draws = analyzeDraws(
+        cards(['spades', 'J'], ['spades', '10']),
+        cards(['spades', '9'], ['hearts', '8'], ['spades', '2'])
+      )
+
+      expect(draws.map(draw => [draw.type, draw.outCount])).toEqual([
+        ['flush-draw', 9],
+        ['open-ended-straight-draw', 8],
+        ['overcards', 6],
+        ['combo-draw', 15]
+      ])
+    })
+
+    test('should tell gutshots, double gutshots and wheel draws apart', () => {
+      const gutshot = analyzeDraws(cards(['hearts', 'A'], ['clubs', 'K']), cards(['diamonds', 'Q'], ['spades', 'J'], ['hearts', '4']))
+      expect(gutshot.find(draw => draw.type === 'gutshot')?.outCount).toBe(4)
+
+      const doubleGutshot = analyzeDraws(cards(['hearts', '9'], ['clubs', '3']), cards(['clubs', '7'], ['diamonds', '6'], ['spades', '5']))
+      expect(doubleGutshot.map(draw => draw.type)).toEqual(['double-gutshot', 'overcards'])
+      expect(doubleGutshot[0].outCount).toBe(8)
+
+      const wheelDraw = analyzeDraws(cards(['clubs', '2'], ['diamonds', '3']), cards(['hearts', '4'], ['spades', '5'], ['clubs', 'K']))
+      expect(wheelDraw.map(draw => draw.type)).toEqual(['open-ended-straight-draw'])
+    })
+
+    test('should report backdoor flush draws only on the flop', () => {
+      const flop = cards(['hearts', 'Q'], ['clubs', '7'], ['diamonds', '2'])
+      const flopDraws = analyzeDraws(cards(['hearts', 'A'], ['hearts', 'K']), flop)
+      expect(flopDraws.find(draw => draw.type === 'backdoor-flush-draw')?.outCount).toBe(0)
+
+      const turnDraws = analyzeDraws(cards(['hearts', 'A'], ['hearts', 'K']), [...flop, createCard('spades', '3')])
+      expect(turnDraws.some(draw => draw.type === 'backdoor-flush-draw')).toBe(false)
+    })
+
+    test('should ignore draws the board makes on its own and made straights', () => {
+      const boardDraw = analyzeDraws(
+        cards(['diamonds', 'A'], ['clubs', 'A']),
+        cards(['clubs', 'J'], ['diamonds', '10'], ['spades', '9'], ['hearts', '8'])
+      )
+      expect(boardDraw).toEqual([])
+
+      const madeStraight = analyzeDraws(cards(['hearts', '7'], ['clubs', '6']), cards(['clubs', '5'], ['diamonds', '4'], ['spades', '3']))
+      expect(madeStraight.some(draw => draw.type.includes('straight') || draw.type === 'gutshot')).toBe(false)
+    })
+
+    test('should reject boards without cards to come', () => {
+      expect(() => analyzeDraws(cards(['hearts', 'A'], ['hearts', 'K']), [])).toThrow('INVALID_COMMUNITY_CARDS')
+    })
+  })
+
+  describe('analyzeBoard', () => {
+    test('should classify a dry high flop', () => {
+      const texture = analyzeBoard([createCard('hearts', 'K'), createCard('clubs', '8'), createCard('diamonds', '3')])
+
+      expect(texture).toMatchObject({
+        pairing: 'unpaired',
+        suitedness: 'rainbow',
+        connectedness: 'disconnected',
+        height: 'high',
+        isFlushPossible: false,
+        isFlushDrawPossible: false,
+        possibleStraights: []
+      })
+      expect(texture.nuts.handStrength).toBe(HandStrength.THREE_OF_A_KIND)
+      expect(texture.nuts.combos).toHaveLength(3)
+    })
+
+    test('should report possible straights with the hole ranks they need', () => {
+      const texture = analyzeBoard([createCard('hearts', '9'), createCard('clubs', '8'), createCard('diamonds', '5')])
+
+      expect(texture.connectedness).toBe('connected')
+      expect(texture.height).toBe('middle')
+      expect(texture.possibleStraights).toEqual([{ highCard: '9', holeRanks: ['6', '7'] }])
+      expect(texture.nuts.description).toBe('Straight, 9♥ high')
+    })
+
+    test('should classify paired, monotone and low boards', () => {
+      const texture = analyzeBoard([
+        createCard('spades', '7'),
+        createCard('spades', '4'),
+        createCard('spades', '2'),
+        createCard('hearts', '4')
+      ])
+
+      expect(texture.pairing).toBe('paired')
+      expect(texture.suitedness).toBe('three-flush')
+      expect(texture.height).toBe('low')
+      expect(texture.isFlushPossible).toBe(true)
+      expect(texture.flushSuit).toBe('spades')
+      expect(texture.nuts.handStrength).toBe(HandStrength.FOUR_OF_A_KIND)
+
+      expect(analyzeBoard([createCard('hearts', 'A'), createCard('hearts', '9'), createCard('hearts', '4')]).suitedness).toBe('monotone')
+      expect(analyzeBoard([
+        createCard('hearts', 'A'), createCard('hearts', '9'), createCard('hearts', '4'),
+        createCard('hearts', '2'), createCard('clubs', 'K')
+      ]).suitedness).toBe('four-flush')
+    })
+
+    test('should treat the board as the straight when it already is one', () => {
+      const texture = analyzeBoard([
+        createCard('hearts', '9'),
+        createCard('clubs', '8'),
+        createCard('diamonds', '7'),
+        createCard('spades', '6'),
+        createCard('hearts', '5')
+      ])
+
+      expect(texture.possibleStraights.find(straight => straight.highCard === '9')?.holeRanks).toEqual([])
+      expect(texture.possibleStraights[0]).toEqual({ highCard: 'J', holeRanks: ['10', 'J'] })
+    })
+
+    test('should reject boards before the flop', () => {
+      expect(() => analyzeBoard([createCard('hearts', 'A')])).toThrow('INVALID_COMMUNITY_CARDS')
+      expect(() => analyzeBoard([createCard('hearts', 'A'), createCard('hearts', 'A'), createCard('clubs', '2')])).toThrow('DUPLICATE_CARD')
+    })
+  })
+
+  describe('rankHoldings', () => {
+    const flop = [createCard('hearts', 'K'), createCard('clubs', '9'), createCard('diamonds', '5')]
+
+    test('should order holdings from the nuts down with tied holdings sharing a rank', () => {
+      const holdings = rankHoldings(flop)
+
+      expect(holdings[0]).toMatchObject({ rank: 1, handStrength: HandStrength.THREE_OF_A_KIND, description: 'Three of a Kind, Ks' })
+      expect(holdings[0].combos).toHaveLength(3)
+      expect(holdings[3].description).toBe('Two Pair, Ks and 9s')
+      expect(holdings[3].combos).toHaveLength(9)
+      expect(holdings.reduce((sum, holding) => sum + holding.combos.length, 0)).toBe(1176)
+    })
+
+    test('should reject boards before the flop', () => {
+      expect(() => rankHoldings(flop.slice(0, 2))).toThrow('INVALID_COMMUNITY_CARDS')
+    })
+  })
+
+  describe('getRelativeStrength', () => {
+    const flop = [createCard('hearts', 'K'), createCard('clubs', '9'), createCard('diamonds', '5')]
+
+    test('should place a hand among every possible opponent holding', () => {
+      const strength = getRelativeStrength([createCard('spades', 'K'), createCard('spades', 'Q')], flop)
+
+      expect(strength.totalCombos).toBe(1081)
+      expect(strength.beats + strength.ties + strength.losesTo).toBe(1081)
+      expect(strength.position).toBe(9) // Behind three sets, three two pairs, aces and ace-king
+      expect(strength.percentile).toBeCloseTo(((strength.beats + strength.ties / 2) / 1081) * 100, 10)
+    })
+
+    test('should report the nuts as beating or tying every hand', () => {
+      const strength = getRelativeStrength([createCard('spades', 'K'), createCard('diamonds', 'K')], flop)
+
+      expect(strength.position).toBe(1)
+      expect(strength.losesTo).toBe(0)
+    })
+
+    test('should be included in results from the flop on', async () => {
+      const playerHand = [createCard('spades', 'K'), createCard('spades', 'Q')]
+      const flopResults = await calculateProbabilities({ playerHand, communityCards: flop, stage: 'flop', preferredMethod: 'exact' })
+      const preflopResults = await calculateProbabilities({ playerHand, communityCards: [], stage: 'pre-flop' })
+
+      expect(flopResults.relativeStrength?.position).toBe(9)
+      expect(preflopResults.relativeStrength).toBeUndefined()
+    })
+
+    test('should reject a board sharing a card with the hand', () => {
+      expect(() => getRelativeStrength([createCard('hearts', 'K'), createCard('spades', 'Q')], flop)).toThrow('DUPLICATE_CARD')
+    })
+  })
+
+  describe('getHandPotential', () => {
+    const flop = [createCard('hearts', 'K'), createCard('clubs', '9'), createCard('diamonds', '5')]
+    const turn = [...flop, createCard('spades', '2')]
+    const river = [...turn, createCard('hearts', '3')]
+    const kingQueen = [createCard('spades', 'K'), createCard('spades', 'Q')]
+
+    test('should measure hand strength against every opponent hand', () => {
+      const potential = getHandPotential(kingQueen, turn)
+      const strength = getRelativeStrength(kingQueen, turn)
+
+      expect(potential.handStrength).toBeCloseTo(strength.percentile / 100, 10)
+      for (const value of Object.values(potential)) {
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThanOrEqual(1)
+      }
+    })
+
+    test('should have no potential on the river', () => {
+      const potential = getHandPotential(kingQueen, river)
+
+      expect(potential.positivePotential).toBe(0)
+      expect(potential.negativePotential).toBe(0)
+      expect(potential.effectiveHandStrength).toBeCloseTo(potential.handStrength, 10)
+    })
+
+    test('should credit a flush draw with positive potential', () => {
+      const board = [createCard('hearts', 'K'), createCard('hearts', '9'), createCard('clubs', '5'), createCard('spades', '2')]
+      const potential = getHandPotential([createCard('hearts', '7'), createCard('hearts', '6')], board)
+
+      expect(potential.positivePotential).toBeGreaterThan(0.15) // 9 flush outs of 44 river cards
+      expect(potential.effectiveHandStrength).toBeGreaterThan(potential.handStrength)
+    })
+
+    test('should sample flop run-outs reproducibly with a seed', () => {
+      const first = getHandPotential(kingQueen, flop, 42)
+      const second = getHandPotential(kingQueen, flop, 42)
+
+      expect(second).toEqual(first)
+      expect(first.negativePotential).toBeGreaterThan(0)
+    })
+
+    test('should be included in results only when requested', async () => {
+      const request = { playerHand: kingQueen, communityCards: turn, stage: 'turn' as const, preferredMethod: 'exact' as const }
+      const withPotential = await calculateProbabilities({ ...request, includeHandPotential: true })
+      const withoutPotential = await calculateProbabilities(request)
+
+      expect(withPotential.handPotential).toEqual(getHandPotential(kingQueen, turn))
+      expect(withoutPotential.handPotential).toBeUndefined()
+    })
+
+    test('should reject boards before the flop', () => {
+      expect(() => getHandPotential(kingQueen, flop.slice(0, 2))).toThrow('INVALID_COMMUNITY_CARDS')
+    })
+  })
+
+  describe('analyzeBet', () => {
+    const betting = { potSize: 150, betToCall: 50, effectiveStack: 1000 }
+
+    test('should compare equity with pot odds', () => {
+      const analysis = analyzeBet(betting, 20)
+
+      expect(analysis.potOdds).toBe(3)
+      expect(analysis.requiredEquity).toBeCloseTo(25, 10)
+      expect(analysis.callEV).toBeCloseTo(-10, 10) // 0.2 * 150 - 0.8 * 50
+      expect(analysis.foldEV).toBe(0)
+      expect(analysis.isProfitableCall).toBe(false)
+    })
+
+    test('should find the implied odds needed to break even', () => {
+      const analysis = analyzeBet(betting, 20)
+
+      expect(analysis.impliedOddsBreakeven).toBeCloseTo(50, 10) // 0.2 * (150 + 50) = 0.8 * 50
+      expect(analysis.remainingStack).toBe(950)
+      expect(analysis.isImpliedOddsReachable).toBe(true)
+      expect(analyzeBet({ ...betting, effectiveStack: 80 }, 20).isImpliedOddsReachable).toBe(false)
+    })
+
+    test('should need no implied odds for a profitable call', () => {
+      const analysis = analyzeBet(betting, 40)
+
+      expect(analysis.callEV).toBeCloseTo(30, 10)
+      expect(analysis.isProfitableCall).toBe(true)
+      expect(analysis.impliedOddsBreakeven).toBe(0)
+    })
+
+    test('should take equity from a calculation against a villain hand', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('spades', 'K')],
+        communityCards: [createCard('spades', 'Q'), createCard('spades', '7'), createCard('hearts', '2')],
+        stage: 'flop',
+        opponentHands: [[createCard('diamonds', 'Q'), createCard('clubs', 'Q')]],
+        preferredMethod: 'exact'
+      })
+      const analysis = analyzeBet(betting, results.equity![0].equity)
+
+      expect(analysis.equity).toBeCloseTo(results.equity![0].equity, 10)
+      expect(analysis.isProfitableCall).toBe(analysis.equity >= analysis.requiredEquity)
+    })
+
+    test('should reject invalid chip amounts and equity', () => {
+      expect(() => analyzeBet({ ...betting, potSize: 0 }, 20)).toThrow('INVALID_BETTING_STATE')
+      expect(() => analyzeBet({ ...betting, betToCall: -1 }, 20)).toThrow('INVALID_BETTING_STATE')
+      expect(() => analyzeBet({ ...betting, effectiveStack: 40 }, 20)).toThrow('INVALID_BETTING_STATE')
+      expect(() => analyzeBet(betting, 101)).toThrow('INVALID_EQUITY')
+      expect(() => analyzeBet(betting, NaN)).toThrow('INVALID_EQUITY')
+    })
+  })
+
+  describe('dead cards', () => {
+    const playerHand = [createCard('spades', 'A'), createCard('spades', 'K')]
+    const flop = [createCard('spades', 'Q'), createCard('spades', '7'), createCard('hearts', '2')]
+    const deadCards = [createCard('spades', '8'), createCard('spades', '3')]
+
+    test('should leave dead cards out of every run-out', async () => {
+      const results = await calculateProbabilities({ playerHand, communityCards: flop, stage: 'flop', preferredMethod: 'exact', deadCards })
+
+      expect(results.probabilities[0].totalOutcomes).toBe(990) // C(45, 2) run-outs
+    })
+
+    test('should not count dead cards as outs', async () => {
+      const results = await calculateProbabilities({ playerHand, communityCards: flop, stage: 'flop', preferredMethod: 'exact', deadCards })
+      const flushOuts = (outs: typeof results.outs) => outs?.groups.find(group => group.handType === HandStrength.FLUSH)?.outs.length
+
+      expect(flushOuts(analyzeOuts(playerHand, flop))).toBe(9)
+      expect(flushOuts(results.outs)).toBe(7)
+      expect(flushOuts(analyzeOuts(playerHand, flop, [], deadCards))).toBe(7)
+      expect(results.outs?.blanks).toBe(45 - results.outs!.totalOuts)
+    })
+
+    test('should change equity when an opponent\'s outs are dead', async () => {
+      const request = {
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'A')],
+        communityCards: [createCard('clubs', '2'), createCard('diamonds', '7'), createCard('hearts', '9')],
+        stage: 'flop',
+        preferredMethod: 'exact' as const,
+        opponentHands: [[createCard('diamonds', 'K'), createCard('clubs', 'K')]]
+      }
+
+      const live = await calculateProbabilities(request)
+      const dead = await calculateProbabilities({ ...request, deadCards: [createCard('spades', 'K'), createCard('hearts', 'K')] })
+
+      expect(dead.equity![0].equity).toBeGreaterThan(live.equity![0].equity)
+      expect(dead.equity![0].totalOutcomes).toBe(903) // C(43, 2) run-outs
+    })
+
+    test('should sample pre-flop instead of using the full-deck table', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'A')],
+        communityCards: [],
+        stage: 'pre-flop',
+        preferredMethod: 'lookup',
+        deadCards: [createCard('diamonds', 'A'), createCard('clubs', 'A')],
+        seed: 7
+      })
+
+      expect(results.method).toBe('simulation')
+      expect(results.probabilities.find(result => result.handType === HandStrength.FOUR_OF_A_KIND)!.probability).toBeLessThan(0.001)
+      expect(results.probabilities.find(result => result.handType === HandStrength.PAIR)!.standardError).toBeGreaterThan(0)
+    })
+
+    test('should reject dead cards that are in play or leave too few cards to deal', async () => {
+      await expect(calculateProbabilities({
+        playerHand, communityCards: flop, stage: 'flop', deadCards: [createCard('spades', 'Q')]
+      })).rejects.toThrow('DUPLICATE_CARD')
+
+      const inPlay = new Set([...playerHand, ...flop].map(card => card.id))
+      const everyOtherCard = createDeck().availableCards.filter(card => !inPlay.has(card.id))
+      await expect(calculateProbabilities({
+        playerHand, communityCards: flop, stage: 'flop', deadCards: everyOtherCard.slice(1)
+      })).rejects.toThrow('TOO_MANY_DEAD_CARDS')
+    })
+  })
+
+  describe('game variants', () => {
+    const quadAces = [createCard('spades', 'A'), createCard('hearts', 'A'), createCard('diamonds', 'A'), createCard('clubs', 'A')]
+    const board = [createCard('spades', 'K'), createCard('hearts', 'K'), createCard('diamonds', '2'), createCard('clubs', '3'), createCard('spades', '7')]
+
+    test('should play exactly two hole cards and three board cards in Omaha', () => {
+      expect(evaluateVariantHand(quadAces, board, 'plo4').handStrength).toBe(HandStrength.TWO_PAIR)
+
+      // One heart in hand cannot complete a four-heart board
+      const oneHeart = [createCard('hearts', 'A'), createCard('spades', 'Q'), createCard('diamonds', 'J'), createCard('clubs', '9')]
+      const heartBoard = [createCard('hearts', '2'), createCard('hearts', '5'), createCard('hearts', '8'), createCard('hearts', 'K'), createCard('spades', '3')]
+      expect(evaluateVariantHand(oneHeart, heartBoard, 'plo4').handStrength).toBe(HandStrength.HIGH_CARD)
+      expect(evaluateVariantHand(oneHeart.slice(0, 2), heartBoard, 'holdem').handStrength).toBe(HandStrength.FLUSH)
+    })
+
+    test('should evaluate five-card Omaha hands', () => {
+      const hand = [...quadAces, createCard('hearts', '9')]
+      const flushBoard = [createCard('hearts', '2'), createCard('hearts', '5'), createCard('hearts', '8'), createCard('spades', 'K'), createCard('clubs', '3')]
+      const evaluation = evaluateVariantHand(hand, flushBoard, 'plo5')
+
+      expect(evaluation.handStrength).toBe(HandStrength.FLUSH)
+      expect(evaluation.bestHand).toHaveLength(5)
+    })
+
+    test('should calculate Omaha equity on the variant\'s rules', async () => {
+      const results = await calculateProbabilities({
+        playerHand: quadAces,
+        communityCards: board.slice(0, 4),
+        stage: 'turn',
+        preferredMethod: 'exact',
+        variant: 'plo4',
+        opponentHands: [[createCard('clubs', 'K'), createCard('diamonds', 'Q'), createCard('hearts', '5'), createCard('hearts', '4')]]
+      })
+
+      expect(results.variant).toBe('plo4')
+      expect(results.equity![0].totalOutcomes).toBe(40) // 52 - 8 hole cards - 4 board cards
+      expect(results.equity![1].equity).toBeGreaterThan(results.equity![0].equity) // Kings full against two pair
+      expect(results.probabilities[0].totalOutcomes).toBe(40) // Hand types come from the same live cards as equity
+      expect(results.outs).toBeUndefined()
+    })
+
+    test('should play A-6-7-8-9 as the lowest short-deck straight', () => {
+      const holeCards = [createCard('spades', 'A'), createCard('diamonds', '6')]
+      const board = [createCard('hearts', '7'), createCard('clubs', '8'), createCard('spades', '9'), createCard('diamonds', 'K'), createCard('hearts', 'J')]
+
+      const evaluation = evaluateVariantHand(holeCards, board, 'shortdeck')
+      expect(evaluation.handStrength).toBe(HandStrength.STRAIGHT)
+      expect(evaluation.bestHand.map(card => card.rank)).toEqual(['9', '8', '7', '6', 'A'])
+      expect(evaluateVariantHand(holeCards, board, 'holdem').handStrength).toBe(HandStrength.HIGH_CARD)
+    })
+
+    test('should rank a short-deck flush above a full house', async () => {
+      const request = {
+        playerHand: [createCard('hearts', 'A'), createCard('hearts', '6')],
+        communityCards: [createCard('hearts', '7'), createCard('hearts', 'J'), createCard('hearts', 'K'), createCard('diamonds', 'K'), createCard('clubs', '7')],
+        stage: 'river',
+        opponentHands: [[createCard('spades', 'K'), createCard('clubs', 'Q')]]
+      }
+
+      const holdem = await calculateProbabilities(request)
+      const shortDeck = await calculateProbabilities({ ...request, variant: 'shortdeck' })
+
+      expect(holdem.equity![0].equity).toBe(0)
+      expect(shortDeck.equity![0].equity).toBe(100)
+    })
+
+    test('should deal short-deck run-outs from 36 cards', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [createCard('hearts', 'A'), createCard('hearts', 'K')],
+        communityCards: [createCard('hearts', '7'), createCard('spades', '8'), createCard('clubs', '9')],
+        stage: 'flop',
+        preferredMethod: 'exact',
+        variant: 'shortdeck'
+      })
+
+      expect(results.probabilities[0].totalOutcomes).toBe(465) // C(31, 2)
+      await expect(calculateProbabilities({
+        playerHand: [createCard('hearts', 'A'), createCard('hearts', '2')], communityCards: [], stage: 'pre-flop', variant: 'shortdeck'
+      })).rejects.toThrow('CARD_NOT_IN_DECK')
+    })
+
+    test('should reject hands that do not match the variant', async () => {
+      const holdemHand = quadAces.slice(0, 2)
+
+      await expect(calculateProbabilities({
+        playerHand: holdemHand, communityCards: board.slice(0, 3), stage: 'flop', variant: 'plo4'
+      })).rejects.toThrow('INVALID_PLAYER_HAND_SIZE')
+      await expect(calculateProbabilities({
+        playerHand: quadAces, communityCards: [], stage: 'pre-flop', variant: 'plo4', opponentRanges: ['QQ+']
+      })).rejects.toThrow('RANGES_REQUIRE_HOLDEM')
+      await expect(calculateProbabilities({
+        playerHand: holdemHand, communityCards: [], stage: 'pre-flop', variant: 'razz' as any
+      })).rejects.toThrow('INVALID_GAME_VARIANT')
+    })
+  })
+
+  describe('seven-card stud', () => {
+    const aces = [createCard('spades', 'A'), createCard('hearts', 'A'), createCard('diamonds', 'K'), createCard('clubs', '2'), createCard('hearts', '9')]
+
+    test('should deal the player\'s own cards to come around visible up-cards', async () => {
+      const results = await calculateProbabilities({
+        playerHand: aces,
+        communityCards: [],
+        stage: 'fifth',
+        variant: 'stud',
+        deadCards: [createCard('spades', '7'), createCard('diamonds', '8')],
+        opponentHands: [[createCard('clubs', 'Q'), createCard('diamonds', 'Q'), createCard('spades', 'J')]]
+      })
+
+      // 52 - 5 own cards - 2 dead cards - 3 up-cards, two cards to come
+      expect(results.probabilities[0].totalOutcomes).toBe(861)
+      expect(results.probabilities.find(p => p.handType === HandStrength.HIGH_CARD)?.probability).toBe(0)
+    })
+
+    test('should simulate opponents\' hidden cards on seventh street', async () => {
+      const results = await calculateProbabilities({
+        playerHand: [...aces, createCard('diamonds', '3'), createCard('clubs', '7')],
+        communityCards: [],
+        stage: 'seventh',
+        variant: 'stud',
+        seed: 7,
+        opponentHands: [[createCard('clubs', '8'), createCard('diamonds', '8'), createCard('hearts', '8'), createCard('spades', '2')]]
+      })
+
+      // Aces up cannot beat trips showing
+      expect(results.equity![0].equity).toBe(0)
+      expect(results.equity![1].holeCards).toHaveLength(4)
+      expect(results.outs).toBeUndefined()
+    })
+
+    test('should reject tables that do not match the street', async () => {
+      await expect(calculateProbabilities({
+        playerHand: aces, communityCards: [], stage: 'fourth', variant: 'stud'
+      })).rejects.toThrow('INVALID_PLAYER_HAND_SIZE')
+      await expect(calculateProbabilities({
+        playerHand: aces, communityCards: [], stage: 'fifth', variant: 'stud', opponentHands: [[createCard('clubs', 'Q')]]
+      })).rejects.toThrow('INVALID_STUD_UP_CARDS')
+      await expect(calculateProbabilities({
+        playerHand: aces, communityCards: [], stage: 'fifth', variant: 'stud', preferredMethod: 'exact',
+        opponentHands: [[createCard('clubs', 'Q'), createCard('diamonds', 'Q'), createCard('spades', 'J')]]
+      })).rejects.toThrow('EXACT_REQUIRES_KNOWN_HANDS')
+    })
+  })
+
+  describe('hi/lo split pots', () => {
+    const parseHand = (hand: string) => hand.split(' ').map(parseCard)
+    const wheelDraw = [createCard('spades', 'A'), createCard('spades', '2'), createCard('diamonds', 'K'), createCard('clubs', 'K')]
+    const lowBoard = [createCard('clubs', '3'), createCard('diamonds', '4'), createCard('spades', '8'), createCard('hearts', 'K'), createCard('clubs', '9')]
+
+    test('should evaluate the best eight-or-better low with two hole cards', () => {
+      const low = evaluateVariantLowHand(wheelDraw, lowBoard, 'plo8')
+      expect(low?.description).toBe('8-4-3-2-A low')
+      expect(low?.bestHand).toHaveLength(5)
+
+      // Hold'em plays any five cards; a paired or high board leaves no low
+      expect(evaluateVariantLowHand(wheelDraw.slice(0, 2), [...lowBoard.slice(0, 2), createCard('hearts', '5'), createCard('hearts', '7'), createCard('hearts', '8')], 'holdem')?.description)
+        .toBe('5-4-3-2-A low')
+      expect(evaluateVariantLowHand(wheelDraw, [createCard('clubs', '3'), createCard('diamonds', '3'), createCard('spades', '9'), createCard('hearts', 'Q'), createCard('clubs', 'J')], 'plo8'))
+        .toBeNull()
+    })
+
+    test('should split the pot between the best high and the best low', async () => {
+      const results = await calculateProbabilities({
+        playerHand: wheelDraw,
+        communityCards: lowBoard,
+        stage: 'river',
+        variant: 'plo8',
+        opponentHands: [[createCard('hearts', 'A'), createCard('hearts', '2'), createCard('diamonds', 'Q'), createCard('clubs', 'Q')]]
+      })
+
+      // Kings take the high half; the tied lows quarter the low half
+      const [player, opponent] = results.equity!
+      expect(player.equity).toBe(75)
+      expect(player.splitPot).toMatchObject({ highEquity: 100, lowEquity: 50, scoopPercentage: 0, quarteredPercentage: 0 })
+      expect(opponent.equity).toBe(25)
+      expect(opponent.splitPot?.quarteredPercentage).toBe(100)
+    })
+
+    test('should give the high hand the whole pot when no low qualifies', async () => {
+      const results = await calculateProbabilities({
+        playerHand: wheelDraw,
+        communityCards: lowBoard.slice(0, 3),
+        stage: 'flop',
+        preferredMethod: 'exact',
+        variant: 'plo8',
+        opponentHands: [[createCard('spades', 'Q'), createCard('hearts', 'Q'), createCard('diamonds', 'J'), createCard('clubs', 'J')]]
+      })
+
+      const [player, opponent] = results.equity!
+      expect(player.equity + opponent.equity).toBeCloseTo(100)
+      expect(opponent.splitPot?.lowPercentage).toBe(0)
+      expect(player.splitPot!.lowPercentage).toBeGreaterThan(0)
+      expect(player.splitPot!.scoopPercentage).toBe(player.winPercentage)
+      // The opponent splits whenever the player makes a low without scooping
+      expect(opponent.tiePercentage).toBeCloseTo(player.splitPot!.lowPercentage - player.winPercentage)
+    })
+
+    test('should split stud-8 pots between each player\'s best high and best low of seven cards', async () => {
+      const request = {
+        playerHand: parseHand('AS 2S 3D 4C 7H KC KD'),
+        communityCards: [],
+        stage: 'seventh',
+        seed: 7,
+        opponentHands: [parseHand('QC QD QH JS')]
+      }
+
+      // Queens showing always take the high; four high up-cards can never make a low
+      const stud8 = await calculateProbabilities({ ...request, variant: 'stud8' })
+      const [player, opponent] = stud8.equity!
+      expect(player.equity).toBe(50)
+      expect(player.splitPot).toMatchObject({ highEquity: 0, lowEquity: 100, lowPercentage: 100, scoopPercentage: 0 })
+      expect(opponent.splitPot?.lowPercentage).toBe(0)
+
+      const stud = await calculateProbabilities({ ...request, variant: 'stud' })
+      expect(stud.equity![0].equity).toBe(0)
+      expect(stud.equity![0].splitPot).toBeUndefined()
+    })
+  })
+
+  describe('lowball', () => {
+    const parseHand = (hand: string) => hand.split(' ').map(parseCard)
+
+    test('should play aces high and count straights and flushes in deuce-to-seven', () => {
+      const sevenFive = evaluateLowballHand({ cards: parseHand('7S 5H 4D 3C 2S KH KD'), game: '27' })
+      expect(sevenFive.description).toBe('Seven-five low')
+      expect(sevenFive.handStrength).toBe(HandStrength.HIGH_CARD)
+      expect(sevenFive.bestHand.map(card => card.rank)).toEqual(['7', '5', '4', '3', '2'])
+
+      // A-2-3-4-5 is ace high, not a straight; a suited one is a flush
+      expect(evaluateLowballHand({ cards: parseHand('AS 2H 3D 4C 5S'), game: '27' }).description).toBe('Ace-five low')
+      expect(evaluateLowballHand({ cards: parseHand('6S 5H 4D 3C 2S'), game: '27' }).handStrength).toBe(HandStrength.STRAIGHT)
+      expect(evaluateLowballHand({ cards: parseHand('7S 5S 4S 3S 2S'), game: '27' }).description).toBe('Flush: 7-5-4-3-2')
+
+      expect(getDeuceToSevenRank(parseHand('7S 5H 4D 3C 2S'))).toBeGreaterThan(getDeuceToSevenRank(parseHand('7S 6H 4D 3C 2S')))
+      expect(getDeuceToSevenRank(parseHand('KS QH JD 9C 8S'))).toBeGreaterThan(getDeuceToSevenRank(parseHand('2S 2H 3D 4C 5S')))
+    })
+
+    test('should play aces low and ignore straights and flushes in ace-to-five', () => {
+      const wheel = evaluateLowballHand({ cards: parseHand('AS 2S 3S 4S 5S KH KD'), game: 'a5' })
+      expect(wheel.description).toBe('Five-four low')
+      expect(wheel.bestHand.map(card => card.rank)).toEqual(['5', '4', '3', '2', 'A'])
+
+      const paired = evaluateLowballHand({ cards: parseHand('AS AH 2D 3C 4S'), game: 'a5' })
+      expect(paired.handStrength).toBe(HandStrength.PAIR)
+      expect(paired.description).toBe('One Pair: A-A-4-3-2')
+
+      expect(getAceToFiveRank(parseHand('6S 4H 3D 2C AS'))).toBeGreaterThan(getAceToFiveRank(parseHand('6S 5H 3D 2C AS')))
+      expect(getAceToFiveRank(parseHand('KS QH JD 9C 8S'))).toBeGreaterThan(getAceToFiveRank(parseHand('AS AH 2D 3C 4S')))
+    })
+
+    test('should reject unknown lowball games and short hands', () => {
+      expect(() => evaluateLowballHand({ cards: parseHand('7S 5H 4D 3C 2S'), game: 'badugi' as any })).toThrow('INVALID_GAME_VARIANT')
+      expect(() => evaluateLowballHand({ cards: parseHand('7S 5H 4D 3C'), game: '27' })).toThrow('INSUFFICIENT_CARDS')
+    })
+  })
+
+  describe('calculation cache', () => {
+    const flop = (suit: 'hearts' | 'spades') => ({
+      playerHand: [createCard(suit, 'A'), createCard(suit, 'K')],
+      communityCards: [createCard(suit, 'J'), createCard(suit, '10'), createCard('clubs', '2')],
+      stage: 'flop',
+      preferredMethod: 'exact' as const,
+      opponentHands: [[createCard('diamonds', 'Q'), createCard('clubs', 'Q')]]
+    })
+
+    test('should answer a repeated exact calculation from the cache', async () => {
+      const first = await calculateProbabilities(flop('hearts'))
+      const hitsBefore = checkHealth().performance.cacheHits
+      const second = await calculateProbabilities(flop('hearts'))
+
+      expect(checkHealth().performance.cacheHits).toBe(hitsBefore + 1)
+      expect(second.probabilities).toEqual(first.probabilities)
+      expect(second.equity).toEqual(first.equity)
+      expect(second.calculationTime).toBeLessThan(first.calculationTime)
+    })
+
+    test('should relabel results cached for a suit-isomorphic request', async () => {
+      const hearts = await calculateProbabilities(flop('hearts'))
+      const hitsBefore = checkHealth().performance.cacheHits
+      const spades = await calculateProbabilities(flop('spades'))
+
+      expect(checkHealth().performance.cacheHits).toBe(hitsBefore + 1)
+      expect(spades.equity![0].equity).toBe(hearts.equity![0].equity)
+      expect(spades.playerHand[0].suit).toBe('spades')
+
+      // The flush outs follow the player's suit
+      const flushOuts = spades.outs!.groups.find(group => group.handType === HandStrength.FLUSH)!.outs
+      expect(flushOuts.every(out => out.card.suit === 'spades')).toBe(true)
+      expect(hearts.relativeStrength?.description).toBe('High Card, A♥ high')
+      expect(spades.relativeStrength?.description).toBe('High Card, A♠ high')
+    })
+
+    test('should not cache unseeded simulations or count them as misses', async () => {
+      const request = { playerHand: [createCard('spades', '7'), createCard('hearts', '2')], communityCards: [], stage: 'pre-flop', preferredMethod: 'simulation' as const }
+      const before = checkHealth().performance
+      const first = await calculateProbabilities(request)
+      const second = await calculateProbabilities(request)
+
+      expect(second.seed).not.toBe(first.seed)
+      expect(checkHealth().performance).toMatchObject({ cacheHits: before.cacheHits, cacheMisses: before.cacheMisses, cacheSize: before.cacheSize })
+      expect(checkHealth().performance.avgCalculationTime).toBeGreaterThan(0)
+    })
+
+    test('should not cache a seeded run that its time budget cut short', async () => {
+      const request = {
+        playerHand: [createCard('spades', 'A'), createCard('hearts', 'K')],
+        communityCards: [],
+        stage: 'pre-flop',
+        preferredMethod: 'simulation' as const,
+        targetPrecision: 0.00001,
+        timeBudget: 50,
+        seed: 7
+      }
+
+      // Every clock reading is 100ms after the last, so the budget runs out before the target precision is met
+      let now = 0
+      const clock = vi.spyOn(performance, 'now').mockImplementation(() => (now += 100))
+
+      try {
+        const before = checkHealth().performance
+        const results = await calculateProbabilities(request)
+        await calculateProbabilities(request)
+
+        expect(results.converged).toBe(false)
+        expect(checkHealth().performance).toMatchObject({ cacheHits: before.cacheHits, cacheSize: before.cacheSize })
+      } finally {
+        clock.mockRestore()
+      }
+    })
+
+    test('should replay a seeded simulation the same way whatever its suit-isomorphic requests cached', async () => {
+      const preflop = (suit: 'hearts' | 'spades') => ({
+        playerHand: [createCard(suit, 'A'), createCard(suit, 'K')],
+        communityCards: [],
+        stage: 'pre-flop',
+        preferredMethod: 'simulation' as const,
+        seed: 42
+      })
+
+      calculationCache.clear()
+      await calculateProbabilities(preflop('hearts'))
+      const afterHearts = await calculateProbabilities(preflop('spades'))
+
+      calculationCache.clear()
+      const fresh = await calculateProbabilities(preflop('spades'))
+
+      expect(afterHearts.probabilities).toEqual(fresh.probabilities)
+    })
   })
 })
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { describe, test, expect } from 'vitest'
+import { parseRange, formatRange, removeBlockers, formatCombo, getHandClassWeights, setHandClassWeight } from '../../src/lib/range-utils/src/range-utils'
+import { createCard } from '../../src/lib/card-utils/src/card-utils'
+
+describe('Range Utils Library Contract Tests', () => {
+  describe('parseRange', () => {
+    test('should expand standard notation into concrete combos', () => {
+      const range = parseRange('QQ+, AKs, A5s-A2s, KQo, 76s+, 22-55, AhKh')
+
+      // QQ+ 18, AKs 4, A5s-A2s 16, KQo 12, 76s-KQs 28, 22-55 24 (AhKh is already in AKs)
+      expect(range.totalCombos).toBe(102)
+      expect(range.weightedCombos).toBe(102)
+    })
+
+    test('should count suited and offsuit combos for an unqualified hand', () => {
+      expect(parseRange('AK').totalCombos).toBe(16)
+      expect(parseRange('ATs+').totalCombos).toBe(16)
+    })
+
+    test('should apply weights with the last mention winning', () => {
+      const range = parseRange('AKs:0.5, KK, AhKh:0.25')
+
+      expect(range.totalCombos).toBe(10)
+      expect(range.weightedCombos).toBe(7.75)
+    })
+
+    test('should remove combos blocked by used cards', () => {
+      const usedCards = [createCard('spades', 'A'), createCard('hearts', 'K')]
+      const range = parseRange('AA, AKs', usedCards)
+
+      expect(range.totalCombos).toBe(5)
+      expect(range.combos.every(combo => !combo.cards.some(card => card.id === 'AS' || card.id === 'KH'))).toBe(true)
+      expect(removeBlockers(parseRange('AA'), [createCard('spades', 'A')]).totalCombos).toBe(3)
+    })
+
+    test('should reject malformed tokens', () => {
+      expect(() => parseRange('AKx')).toThrow('INVALID_RANGE')
+      expect(() => parseRange('AAs')).toThrow('INVALID_RANGE')
+      expect(() => parseRange('A5s-K2s')).toThrow('INVALID_RANGE')
+      expect(() => parseRange('AK:1.5')).toThrow('INVALID_RANGE_WEIGHT')
+    })
+  })
+
+  describe('formatRange', () => {
+    test('should serialize complete classes as canonical runs', () => {
+      expect(formatRange(parseRange('22, 33, 44, 55, AKs, AQs, KK+, A5s-A2s'))).toBe('KK+, 55-22, AQs+, A5s-A2s')
+      expect(formatRange(parseRange('AKs:0.5, QQ'))).toBe('QQ, AKs:0.5')
+    })
+
+    test('should list specific combos for partial classes', () => {
+      const range = parseRange('AA', [createCard('spades', 'A')])
+
+      expect(formatRange(range)).toBe('AhAd, AhAc, AdAc')
+      expect(formatCombo(range.combos[0].cards)).toBe('AhAd')
+    })
+
+    test('should round-trip through its own notation', () => {
+      const range = parseRange('QQ+, AKs, A5s-A2s, KQo, 76s+, 22-55, AhKh:0.5')
+      const roundTrip = parseRange(formatRange(range))
+
+      expect(roundTrip.totalCombos).toBe(range.totalCombos)
+      expect(roundTrip.weightedCombos).toBe(range.weightedCombos)
+      expect(formatRange(roundTrip)).toBe(formatRange(range))
+    })
+  })
+
+  describe('hand class weights', () => {
+    test('should report the weighted share of each class in the range', () => {
+      const weights = getHandClassWeights(parseRange('AA, AKs:0.5, AhKd'))
+
+      expect(weights['AA']).toBe(1)
+      expect(weights['AKs']).toBe(0.5)
+      expect(weights['AKo']).toBeCloseTo(1 / 12)
+    })
+
+    test('should set one class without touching the others', () => {
+      const range = setHandClassWeight(parseRange('AA, AhKh'), 'KK', 0.5)
+
+      expect(formatRange(range)).toBe('AA, KK:0.5, AhKh')
+      expect(formatRange(setHandClassWeight(range, 'AA', 0))).toBe('KK:0.5, AhKh')
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, test, expect, vi } from 'vitest'
+import { BettingPanel } from '../../src/components/Betting/BettingPanel'
+
+const betting = { potSize: 150, betToCall: 50, effectiveStack: 1000 }
+
+describe('Betting Panel Integration Tests', () => {
+  test('should show pot odds and EV for a manually entered equity', () => {
+    render(<BettingPanel betting={betting} onChange={() => {}} />)
+
+    fireEvent.change(screen.getByLabelText('Equity percentage'), { target: { value: '20' } })
+
+    const analysis = screen.getByTestId('betting-analysis')
+    expect(analysis).toHaveTextContent('Pot odds: 3:1')
+    expect(analysis).toHaveTextContent('Required equity: 25.0%')
+    expect(analysis).toHaveTextContent('EV of call: -10 chips')
+    expect(analysis).toHaveTextContent('win 50 more chips later to break even')
+    expect(analysis).toHaveTextContent('Fold is the better play at 20.0% equity')
+  })
+
+  test('should use the calculated equity until switched to manual', () => {
+    render(<BettingPanel betting={betting} onChange={() => {}} calculatedEquity={40} />)
+
+    expect(screen.getByTestId('betting-analysis')).toHaveTextContent('Call is the better play at 40.0% equity')
+    expect(screen.queryByLabelText('Equity percentage')).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Manual' }))
+
+    expect(screen.getByTestId('betting-analysis')).toHaveTextContent('at 50.0% equity')
+  })
+
+  test('should report chip changes and invalid amounts', () => {
+    const onChange = vi.fn()
+    render(<BettingPanel betting={{ ...betting, effectiveStack: 40 }} onChange={onChange} />)
+
+    expect(screen.getByTestId('betting-panel')).toHaveTextContent('bet to call between zero and the effective stack')
+
+    fireEvent.change(screen.getByLabelText('Effective stack'), { target: { value: '500' } })
+    expect(onChange).toHaveBeenCalledWith({ ...betting, effectiveStack: 500 })
+  })
+})
\ No newline at end of file
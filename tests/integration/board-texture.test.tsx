@@ -0,0 +1,54 @@
+import { render, screen } from '@testing-library/react'
+import { describe, test, expect } from 'vitest'
+import { BoardTexturePanel } from '../../src/components/Cards/BoardTexturePanel'
+import { createCard } from '../../src/lib/card-utils/src/card-utils'
+
+describe('Board Texture Integration Tests', () => {
+  test('should stay hidden until the flop is dealt', () => {
+    render(<BoardTexturePanel cards={[createCard('hearts', 'K'), createCard('hearts', 'Q'), undefined, undefined, undefined]} />)
+
+    expect(screen.queryByTestId('board-texture')).not.toBeInTheDocument()
+  })
+
+  test('should describe the texture and nuts of a flop', () => {
+    render(<BoardTexturePanel cards={[createCard('hearts', 'K'), createCard('hearts', 'Q'), createCard('diamonds', '7'), undefined, undefined]} />)
+
+    const panel = screen.getByTestId('board-texture')
+    expect(panel).toHaveTextContent('High')
+    expect(panel).toHaveTextContent('Unpaired')
+    expect(panel).toHaveTextContent('Two-tone')
+    expect(panel).toHaveTextContent('Disconnected')
+    expect(panel).toHaveTextContent('Flushes: draw possible')
+    expect(panel).toHaveTextContent('Nuts: Three of a Kind, Ks')
+  })
+
+  test('should list possible straights and flushes on a coordinated turn', () => {
+    render(<BoardTexturePanel cards={[
+      createCard('spades', '9'),
+      createCard('spades', '8'),
+      createCard('spades', '7'),
+      createCard('diamonds', '2'),
+      undefined
+    ]} />)
+
+    const panel = screen.getByTestId('board-texture')
+    expect(panel).toHaveTextContent('Flushes: possible (♠)')
+    expect(panel).toHaveTextContent('Straights: J-high, 10-high, 9-high')
+    expect(panel).toHaveTextContent('Nuts: Straight Flush, J♠ high')
+  })
+
+  test('should tell a three-flush turn from a two-tone board', () => {
+    render(<BoardTexturePanel cards={[
+      createCard('spades', '2'),
+      createCard('spades', '7'),
+      createCard('spades', '9'),
+      createCard('diamonds', 'K'),
+      undefined
+    ]} />)
+
+    const panel = screen.getByTestId('board-texture')
+    expect(panel).toHaveTextContent('Three-flush')
+    expect(panel).not.toHaveTextContent('Two-tone')
+    expect(panel).toHaveTextContent('Flushes: possible (♠)')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import { describe, test, expect, vi } from 'vitest'
+import { DeadCardTray } from '../../src/components/Cards/DeadCardTray'
+import { createCard } from '../../src/lib/card-utils/src/card-utils'
+
+describe('Dead Card Tray Integration Tests', () => {
+  test('should offer to mark a dead card', () => {
+    const onAddClick = vi.fn()
+    render(<DeadCardTray cards={[]} onAddClick={onAddClick} onRemove={() => {}} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Mark Dead Card' }))
+    expect(onAddClick).toHaveBeenCalled()
+  })
+
+  test('should return a dead card to the deck when clicked', () => {
+    const onRemove = vi.fn()
+    const cards = [createCard('spades', '7'), createCard('diamonds', '2')]
+    render(<DeadCardTray cards={cards} onAddClick={() => {}} onRemove={onRemove} />)
+
+    fireEvent.click(screen.getByRole('button', { name: cards[1].display }))
+    expect(onRemove).toHaveBeenCalledWith(1)
+  })
+
+  test('should stop offering slots once the tray is full', () => {
+    render(<DeadCardTray cards={[createCard('spades', '7')]} maxCards={1} onAddClick={() => {}} onRemove={() => {}} />)
+
+    expect(screen.queryByRole('button', { name: 'Mark Dead Card' })).not.toBeInTheDocument()
+  })
+})
\ No newline at end of file
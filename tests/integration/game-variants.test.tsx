@@ -0,0 +1,66 @@
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, test, expect } from 'vitest'
+import { PokerCalculator } from '../../src/components/Calculator/PokerCalculator'
+
+describe('Game Variant Integration Tests', () => {
+  test('should deal two hole cards in Texas Hold\'em by default', () => {
+    render(<PokerCalculator />)
+
+    expect(screen.getByLabelText('Game')).toHaveValue('holdem')
+    expect(screen.getAllByRole('button', { name: /^hole card \d$/i })).toHaveLength(2)
+  })
+
+  test('should offer a slot for every Omaha hole card', async () => {
+    const user = userEvent.setup()
+    render(<PokerCalculator />)
+
+    await user.selectOptions(screen.getByLabelText('Game'), 'plo4')
+    expect(screen.getAllByRole('button', { name: /^hole card \d$/i })).toHaveLength(4)
+
+    await user.selectOptions(screen.getByLabelText('Game'), 'plo5')
+    expect(screen.getAllByRole('button', { name: /^hole card \d$/i })).toHaveLength(5)
+  })
+
+  test('should pick short-deck cards from 36 cards', async () => {
+    const user = userEvent.setup()
+    render(<PokerCalculator />)
+
+    await user.selectOptions(screen.getByLabelText('Game'), 'shortdeck')
+    await user.click(screen.getByRole('button', { name: /hole card 1/i }))
+
+    expect(screen.getAllByRole('button', { name: /^[AKQJ2-9]|10[♠♥♦♣]$/ })).toHaveLength(36)
+    expect(screen.queryByRole('button', { name: '5♠' })).not.toBeInTheDocument()
+  })
+
+  test('should lay out a stud table and make folded up-cards dead', async () => {
+    const user = userEvent.setup()
+    render(<PokerCalculator />)
+
+    await user.selectOptions(screen.getByLabelText('Game'), 'stud')
+    expect(screen.getAllByRole('button', { name: /^(down|up) card \d$/i })).toHaveLength(7)
+    expect(screen.queryByText('Community Cards')).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Add Opponent' }))
+    await user.click(screen.getByRole('button', { name: 'Opponent 1 Up Card 1' }))
+    await user.click(screen.getByRole('button', { name: 'Q♣' }))
+    expect(screen.queryByRole('button', { name: 'Opponent 1 Up Card 1' })).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Fold Opponent 1' }))
+    expect(screen.queryAllByTestId('stud-opponent')).toHaveLength(0)
+    expect(within(screen.getByTestId('dead-card-tray')).getByRole('button', { name: 'Q♣' })).toBeInTheDocument()
+  })
+
+  test('should clear the hand and disable ranges when switching to Omaha', async () => {
+    const user = userEvent.setup()
+    render(<PokerCalculator />)
+
+    await user.click(screen.getByRole('button', { name: /hole card 1/i }))
+    await user.click(screen.getByRole('button', { name: 'A♠' }))
+    expect(screen.queryByRole('button', { name: /^hole card 1$/i })).not.toBeInTheDocument()
+
+    await user.selectOptions(screen.getByLabelText('Game'), 'plo4')
+    expect(screen.getByRole('button', { name: /^hole card 1$/i })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Edit Opponent Range' })).toBeDisabled()
+  })
+})
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, test, expect } from 'vitest'
+import { RangeGrid } from '../../src/components/Range/RangeGrid'
+import { PokerCalculator } from '../../src/components/Calculator/PokerCalculator'
+
+function ControlledRangeGrid({ initialValue }: { initialValue: string }) {
+  const [value, setValue] = useState(initialValue)
+  return (
+    <>
+      <RangeGrid value={value} onChange={setValue} />
+      <output data-testid="range-value">{value}</output>
+    </>
+  )
+}
+
+describe('Range Grid Integration Tests', () => {
+  test('should lay out all 169 hand classes with pairs on the diagonal', () => {
+    render(<ControlledRangeGrid initialValue="" />)
+
+    expect(screen.getAllByRole('button', { pressed: false }).length).toBeGreaterThanOrEqual(169)
+    expect(screen.getByTestId('range-cell-AA')).toBeInTheDocument()
+    expect(screen.getByTestId('range-cell-AKs')).toBeInTheDocument()
+    expect(screen.getByTestId('range-cell-AKo')).toBeInTheDocument()
+  })
+
+  test('should show the combo count and share of all hands for a range string', () => {
+    render(<ControlledRangeGrid initialValue="QQ+, AKs" />)
+
+    expect(screen.getByTestId('range-summary')).toHaveTextContent('22 combos (1.66% of hands)')
+    expect(screen.getByTestId('range-cell-KK')).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByTestId('range-cell-AKo')).toHaveAttribute('aria-pressed', 'false')
+  })
+
+  test('should add and remove hands by clicking and dragging across cells', () => {
+    render(<ControlledRangeGrid initialValue="QQ+" />)
+
+    fireEvent.mouseDown(screen.getByTestId('range-cell-JJ'))
+    fireEvent.mouseEnter(screen.getByTestId('range-cell-TT'))
+    fireEvent.mouseUp(window)
+    expect(screen.getByTestId('range-value')).toHaveTextContent('TT+')
+
+    // Painting starts from a selected cell, so the drag removes hands
+    fireEvent.mouseDown(screen.getByTestId('range-cell-AA'))
+    fireEvent.mouseUp(window)
+    expect(screen.getByTestId('range-value')).toHaveTextContent('KK-TT')
+  })
+
+  test('should apply partial weights and typed range strings', async () => {
+    const user = userEvent.setup()
+    render(<ControlledRangeGrid initialValue="" />)
+
+    await user.click(screen.getByRole('button', { name: '50%' }))
+    fireEvent.mouseDown(screen.getByTestId('range-cell-AKs'))
+    fireEvent.mouseUp(window)
+    expect(screen.getByTestId('range-value')).toHaveTextContent('AKs:0.5')
+
+    const input = screen.getByLabelText('Range notation')
+    await user.clear(input)
+    await user.type(input, 'AKs, 22{Enter}')
+    expect(screen.getByTestId('range-value')).toHaveTextContent('22, AKs')
+
+    await user.clear(input)
+    await user.type(input, 'AKx{Enter}')
+    expect(screen.getByText(/invalid hand range notation/i)).toBeInTheDocument()
+  })
+
+  test('should set the opponent range from the calculator', async () => {
+    const user = userEvent.setup()
+    render(<PokerCalculator />)
+
+    await user.click(screen.getByRole('button', { name: /edit opponent range/i }))
+    await user.type(screen.getByLabelText('Range notation'), 'QQ+{Enter}')
+    await user.click(screen.getByRole('button', { name: /done/i }))
+
+    expect(screen.getByTestId('opponent-range')).toHaveTextContent('vs QQ+')
+  })
+})
\ No newline at end of file